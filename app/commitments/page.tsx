@@ -0,0 +1,181 @@
+// app/commitments/page.tsx — service commitment tables (service × destination ZIP range × effective dates)
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { CARRIERS, getCarrier, type CarrierId } from "@/lib/carriers";
+import {
+  commitmentsCsv, entriesFromRules, loadCommitments, newCommitmentId, parseCommitmentsCsv, saveCommitments, validateCommitment,
+  type CommitmentEntry,
+} from "@/lib/commitments";
+import { errorMessage } from "@/lib/parse";
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+function downloadCsv(entries: CommitmentEntry[]) {
+  const blob = new Blob([commitmentsCsv(entries)], { type: "text/csv;charset=utf-8;" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `service_commitments_${today()}.csv`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function CommitmentsPage() {
+  const [carrier, setCarrier] = useState<CarrierId>("UPS");
+  const [saved, setSaved] = useState<CommitmentEntry[]>([]);
+  const [draft, setDraft] = useState<CommitmentEntry[]>([]);
+  const [importErrors, setImportErrors] = useState<{ heading: string; errors: string[] }>({ heading: "", errors: [] });
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const all = loadCommitments();
+    setSaved(all);
+    setDraft(all);
+  }, []);
+
+  const rows = draft.filter((e) => e.carrier === carrier);
+  const errors = useMemo(() => new Map(draft.map((e) => [e.id, validateCommitment(e)])), [draft]);
+  const invalid = draft.some((e) => errors.get(e.id)!.length > 0);
+  const dirty = JSON.stringify(draft) !== JSON.stringify(saved);
+
+  function update(id: string, patch: Partial<CommitmentEntry>) {
+    setDraft((prev) => prev.map((e) => (e.id === id ? { ...e, ...patch } : e)));
+  }
+
+  function add() {
+    setDraft((prev) => [
+      ...prev,
+      { id: newCommitmentId(), carrier, service: "", zipFrom: "00000", zipTo: "99999", effectiveFrom: today(), days: 1, cutoff: "20:00" },
+    ]);
+  }
+
+  function seed() {
+    setDraft((prev) => [...prev, ...entriesFromRules(getCarrier(carrier), `${new Date().getFullYear()}-01-01`)]);
+  }
+
+  async function importCsv(file: File) {
+    const parsed = await parseCommitmentsCsv(file).catch((err) => {
+      setImportErrors({ heading: `Could not import ${file.name}:`, errors: [errorMessage(err)] });
+      return null;
+    });
+    if (!parsed) return;
+    const { entries, errors } = parsed;
+    setImportErrors({ heading: `${errors.length} row(s) skipped:`, errors });
+    if (!entries.length) return;
+    const carriers = new Set(entries.map((e) => e.carrier));
+    const names = [...carriers].map((c) => getCarrier(c).name).join(", ");
+    if (!confirm(`Replace the ${names} commitment table${carriers.size > 1 ? "s" : ""} with ${entries.length} imported row(s)?`)) return;
+    setDraft((prev) => [...prev.filter((e) => !carriers.has(e.carrier)), ...entries]);
+  }
+
+  function save() {
+    setSaved(saveCommitments(draft));
+  }
+
+  return (
+    <div className="space-y-6">
+      <section className="card p-6">
+        <h1 className="text-2xl font-extrabold tracking-tight" style={{ color: "var(--brand-primary)" }}>
+          Service Commitments
+        </h1>
+        <p className="mt-2 text-slate-600">
+          Transit days and delivery cutoff per service, destination ZIP range and ship-date window. The late-delivery check
+          uses the most specific row that covers a shipment; services with no row fall back to the built-in rules.
+        </p>
+        <div className="mt-4 flex flex-wrap items-center gap-3 text-sm">
+          <label className="flex items-center gap-2">
+            Carrier
+            <select className="rounded-md border px-2 py-1" value={carrier} onChange={(e) => setCarrier(e.target.value as CarrierId)}>
+              {CARRIERS.map((c) => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+          </label>
+          <button className="btn btn-outline" onClick={() => fileRef.current?.click()}>Import CSV</button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".csv"
+            className="hidden"
+            onChange={(e) => { const f = e.target.files?.[0]; if (f) importCsv(f); e.target.value = ""; }}
+          />
+          <button className="btn btn-outline" onClick={() => downloadCsv(draft)} disabled={!draft.length}>Export CSV</button>
+        </div>
+        {importErrors.errors.length > 0 && (
+          <div className="mt-3 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+            {importErrors.heading}
+            <ul className="mt-1 list-disc pl-5">
+              {importErrors.errors.slice(0, 10).map((e) => <li key={e}>{e}</li>)}
+            </ul>
+          </div>
+        )}
+      </section>
+
+      <section className="card p-0 overflow-hidden">
+        <div className="max-h-[70vh] overflow-auto">
+          <table className="table text-sm">
+            <thead className="sticky top-0 z-10">
+              <tr>
+                <th>Service</th>
+                <th>ZIP From</th>
+                <th>ZIP To</th>
+                <th>Effective From</th>
+                <th>Effective To</th>
+                <th className="text-right">Days</th>
+                <th>Cutoff</th>
+                <th>Saturday</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((e, i) => {
+                const errs = errors.get(e.id) ?? [];
+                return (
+                  <tr key={e.id} className={i % 2 ? "bg-slate-50/40" : ""}>
+                    <td>
+                      <input className="w-56 rounded border px-1" value={e.service} placeholder="UPS NEXT DAY AIR"
+                        onChange={(ev) => update(e.id, { service: ev.target.value.toUpperCase() })} />
+                      {errs.length > 0 && <div className="mt-1 text-xs text-red-600">{errs.join("; ")}</div>}
+                    </td>
+                    <td><input className="w-20 rounded border px-1 font-mono" value={e.zipFrom} onChange={(ev) => update(e.id, { zipFrom: ev.target.value })} /></td>
+                    <td><input className="w-20 rounded border px-1 font-mono" value={e.zipTo} onChange={(ev) => update(e.id, { zipTo: ev.target.value })} /></td>
+                    <td><input type="date" className="rounded border px-1" value={e.effectiveFrom} onChange={(ev) => update(e.id, { effectiveFrom: ev.target.value })} /></td>
+                    <td><input type="date" className="rounded border px-1" value={e.effectiveTo ?? ""} onChange={(ev) => update(e.id, { effectiveTo: ev.target.value || undefined })} /></td>
+                    <td className="text-right">
+                      <input type="number" min={0} className="w-14 rounded border px-1 text-right" value={e.days}
+                        onChange={(ev) => update(e.id, { days: Number(ev.target.value) })} />
+                    </td>
+                    <td><input type="time" className="rounded border px-1" value={e.cutoff} onChange={(ev) => update(e.id, { cutoff: ev.target.value })} /></td>
+                    <td className="text-center">
+                      <input type="checkbox" checked={!!e.saturday} onChange={(ev) => update(e.id, { saturday: ev.target.checked || undefined })} />
+                    </td>
+                    <td className="text-right">
+                      <button className="text-red-600 underline" onClick={() => setDraft((prev) => prev.filter((x) => x.id !== e.id))}>Remove</button>
+                    </td>
+                  </tr>
+                );
+              })}
+              {rows.length === 0 && (
+                <tr>
+                  <td colSpan={9} className="text-slate-500">
+                    No {getCarrier(carrier).name} rows — the built-in rules apply.{" "}
+                    <button className="underline" onClick={seed}>Start from the built-in rules</button>
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+        <div className="border-t p-4">
+          <button className="btn btn-outline" onClick={add}>Add row</button>
+        </div>
+      </section>
+
+      <div className="flex gap-3">
+        <button className="btn btn-brand" onClick={save} disabled={!dirty || invalid}>Save tables</button>
+        <button className="btn btn-outline" onClick={() => setDraft(saved)} disabled={!dirty}>Discard changes</button>
+        {invalid && <span className="self-center text-sm text-red-600">Fix the highlighted rows before saving</span>}
+        {!invalid && dirty && <span className="self-center text-sm text-slate-500">Unsaved changes</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+// app/compare/page.tsx — diff two audits (saved runs or exported result CSVs)
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import * as Papa from "papaparse";
+import type { Discrepancy } from "@/lib/audit";
+import { getCarrier } from "@/lib/carriers";
+import { listRuns, type AuditRun } from "@/lib/history";
+import { DIFF_STATUSES, diffRuns, parseResultsCsv, type DiffStatus, type RunDiff } from "@/lib/compare";
+import { errorMessage } from "@/lib/parse";
+
+type Side = { label: string; discrepancies: Discrepancy[] };
+
+const STATUS_TONE: Record<DiffStatus, string> = {
+  New: "bg-red-50 text-red-700 border-red-200",
+  Changed: "bg-amber-50 text-amber-700 border-amber-200",
+  "Still open": "bg-slate-50 text-slate-700 border-slate-200",
+  Resolved: "bg-green-50 text-green-700 border-green-200",
+  "Not in later run": "bg-slate-50 text-slate-500 border-slate-200",
+};
+
+function runLabel(r: AuditRun) {
+  return `${new Date(r.createdAt).toLocaleString()} — ${getCarrier(r.carrier).name} (${r.summary.overCount} overbilled)`;
+}
+
+const money = (n?: number) => (n == null ? "" : `$${n.toFixed(2)}`);
+
+function exportDiffCSV(rows: RunDiff[]) {
+  const csv = Papa.unparse(rows.map((r) => ({
+    "Tracking #": r.tracking,
+    "Invoice #": r.invoice,
+    Status: r.status,
+    "Before Difference": r.before ? r.before.difference.toFixed(2) : "",
+    "After Difference": r.after ? r.after.difference.toFixed(2) : "",
+    Change: r.change.toFixed(2),
+    "Before Note": r.before?.note ?? "",
+    "After Note": r.after?.note ?? "",
+  })));
+  const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `parcel_audit_changes_${new Date().toISOString().slice(0, 10)}.csv`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// Pick one side of the comparison: a saved run or an uploaded results CSV
+function SidePicker({ title, runs, value, onChange }: { title: string; runs: AuditRun[]; value: Side | null; onChange: (s: Side | null) => void }) {
+  async function upload(list: FileList | null) {
+    const file = list?.[0];
+    if (!file) return;
+    try {
+      const { carrier, discrepancies } = await parseResultsCsv(file);
+      onChange({ label: carrier ? `${file.name} (${carrier})` : file.name, discrepancies });
+    } catch (err) {
+      alert(errorMessage(err));
+    }
+  }
+
+  return (
+    <div className="rounded-lg border bg-white p-4 space-y-2">
+      <div className="font-semibold">{title}</div>
+      <select
+        className="w-full rounded-md border px-2 py-1 text-sm"
+        value=""
+        onChange={(e) => {
+          const run = runs.find((r) => r.id === e.target.value);
+          if (run) onChange({ label: runLabel(run), discrepancies: run.discrepancies });
+        }}
+      >
+        <option value="">{runs.length ? "Choose a saved run…" : "No saved runs"}</option>
+        {runs.map((r) => <option key={r.id} value={r.id}>{runLabel(r)}</option>)}
+      </select>
+      <label className="block text-xs text-slate-500">
+        or upload a results CSV:{" "}
+        <input type="file" accept=".csv" className="text-xs" onChange={(e) => { upload(e.target.files); e.target.value = ""; }} />
+      </label>
+      <div className="text-sm text-slate-700">{value ? <>Using <b>{value.label}</b> · {value.discrepancies.length} rows</> : "Nothing selected"}</div>
+    </div>
+  );
+}
+
+export default function ComparePage() {
+  const [runs, setRuns] = useState<AuditRun[]>([]);
+  const [before, setBefore] = useState<Side | null>(null);
+  const [after, setAfter] = useState<Side | null>(null);
+  const [filter, setFilter] = useState<DiffStatus | "All">("All");
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  // Default to the two most recent saved runs
+  useEffect(() => {
+    listRuns().then((list) => {
+      setRuns(list);
+      if (list[1]) setBefore({ label: runLabel(list[1]), discrepancies: list[1].discrepancies });
+      if (list[0]) setAfter({ label: runLabel(list[0]), discrepancies: list[0].discrepancies });
+    }).catch((err) => setLoadError(`Could not load saved runs: ${errorMessage(err)}. Upload results CSVs instead.`));
+  }, []);
+
+  const diff = useMemo(() => (before && after ? diffRuns(before.discrepancies, after.discrepancies) : []), [before, after]);
+  const counts = useMemo(() => {
+    const c: Record<DiffStatus, number> = { New: 0, Changed: 0, "Still open": 0, Resolved: 0, "Not in later run": 0 };
+    diff.forEach((d) => c[d.status]++);
+    return c;
+  }, [diff]);
+  const shown = filter === "All" ? diff : diff.filter((d) => d.status === filter);
+
+  return (
+    <div className="space-y-6">
+      <section className="card p-6">
+        <h1 className="text-2xl font-extrabold tracking-tight" style={{ color: "var(--brand-primary)" }}>
+          Compare Audit Runs
+        </h1>
+        <p className="mt-2 text-slate-600">
+          Pick last week’s audit and this week’s. Each open discrepancy is marked <b>New</b>, <b>Changed</b> (amount or note moved), <b>Still open</b>, <b>Resolved</b> (now matching or credited), or <b>Not in later run</b> (not billed in the later run, so not known to be fixed).
+        </p>
+      </section>
+
+      {loadError && (
+        <section className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{loadError}</section>
+      )}
+
+      <section className="grid gap-4 md:grid-cols-2">
+        <SidePicker title="Earlier run" runs={runs} value={before} onChange={setBefore} />
+        <SidePicker title="Later run" runs={runs} value={after} onChange={setAfter} />
+      </section>
+
+      {before && after && (
+        <section className="flex flex-wrap items-center gap-2">
+          {(["All", ...DIFF_STATUSES] as const).map((s) => (
+            <button key={s} onClick={() => setFilter(s)} className={`btn ${filter === s ? "btn-brand" : "btn-outline"}`}>
+              {s} ({s === "All" ? diff.length : counts[s]})
+            </button>
+          ))}
+          <button onClick={() => exportDiffCSV(shown)} disabled={!shown.length} className="btn btn-outline disabled:opacity-60">
+            Export (CSV)
+          </button>
+        </section>
+      )}
+
+      {shown.length > 0 && (
+        <section className="card p-0 overflow-hidden">
+          <div className="max-h-[70vh] overflow-auto">
+            <table className="table text-sm">
+              <thead className="sticky top-0 z-10">
+                <tr>
+                  <th>Tracking #</th>
+                  <th>Invoice #</th>
+                  <th>Status</th>
+                  <th className="text-right">Before</th>
+                  <th className="text-right">After</th>
+                  <th className="text-right">Change</th>
+                  <th>Note</th>
+                </tr>
+              </thead>
+              <tbody>
+                {shown.map((d, i) => (
+                  <tr key={d.tracking} className={i % 2 ? "bg-slate-50/40" : ""}>
+                    <td className="font-mono">{d.tracking}</td>
+                    <td>{d.invoice}</td>
+                    <td>
+                      <span className={`inline-flex items-center rounded-full border px-2 py-0.5 text-xs font-semibold ${STATUS_TONE[d.status]}`}>{d.status}</span>
+                    </td>
+                    <td className="text-right">{money(d.before?.difference)}</td>
+                    <td className="text-right">{money(d.after?.difference)}</td>
+                    <td className="text-right">{money(d.change)}</td>
+                    <td className="text-xs text-slate-600">{d.before?.note ?? "—"} → {d.after?.note ?? "not billed"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="p-3 text-xs text-slate-500 border-t">
+            Amounts are the <b>Difference</b> (carrier minus POS) in each run. Trackings that match in both runs are not listed.
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
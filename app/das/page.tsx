@@ -0,0 +1,137 @@
+// app/das/page.tsx — carrier DAS / Extended / Remote ZIP lists, used to check delivery area surcharges
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { format } from "date-fns";
+import { CARRIERS, getCarrier, type CarrierId } from "@/lib/carriers";
+import { DAS_TIER_LABEL, dasListId, deleteDasList, listDasLists, parseDasList, saveDasList, tierCounts, type DasList, type DasTier } from "@/lib/das";
+import { errorMessage } from "@/lib/parse";
+
+const TIERS: DasTier[] = ["standard", "extended", "remote"];
+
+export default function DasPage() {
+  const [lists, setLists] = useState<DasList[]>([]);
+  const [carrier, setCarrier] = useState<CarrierId>("UPS");
+  const [effectiveFrom, setEffectiveFrom] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [effectiveTo, setEffectiveTo] = useState("");
+  const [errors, setErrors] = useState<string[]>([]);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    listDasLists().then(setLists).catch(() => setLists([]));
+  }, []);
+
+  const shown = lists.filter((l) => l.carrier === carrier).sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom));
+
+  async function upload(file: File) {
+    try {
+      const { list, errors } = await parseDasList(file, carrier, effectiveFrom, effectiveTo || undefined);
+      setErrors(errors);
+      if (!list) return;
+      const existing = lists.find((l) => l.id === list.id);
+      if (existing && !confirm(`Replace the ${getCarrier(carrier).name} DAS list effective ${list.effectiveFrom} ("${existing.name}")?`)) return;
+      await saveDasList(list);
+      setLists((prev) => [...prev.filter((l) => l.id !== list.id), list]);
+    } catch (err) {
+      setErrors((prev) => [...prev, `Could not upload ${file.name}: ${errorMessage(err)}`]);
+    }
+  }
+
+  async function remove(list: DasList) {
+    if (!confirm(`Delete the ${getCarrier(list.carrier).name} DAS list effective ${list.effectiveFrom}?`)) return;
+    try {
+      await deleteDasList(list.id);
+      setLists((prev) => prev.filter((l) => l.id !== list.id));
+    } catch (err) {
+      setErrors((prev) => [...prev, `Could not delete the DAS list effective ${list.effectiveFrom}: ${errorMessage(err)}`]);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <section className="card p-6">
+        <h1 className="text-2xl font-extrabold tracking-tight" style={{ color: "var(--brand-primary)" }}>
+          Delivery Area ZIP Lists
+        </h1>
+        <p className="mt-2 text-slate-600">
+          Upload the carrier&apos;s published Delivery Area Surcharge ZIP list. Every DAS charge is checked against the
+          destination ZIP on the ship date: charges on ZIPs not on the list, and Extended or Remote charged where the list
+          only has standard DAS, are listed as disputable billing issues.
+        </p>
+        <p className="mt-2 text-xs text-slate-500">
+          CSV layout: <code>ZIP, Type</code> (type reads DAS, Extended or Remote) or one column of ZIPs per tier, e.g.{" "}
+          <code>DAS, Extended DAS, Remote</code>. Title rows above the header are skipped.
+        </p>
+        <div className="mt-4 flex flex-wrap items-center gap-3 text-sm">
+          <label className="flex items-center gap-2">
+            Carrier
+            <select className="rounded-md border px-2 py-1" value={carrier} onChange={(e) => { setCarrier(e.target.value as CarrierId); setErrors([]); }}>
+              {CARRIERS.map((c) => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            Effective from
+            <input type="date" className="rounded-md border px-2 py-1" value={effectiveFrom} onChange={(e) => setEffectiveFrom(e.target.value)} />
+          </label>
+          <label className="flex items-center gap-2">
+            to
+            <input type="date" className="rounded-md border px-2 py-1" value={effectiveTo} onChange={(e) => setEffectiveTo(e.target.value)} />
+          </label>
+          <button className="btn btn-brand" disabled={!effectiveFrom} onClick={() => fileRef.current?.click()}>
+            {lists.some((l) => l.id === dasListId(carrier, effectiveFrom)) ? "Replace DAS list" : "Upload DAS list"}
+          </button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".csv"
+            className="hidden"
+            onChange={(e) => { const f = e.target.files?.[0]; if (f) upload(f); e.target.value = ""; }}
+          />
+        </div>
+        {errors.length > 0 && (
+          <div className="mt-3 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+            <ul className="list-disc pl-5">
+              {errors.slice(0, 10).map((e) => <li key={e}>{e}</li>)}
+            </ul>
+          </div>
+        )}
+      </section>
+
+      {shown.length ? (
+        <section className="card p-0 overflow-hidden">
+          <table className="table text-sm">
+            <thead>
+              <tr>
+                <th>Effective</th>
+                <th>File</th>
+                {TIERS.map((t) => <th key={t} className="text-right">{DAS_TIER_LABEL[t]} ZIPs</th>)}
+                <th>Uploaded</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map((l, i) => {
+                const counts = tierCounts(l);
+                return (
+                  <tr key={l.id} className={i % 2 ? "bg-slate-50/40" : ""}>
+                    <td>{l.effectiveFrom} – {l.effectiveTo ?? "open"}</td>
+                    <td>{l.name}</td>
+                    {TIERS.map((t) => <td key={t} className="text-right">{counts[t].toLocaleString()}</td>)}
+                    <td className="text-slate-600">{new Date(l.uploadedAt).toLocaleString()}</td>
+                    <td className="text-right">
+                      <button className="btn btn-outline" onClick={() => remove(l)}>Delete</button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </section>
+      ) : (
+        <section className="card p-6 text-slate-600">
+          No {getCarrier(carrier).name} DAS lists yet — delivery area surcharges are only labelled.
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+// app/disputes/page.tsx — every tracked dispute, defaulting to the current user's open ones
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { getCarrier } from "@/lib/carriers";
+import { parseUpsDisputeHistory } from "@/lib/carriers/ups-dispute-history";
+import { listRuns } from "@/lib/history";
+import {
+  OPEN_STATUSES, applyDisputeHistory, daysLeft, discrepancyTarget, disputeDeadline, recoveryReport,
+  type Dispute, type DisputeTarget,
+} from "@/lib/disputes";
+import { DisputeControl, DisputeUserField, useCurrentUser, useDisputes } from "@/components/dispute-control";
+import { errorMessage } from "@/lib/parse";
+
+type View = "mine" | "open" | "all";
+
+const VIEWS: { value: View; label: string }[] = [
+  { value: "mine", label: "My open disputes" },
+  { value: "open", label: "All open" },
+  { value: "all", label: "All" },
+];
+
+// Soonest filing deadline first; filed or undated disputes after
+function urgency(d: Dispute) {
+  const deadline = d.status === "open" ? disputeDeadline(d.carrier, d.invoiceDate) : null;
+  return deadline ? daysLeft(deadline) : Number.MAX_SAFE_INTEGER;
+}
+
+export default function DisputesPage() {
+  const { disputes, save } = useDisputes();
+  const [user, setUser] = useCurrentUser();
+  const [view, setView] = useState<View>("mine");
+  const [targets, setTargets] = useState<DisputeTarget[]>([]);
+  const [imported, setImported] = useState<{ file: string; updated: number; unmatched: number; error?: string } | null>(null);
+
+  // Every overbilled discrepancy from saved runs, oldest first so the latest run's amount wins
+  useEffect(() => {
+    listRuns()
+      .then((runs) => setTargets(runs.reverse().flatMap((r) => r.discrepancies.filter((d) => d.note === "Overbilled").map((d) => discrepancyTarget(d, r.carrier)))))
+      .catch(() => setTargets([]));
+  }, []);
+
+  const report = useMemo(() => recoveryReport(targets, disputes), [targets, disputes]);
+
+  async function importHistory(list: FileList | null) {
+    const file = list?.[0];
+    if (!file) return;
+    let saved = 0, unmatchedCount = 0;
+    try {
+      const outcomes = await parseUpsDisputeHistory(file);
+      const { updated, unmatched } = applyDisputeHistory(outcomes, [...new Map([...targets, ...Object.values(disputes)].map((t) => [t.key, t])).values()], disputes, user || "UPS history import");
+      unmatchedCount = unmatched.length;
+      for (const d of updated) { await save(d); saved++; }
+      setImported({ file: file.name, updated: saved, unmatched: unmatchedCount });
+    } catch (err) {
+      setImported({ file: file.name, updated: saved, unmatched: unmatchedCount, error: errorMessage(err) });
+    }
+  }
+
+  const rows = useMemo(() => {
+    const all = Object.values(disputes);
+    const open = all.filter((d) => OPEN_STATUSES.includes(d.status));
+    const list = view === "all" ? all : view === "open" ? open : open.filter((d) => d.owner === user);
+    return list.sort((a, b) => urgency(a) - urgency(b) || b.updatedAt.localeCompare(a.updatedAt));
+  }, [disputes, view, user]);
+
+  const total = rows.reduce((a, d) => a + d.amount, 0);
+
+  return (
+    <div className="space-y-6">
+      <section className="card p-6">
+        <h1 className="text-2xl font-extrabold tracking-tight" style={{ color: "var(--brand-primary)" }}>
+          Disputes
+        </h1>
+        <p className="mt-2 text-slate-600">
+          Overbilled shipments and billing issues you have started working. A dispute is yours once you move it off <b>Open</b>; the countdown shows how long the carrier still accepts a dispute for that invoice.
+        </p>
+        <div className="mt-4 flex flex-wrap items-center gap-4">
+          <DisputeUserField user={user} onChange={setUser} />
+          <label className="btn btn-outline cursor-pointer">
+            Import UPS Dispute &amp; Refund History
+            <input type="file" accept=".csv,.txt" className="hidden" onChange={(e) => { importHistory(e.target.files); e.target.value = ""; }} />
+          </label>
+        </div>
+        {imported && (
+          <p className="mt-2 text-sm text-slate-600">
+            {imported.file}: updated <b>{imported.updated}</b> dispute(s){imported.unmatched ? <>; <b>{imported.unmatched}</b> line(s) matched no audited shipment</> : null}.
+            {imported.error && <span className="text-red-700"> Import stopped: {imported.error}</span>}
+          </p>
+        )}
+      </section>
+
+      {/* Recovery report */}
+      {report.flaggedCount > 0 && (
+        <section className="card p-6">
+          <div className="grid gap-3 md:grid-cols-5 text-sm">
+            <div className="rounded-lg border p-3 bg-slate-50">
+              <div className="text-slate-500">Flagged</div>
+              <div className="font-bold">{report.flaggedCount} · ${report.flagged.toFixed(2)}</div>
+            </div>
+            <div className="rounded-lg border p-3 bg-slate-50">
+              <div className="text-slate-500">Disputed</div>
+              <div className="font-bold">{report.disputedCount}</div>
+            </div>
+            <div className="rounded-lg border p-3 bg-slate-50">
+              <div className="text-slate-500">Approved / Denied</div>
+              <div className="font-bold">{report.approvedCount} / {report.deniedCount}</div>
+            </div>
+            <div className="rounded-lg border p-3 bg-slate-50">
+              <div className="text-slate-500">Recovered</div>
+              <div className="font-bold text-green-700">${report.recovered.toFixed(2)}</div>
+            </div>
+            <div className="rounded-lg border p-3 bg-slate-50">
+              <div className="text-slate-500">Recovery rate</div>
+              <div className="font-bold">{report.flagged > 0 ? ((report.recovered / report.flagged) * 100).toFixed(1) : "0.0"}%</div>
+            </div>
+          </div>
+        </section>
+      )}
+
+      <section className="flex flex-wrap items-center gap-2">
+        {VIEWS.map((v) => (
+          <button key={v.value} onClick={() => setView(v.value)} className={`btn ${view === v.value ? "btn-brand" : "btn-outline"}`}>
+            {v.label}
+          </button>
+        ))}
+        <span className="ml-2 text-sm text-slate-600">{rows.length} dispute(s) · ${total.toFixed(2)}</span>
+      </section>
+
+      {rows.length === 0 && (
+        <section className="card p-6 text-slate-600">
+          {view === "mine" && !user ? "Enter your name above to see the disputes you own." : "Nothing here yet. Update a status from the audit results to start tracking a dispute."}
+        </section>
+      )}
+
+      {rows.length > 0 && (
+        <section className="card p-0 overflow-hidden">
+          <div className="max-h-[70vh] overflow-auto">
+            <table className="table text-sm">
+              <thead className="sticky top-0 z-10">
+                <tr>
+                  <th>Tracking #</th>
+                  <th>Carrier</th>
+                  <th>Invoice #</th>
+                  <th>What</th>
+                  <th className="text-right">Amount</th>
+                  <th className="text-right">Refund</th>
+                  <th>Owner</th>
+                  <th>Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((d, i) => (
+                  <tr key={d.key} className={i % 2 ? "bg-slate-50/40" : ""}>
+                    <td className="font-mono">{d.tracking}</td>
+                    <td>{getCarrier(d.carrier).name}</td>
+                    <td>{d.invoice}{d.invoiceDate && <div className="text-xs text-slate-500">{d.invoiceDate}</div>}</td>
+                    <td className="text-xs text-slate-600">{d.description}</td>
+                    <td className="text-right">${d.amount.toFixed(2)}</td>
+                    <td className="text-right text-green-700">{d.refund ? `$${d.refund.toFixed(2)}` : ""}</td>
+                    <td>{d.owner || "—"}</td>
+                    <td><DisputeControl target={d} dispute={d} user={user} onSave={save} /></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -1,104 +1,22 @@
 // app/faq/page.tsx
 "use client";
 
-import { jsPDF } from "jspdf";
 import { useState } from "react";
+import Link from "next/link";
+import { CARRIERS, getCarrier, type CarrierId } from "@/lib/carriers";
+import { copyPlaybook, downloadPlaybookPDF } from "@/lib/playbook";
+import { PlaybookDetails } from "@/components/playbook-view";
 
-const DISPUTE_STEPS = [
-  "Log in to ups.com.",
-  "Open the Billing Center from the side dashboard.",
-  "Go to My Invoices.",
-  "Click the blue Invoice Number link for the invoice you want to dispute.",
-  "Find your shipment by the Tracking Number.",
-  "Under ACTION, click the three dots (⋯) and choose Dispute.",
-  "Select your dispute reason and add any comments.",
-  "Click Submit. Dispute Submitted!",
-];
-
-const HISTORY_STEPS = [
-  "In Billing Center, look at the left dashboard.",
-  "Click Dispute & Refund History (just below My Invoices).",
-  "View the status of submitted disputes, decisions, and refunds.",
-  "Use filters (date, invoice) to narrow results.",
-];
-
-function stepsToClipboardText() {
-  const lines = [
-    "How to Create a UPS Dispute",
-    ...DISPUTE_STEPS.map((s, i) => `${i + 1}. ${s}`),
-    "",
-    "Where to Find Dispute & Refund History",
-    ...HISTORY_STEPS.map((s, i) => `${i + 1}. ${s}`),
-  ];
-  return lines.join("\n");
-}
+export default function FAQPage() {
+  const [copied, setCopied] = useState(false);
+  const [carrierId, setCarrierId] = useState<CarrierId>("UPS");
+  const carrier = getCarrier(carrierId);
 
-async function copyStepsToClipboard(setCopied: (b: boolean) => void) {
-  const text = stepsToClipboardText();
-  try {
-    await navigator.clipboard.writeText(text);
-    setCopied(true);
-    setTimeout(() => setCopied(false), 1800);
-  } catch {
-    const ta = document.createElement("textarea");
-    ta.value = text;
-    document.body.appendChild(ta);
-    ta.select();
-    document.execCommand("copy");
-    document.body.removeChild(ta);
+  async function copySteps() {
+    await copyPlaybook(carrier);
     setCopied(true);
     setTimeout(() => setCopied(false), 1800);
   }
-}
-
-function downloadStepsPDF() {
-  const doc = new jsPDF({ unit: "pt", format: "letter" });
-  const left = 54;
-  let y = 64;
-
-  doc.setFont("helvetica", "bold");
-  doc.setFontSize(16);
-  doc.text("How to Create a UPS Dispute", left, y);
-  y += 20;
-
-  doc.setFont("helvetica", "normal");
-  doc.setFontSize(12);
-  DISPUTE_STEPS.forEach((s, i) => {
-    const line = `${i + 1}. ${s}`;
-    const split = doc.splitTextToSize(line, 500);
-    split.forEach((ln: string) => {
-      if (y > 740) { doc.addPage(); y = 64; }
-      doc.text(ln, left, y);
-      y += 16;
-    });
-  });
-
-  y += 16;
-  if (y > 740) { doc.addPage(); y = 64; }
-
-  doc.setFont("helvetica", "bold");
-  doc.setFontSize(16);
-  doc.text("Where to Find Dispute & Refund History", left, y);
-  y += 20;
-
-  doc.setFont("helvetica", "normal");
-  doc.setFontSize(12);
-  HISTORY_STEPS.forEach((s, i) => {
-    const line = `${i + 1}. ${s}`;
-    const split = doc.splitTextToSize(line, 500);
-    split.forEach((ln: string) => {
-      if (y > 740) { doc.addPage(); y = 64; }
-      doc.text(ln, left, y);
-      y += 16;
-    });
-  });
-
-  const fname = `UPS_Dispute_and_History_${new Date().toISOString().slice(0,10)}.pdf`;
-  doc.save(fname);
-}
-
-export default function FAQPage() {
-  const [copied, setCopied] = useState(false);
 
   return (
     <div className="space-y-8">
@@ -113,13 +31,13 @@ export default function FAQPage() {
 
         <div className="mt-6 flex flex-wrap gap-3">
           <button
-            onClick={() => copyStepsToClipboard(setCopied)}
+            onClick={copySteps}
             className="btn btn-accent"
           >
-            {copied ? "Copied!" : "Copy UPS Steps"}
+            {copied ? "Copied!" : `Copy ${carrier.name} Steps`}
           </button>
-          <button onClick={downloadStepsPDF} className="btn btn-outline">
-            Download UPS Steps (PDF)
+          <button onClick={() => downloadPlaybookPDF(carrier)} className="btn btn-outline">
+            Download {carrier.name} Steps (PDF)
           </button>
           <a href="/parcel-audit" className="btn btn-brand">Go to Audit Tool</a>
         </div>
@@ -133,6 +51,15 @@ export default function FAQPage() {
             <summary className="cursor-pointer font-semibold">What carrier files are supported?</summary>
             <div className="mt-2 text-slate-700">
               UPS invoice CSVs. Use the report with <b>Tracking Number</b>, <b>Billed Charge</b>, and <b>Invoice Number</b>.
+              The headerless UPS <b>Billing Data</b> detail file is read too, one row per charge line, so every accessorial is audited.
+              FedEx Billing Online “download all” detail CSVs and EDI 210 invoice files are split into one row per charge as well.
+              USPS postage exports from ePostage, Click-N-Ship or PC Postage are matched by their 20–22 digit tracking number; APV postage adjustments are flagged as overbilled.
+            </div>
+          </details>
+          <details className="mt-3 rounded-lg border p-4 bg-slate-50">
+            <summary className="cursor-pointer font-semibold">Can I upload Excel files?</summary>
+            <div className="mt-2 text-slate-700">
+              Yes. UPS Billing Center and PostalMate Excel downloads (.xlsx / .xls) work the same as CSV. If a workbook has several sheets we pick the one that looks like an invoice or export, and you can switch sheets before running the audit.
             </div>
           </details>
           <details className="mt-3 rounded-lg border p-4 bg-slate-50">
@@ -144,7 +71,7 @@ export default function FAQPage() {
           <details className="mt-3 rounded-lg border p-4 bg-slate-50">
             <summary className="cursor-pointer font-semibold">PostalMate export looks weird—how do I format it?</summary>
             <div className="mt-2 text-slate-700">
-              No need. We automatically skip the first 9 title rows so row 10 becomes the header.
+              No need. We find the row holding <b>Tracking #</b> and <b>PostalMate</b> and treat it as the header, so the title rows above it are skipped.
             </div>
           </details>
         </div>
@@ -180,17 +107,31 @@ export default function FAQPage() {
 
         <div className="card p-6 md:col-span-2">
           <h2 className="text-lg font-bold">Disputes & History</h2>
+          <div className="mt-3 mb-4 flex flex-wrap gap-2" role="radiogroup" aria-label="Carrier">
+            {CARRIERS.map((c) => (
+              <button
+                key={c.id}
+                role="radio"
+                aria-checked={c.id === carrierId}
+                onClick={() => setCarrierId(c.id)}
+                className={`btn ${c.id === carrierId ? "btn-brand" : "btn-outline"}`}
+              >
+                {c.name}
+              </button>
+            ))}
+          </div>
           <div className="grid gap-4 md:grid-cols-2">
             <div className="rounded-lg border p-4 bg-slate-50">
-              <div className="font-semibold">How do I file a UPS dispute?</div>
+              <div className="font-semibold">How do I file a {carrier.name} dispute?</div>
               <ol className="mt-2 list-decimal pl-5 space-y-1 text-slate-700">
-                {DISPUTE_STEPS.map((s, i) => <li key={i}>{s}</li>)}
+                {carrier.playbook.steps.map((s, i) => <li key={i}>{s}</li>)}
               </ol>
+              <PlaybookDetails carrier={carrier} />
             </div>
             <div className="rounded-lg border p-4 bg-slate-50">
               <div className="font-semibold">Where can I see dispute/refund history?</div>
               <ol className="mt-2 list-decimal pl-5 space-y-1 text-slate-700">
-                {HISTORY_STEPS.map((s, i) => <li key={i}>{s}</li>)}
+                {carrier.playbook.historySteps.map((s, i) => <li key={i}>{s}</li>)}
               </ol>
             </div>
           </div>
@@ -198,7 +139,7 @@ export default function FAQPage() {
       </section>
 
       <div>
-        <a href="/" className="btn btn-outline">← Back to Home</a>
+        <Link href="/" className="btn btn-outline">← Back to Home</Link>
       </div>
     </div>
   );
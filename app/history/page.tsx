@@ -0,0 +1,92 @@
+// app/history/page.tsx — past audit runs saved in this browser
+"use client";
+
+import { useEffect, useState } from "react";
+import { getCarrier } from "@/lib/carriers";
+import { deleteRun, listRuns, type AuditRun } from "@/lib/history";
+import { errorMessage } from "@/lib/parse";
+
+export default function HistoryPage() {
+  const [runs, setRuns] = useState<AuditRun[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listRuns().then(setRuns).catch((err) => setLoadError(`Could not load saved runs: ${errorMessage(err)}`));
+  }, []);
+
+  async function remove(run: AuditRun) {
+    if (!confirm(`Delete the run from ${new Date(run.createdAt).toLocaleString()}?`)) return;
+    try {
+      await deleteRun(run.id);
+    } catch (err) {
+      alert(`Could not delete the run: ${errorMessage(err)}`);
+      return;
+    }
+    setRuns((prev) => (prev ?? []).filter((r) => r.id !== run.id));
+  }
+
+  return (
+    <div className="space-y-6">
+      <section className="card p-6">
+        <h1 className="text-2xl font-extrabold tracking-tight" style={{ color: "var(--brand-primary)" }}>
+          Audit History
+        </h1>
+        <p className="mt-2 text-slate-600">
+          Every completed audit is saved in this browser. Open a run to see its results again without re-uploading files.
+        </p>
+        <a href="/compare" className="btn btn-outline mt-4 inline-flex">Compare two runs</a>
+      </section>
+
+      {loadError && (
+        <section className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{loadError}</section>
+      )}
+
+      {runs && runs.length === 0 && (
+        <section className="card p-6 text-slate-600">
+          No saved runs yet. <a href="/parcel-audit" className="underline">Run an audit</a> to get started.
+        </section>
+      )}
+
+      {runs && runs.length > 0 && (
+        <section className="card p-0 overflow-hidden">
+          <div className="max-h-[70vh] overflow-auto">
+            <table className="table text-sm">
+              <thead className="sticky top-0 z-10">
+                <tr>
+                  <th>Run</th>
+                  <th>Carrier</th>
+                  <th>Files</th>
+                  <th className="text-right">Rows</th>
+                  <th className="text-right">Overbilled</th>
+                  <th className="text-right">Underbilled</th>
+                  <th className="text-right">Match</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map((r, i) => (
+                  <tr key={r.id} className={i % 2 ? "bg-slate-50/40" : ""}>
+                    <td className="whitespace-nowrap">{new Date(r.createdAt).toLocaleString()}</td>
+                    <td>{getCarrier(r.carrier).name}</td>
+                    <td className="break-all">{r.files.map((f) => f.name).join(", ")}</td>
+                    <td className="text-right whitespace-nowrap">{r.carrierRows} / {r.posRows}</td>
+                    <td className="text-right whitespace-nowrap text-red-600">{r.summary.overCount} · ${r.summary.overAmt.toFixed(2)}</td>
+                    <td className="text-right whitespace-nowrap text-amber-600">{r.summary.underCount} · ${r.summary.underAmt.toFixed(2)}</td>
+                    <td className="text-right">{r.summary.okCount}</td>
+                    <td className="text-right whitespace-nowrap">
+                      <a href={`/parcel-audit?run=${encodeURIComponent(r.id)}`} className="mr-3 text-xs text-slate-500 hover:underline">Open</a>
+                      <button onClick={() => remove(r)} className="text-xs text-slate-500 hover:underline">Delete</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="p-3 text-xs text-slate-500 border-t">
+            Rows are <b>carrier / POS</b>. Runs live in this browser only; clearing site data removes them.
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+// app/holidays/page.tsx — per-carrier holiday calendars used for late-delivery commitments
+"use client";
+
+import { useEffect, useState } from "react";
+import { CARRIERS, type CarrierId } from "@/lib/carriers";
+import {
+  calendarFor, defaultHolidays, loadHolidayOverrides, resetHolidayCalendar, saveHolidayCalendar,
+  type Holiday, type HolidayCalendar,
+} from "@/lib/holidays";
+
+const THIS_YEAR = new Date().getFullYear();
+const YEARS = [THIS_YEAR - 2, THIS_YEAR - 1, THIS_YEAR, THIS_YEAR + 1];
+
+export default function HolidaysPage() {
+  const [carrier, setCarrier] = useState<CarrierId>("UPS");
+  const [year, setYear] = useState(THIS_YEAR);
+  const [calendar, setCalendar] = useState<HolidayCalendar | null>(null);
+  const [draft, setDraft] = useState<Holiday[]>([]);
+  const [newDate, setNewDate] = useState("");
+  const [newName, setNewName] = useState("");
+
+  useEffect(() => {
+    const cal = calendarFor(carrier, year, loadHolidayOverrides());
+    setCalendar(cal);
+    setDraft(cal.holidays);
+  }, [carrier, year]);
+
+  const dirty = !!calendar && JSON.stringify(draft) !== JSON.stringify(calendar.holidays);
+  const isDefault = !!calendar && JSON.stringify(calendar.holidays) === JSON.stringify(defaultHolidays(carrier, year));
+
+  function add() {
+    if (!newDate.startsWith(`${year}-`) || draft.some((h) => h.date === newDate)) return;
+    setDraft((prev) => [...prev, { date: newDate, name: newName.trim() || "Carrier holiday" }].sort((a, b) => a.date.localeCompare(b.date)));
+    setNewDate("");
+    setNewName("");
+  }
+
+  function save() {
+    const cal = saveHolidayCalendar(carrier, year, draft);
+    setCalendar(cal);
+    setDraft(cal.holidays);
+  }
+
+  function reset() {
+    if (!confirm(`Reset the ${carrier} ${year} calendar to the built-in holidays? The current version stays in the history below.`)) return;
+    const cal = resetHolidayCalendar(carrier, year);
+    setCalendar(cal);
+    setDraft(cal.holidays);
+  }
+
+  return (
+    <div className="space-y-6">
+      <section className="card p-6">
+        <h1 className="text-2xl font-extrabold tracking-tight" style={{ color: "var(--brand-primary)" }}>
+          Carrier Holidays
+        </h1>
+        <p className="mt-2 text-slate-600">
+          Days each carrier does not pick up or deliver. The late-delivery check skips them, along with weekends, when it
+          works out the guaranteed delivery date. Saturdays count only for services that include Saturday delivery.
+        </p>
+        <div className="mt-4 flex flex-wrap items-center gap-3 text-sm">
+          <label className="flex items-center gap-2">
+            Carrier
+            <select className="rounded-md border px-2 py-1" value={carrier} onChange={(e) => setCarrier(e.target.value as CarrierId)}>
+              {CARRIERS.map((c) => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            Year
+            <select className="rounded-md border px-2 py-1" value={year} onChange={(e) => setYear(Number(e.target.value))}>
+              {YEARS.map((y) => <option key={y} value={y}>{y}</option>)}
+            </select>
+          </label>
+          {calendar && (
+            <span className="text-slate-500">
+              {calendar.version
+                ? `Version ${calendar.version}, edited ${new Date(calendar.updatedAt).toLocaleString()}`
+                : "Built-in calendar"}
+            </span>
+          )}
+        </div>
+      </section>
+
+      <section className="card p-0 overflow-hidden">
+        <table className="table text-sm">
+          <thead>
+            <tr>
+              <th>Date</th>
+              <th>Holiday</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {draft.map((h, i) => (
+              <tr key={h.date} className={i % 2 ? "bg-slate-50/40" : ""}>
+                <td className="whitespace-nowrap">
+                  {h.date} <span className="text-slate-500">({new Date(`${h.date}T00:00:00`).toLocaleDateString(undefined, { weekday: "short" })})</span>
+                </td>
+                <td>{h.name}</td>
+                <td className="text-right">
+                  <button className="text-red-600 underline" onClick={() => setDraft((prev) => prev.filter((x) => x.date !== h.date))}>
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {draft.length === 0 && (
+              <tr><td colSpan={3} className="text-slate-500">No holidays — only weekends are skipped.</td></tr>
+            )}
+          </tbody>
+        </table>
+        <div className="flex flex-wrap items-center gap-2 border-t p-4 text-sm">
+          <input
+            type="date"
+            className="rounded-md border px-2 py-1"
+            min={`${year}-01-01`}
+            max={`${year}-12-31`}
+            value={newDate}
+            onChange={(e) => setNewDate(e.target.value)}
+          />
+          <input
+            className="rounded-md border px-2 py-1"
+            placeholder="Holiday name"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+          />
+          <button className="btn btn-outline" onClick={add} disabled={!newDate}>Add date</button>
+        </div>
+      </section>
+
+      <div className="flex gap-3">
+        <button className="btn btn-brand" onClick={save} disabled={!dirty}>Save calendar</button>
+        <button className="btn btn-outline" onClick={reset} disabled={isDefault}>Reset to defaults</button>
+        {dirty && <span className="self-center text-sm text-slate-500">Unsaved changes</span>}
+      </div>
+
+      {!!calendar?.previous?.length && (
+        <section className="card p-0 overflow-hidden">
+          <table className="table text-sm">
+            <thead>
+              <tr>
+                <th>Earlier version</th>
+                <th>Saved</th>
+                <th className="text-right">Holidays</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {calendar.previous.map((v, i) => (
+                <tr key={v.version} className={i % 2 ? "bg-slate-50/40" : ""}>
+                  <td>Version {v.version}</td>
+                  <td className="text-slate-600">{new Date(v.updatedAt).toLocaleString()}</td>
+                  <td className="text-right">{v.holidays.length}</td>
+                  <td className="text-right">
+                    <button className="btn btn-outline" onClick={() => setDraft(v.holidays)}>Load into editor</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 // app/layout.tsx
+import Link from "next/link";
 import "./globals.css";
 
 export const metadata = {
@@ -40,26 +41,68 @@ export default function RootLayout({
           className="sticky top-0 z-50 border-b bg-white/80 backdrop-blur"
         >
           <div className="mx-auto flex max-w-6xl items-center justify-between px-4 py-3">
-            <a href="/" className="flex items-center gap-3" aria-label="Parcel Audit Home">
+            <Link href="/" className="flex items-center gap-3" aria-label="Parcel Audit Home">
               <img
                 src="/logo-parcel-audit.svg"
                 alt="Parcel Audit"
                 className="h-9 w-auto"
               />
-            </a>
+            </Link>
             <nav className="flex items-center gap-1" aria-label="Primary">
-              <a
+              <Link
                 href="/"
                 className="rounded-md px-3 py-2 text-sm font-medium hover:bg-slate-100"
               >
                 Home
-              </a>
+              </Link>
               <a
                 href="/parcel-audit"
                 className="rounded-md px-3 py-2 text-sm font-medium hover:bg-slate-100"
               >
                 Audit Tool
               </a>
+              <a
+                href="/history"
+                className="rounded-md px-3 py-2 text-sm font-medium hover:bg-slate-100"
+              >
+                History
+              </a>
+              <a
+                href="/disputes"
+                className="rounded-md px-3 py-2 text-sm font-medium hover:bg-slate-100"
+              >
+                Disputes
+              </a>
+              <a
+                href="/rates"
+                className="rounded-md px-3 py-2 text-sm font-medium hover:bg-slate-100"
+              >
+                Rates
+              </a>
+              <a
+                href="/zones"
+                className="rounded-md px-3 py-2 text-sm font-medium hover:bg-slate-100"
+              >
+                Zones
+              </a>
+              <a
+                href="/das"
+                className="rounded-md px-3 py-2 text-sm font-medium hover:bg-slate-100"
+              >
+                DAS ZIPs
+              </a>
+              <a
+                href="/commitments"
+                className="rounded-md px-3 py-2 text-sm font-medium hover:bg-slate-100"
+              >
+                Commitments
+              </a>
+              <a
+                href="/holidays"
+                className="rounded-md px-3 py-2 text-sm font-medium hover:bg-slate-100"
+              >
+                Holidays
+              </a>
               <a
                 href="/faq"
                 className="rounded-md px-3 py-2 text-sm font-medium hover:bg-slate-100"
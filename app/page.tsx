@@ -45,7 +45,7 @@ export default function HomePage() {
             <div className="card p-6">
               <h3 className="font-semibold text-slate-700">Supported today</h3>
               <p className="mt-3 text-slate-600">
-                UPS invoices &amp; PostalMate reconciliation. FedEx/DHL POS support planned.
+                UPS, FedEx, DHL invoices and USPS postage exports (ePostage, Click-N-Ship, PC Postage) reconciled against PostalMate, including USPS APV adjustments.
               </p>
             </div>
           </div>
@@ -67,7 +67,7 @@ export default function HomePage() {
             PostalMate parsing
           </h3>
           <p className="mt-3 text-slate-600">
-            Automatically skips the first 9 lines; reads <b>Tracking #</b> and <b>PostalMate</b> amount.
+            Finds the header row below the report title; reads <b>Tracking #</b> and <b>PostalMate</b> amount.
           </p>
         </div>
         <div className="card p-8">
@@ -1,366 +1,99 @@
 // app/parcel-audit/page.tsx — Audit Wizard
 "use client";
 
-import { useMemo, useState } from "react";
+import { useMemo, useRef, useState } from "react";
+import Link from "next/link";
 import * as Papa from "papaparse";
 import { jsPDF } from "jspdf";
-import { addBusinessDays, isAfter, parse } from "date-fns";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
+import { FileDropZone, toAuditJobs, type ClassifiedFile } from "@/components/file-drop-zone";
+import { AuditProgress } from "@/components/audit-progress";
+import { CARRIERS, type CarrierId } from "@/lib/carriers";
+import { POS_SOURCES } from "@/lib/pos";
+import { startAudit, type AuditResult, type FileProgress } from "@/lib/audit-client";
+import { loadHolidayOverrides } from "@/lib/holidays";
+import { loadCommitments } from "@/lib/commitments";
+import { listRateCards } from "@/lib/rates";
+import { listZoneCharts } from "@/lib/zones";
+import { listDasLists } from "@/lib/das";
+import type { ChargeIssue, LateRow } from "@/lib/audit";
+import { BRAND } from "@/lib/brand";
+import { errorMessage } from "@/lib/parse";
 
-type Row = Record<string, any>;
 type Item = { tracking: string; side: "CarrierOnly" | "POSOnly"; note: string };
+type ByCarrier<T> = Record<CarrierId, T>;
 
-type LateRow = {
-  tracking: string;
-  carrier: "UPS" | "FedEx" | "DHL";
-  service: string;
-  shipDate: string;
-  delivered: string;
-  billed?: string;
-};
-
-type ChargeIssue = {
-  tracking: string;
-  carrier: string;
-  description: string;
-  amount: number;
-  note: string;
-};
-
-const BRAND = { name: "The Shipping Yard", accent: "#16a34a", accentSoft: "#dcfce7", textMuted: "#475569" };
-
-const CARRIER_KEYS = [
-  "TrackingNumber","Tracking Number","Tracking #","Tracking ID","Waybill","Air Waybill","AWB","Shipment Number",
-  "Tracking","Express or Ground Tracking ID","Tracking Number 1","Package Tracking Number",
-];
-const POS_KEYS = ["TrackingNumber","Tracking Number","Tracking #","Tracking"] as const;
-const POS_ADDR_KEYS = ["Address Type","Residential","Is Residential","Residential Indicator","Dest Type","Recipient Type"] as const;
-
-const FEDEX_COLS = {
-  tracking: ["Express or Ground Tracking ID","Tracking ID","TrackingNumber","Tracking Number","Tracking #"],
-  service: ["Service Type"],
-  shipDate: ["Shipment Date","Ship Date"],
-  podDate: ["POD Delivery Date","Delivery Date"],
-  podTime: ["POD Delivery Time","Delivery Time"],
-  netCharge: ["Net Charge Amount","Transportation Charge Amount"],
-} as const;
-
-const UPS_COLS = {
-  tracking: ["Tracking Number","Tracking Number 1","Package Tracking Number","Tracking #"],
-  service: ["Service","Service Level","Service Code","Shipment Service"],
-  shipDate: ["Ship Date","Shipment Date"],
-  podDate: ["Delivery Date","Actual Delivery Date","Billed Delivery Date"],
-  podTime: ["Delivery Time","Actual Delivery Time"],
-  netCharge: ["Net Charges","Transportation Charges","Total Charges","Net Amount"],
-} as const;
-
-const DHL_COLS = {
-  tracking: ["Air Waybill","AWB","Waybill Number","Shipment Number","Tracking Number"],
-  service: ["Product","Service","Service Type"],
-  shipDate: ["Shipment Date","Ship Date","Pickup Date"],
-  podDate: ["Delivery Date","POD Date"],
-  podTime: ["Delivery Time","POD Time"],
-  netCharge: ["Total Net Amount","Charges","Net Charge Amount","Shipment Amount"],
-} as const;
-
-const FEDEX_RULES: Record<string,{days:number;cutoff:string}> = {
-  "FEDEX PRIORITY OVERNIGHT": { days: 1, cutoff: "10:30" },
-  "FEDEX STANDARD OVERNIGHT": { days: 1, cutoff: "15:00" },
-  "FEDEX 2DAY": { days: 2, cutoff: "20:00" },
-  "FEDEX EXPRESS SAVER": { days: 3, cutoff: "20:00" },
-};
-const UPS_RULES: Record<string,{days:number;cutoff:string}> = {
-  "UPS NEXT DAY AIR": { days: 1, cutoff: "10:30" },
-  "UPS NEXT DAY AIR SAVER": { days: 1, cutoff: "15:00" },
-  "UPS 2ND DAY AIR": { days: 2, cutoff: "20:00" },
-  "UPS 3 DAY SELECT": { days: 3, cutoff: "20:00" },
-};
-const DHL_RULES: Record<string,{days:number;cutoff:string}> = {
-  "DHL EXPRESS WORLDWIDE": { days: 1, cutoff: "20:00" },
-  "DHL EXPRESS 12:00": { days: 1, cutoff: "12:00" },
-  "DHL EXPRESS 9:00": { days: 1, cutoff: "09:00" },
-  "DHL EXPRESS 10:30": { days: 1, cutoff: "10:30" },
-  "DHL ECONOMY SELECT": { days: 2, cutoff: "20:00" },
-};
-
-function getVal(r: Row, keys: readonly string[]) {
-  for (const k of keys) if (r[k] != null && r[k] !== "") return String(r[k]).trim();
-  const norm = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, "");
-  const rowIndex: Record<string, string> = {};
-  for (const key of Object.keys(r)) rowIndex[norm(key)] = key;
-  for (const k of keys) {
-    const hit = rowIndex[norm(k)];
-    if (hit && r[hit] != null && r[hit] !== "") return String(r[hit]).trim();
-  }
-  return "";
-}
-function toNumber(x:any){ if(x==null||x==="")return 0; const n=Number(String(x).replace(/[$,]/g,"")); return isNaN(n)?0:n; }
-
-function tryParseDate(s:string){ const pats=["M/d/yyyy","MM/dd/yyyy","yyyy-MM-dd","yyyy/MM/dd"];
-  for(const p of pats){ try{ return parse(s,p,new Date()); } catch{} }
-  const d = new Date(s); return isNaN(d.getTime())?null:d;
-}
-function combineDateTime(dateStr:string,timeStr?:string){
-  const base = tryParseDate((dateStr||"").trim()); if(!base) return null;
-  const t=(timeStr||"").trim().replace(/[^0-9:]/g,"");
-  if(t){ const [hh,mm="00"]=t.split(":"); base.setHours(Number(hh)||0,Number(mm)||0,0,0); }
-  else base.setHours(23,59,59,999);
-  return base;
-}
-
-// CSV parsers
-function parseCSVFile(file:File):Promise<Row[]>{
-  return new Promise(resolve=>{
-    Papa.parse(file,{header:true,skipEmptyLines:true,complete:(res)=>resolve((res.data as Row[]).filter(Boolean))});
-  });
-}
-async function parseManyCSVFiles(files:FileList|File[]):Promise<Row[]>{ const list=Array.from(files||[]); const parts=await Promise.all(list.map(parseCSVFile)); return parts.flat(); }
-
-function autoParsePOSFile(file:File):Promise<Row[]>{
-  return new Promise((resolve)=>{
-    const reader=new FileReader();
-    reader.onload=()=>{
-      const raw=String(reader.result||"");
-      const preview=Papa.parse<string[]>(raw,{header:false,skipEmptyLines:true}).data as string[][];
-      const hdrs=[/tracking\s*#|tracking\s*number|tracking\b/i,/service\b|service\s*type/i,/ship\s*date|shipment\s*date/i,/delivered|delivery\s*date|delivery\s*time/i,/charges?|amount|net\s*charge/i,/recipient|customer|consignee/i];
-      let idx=-1;
-      for(let i=0;i<preview.length;i++){
-        const row=(preview[i]||[]).map(c=>String(c||""));
-        const hits=hdrs.reduce((a,rx)=>a+(row.some(c=>rx.test(c))?1:0),0);
-        if(hits>=2){ idx=i; break; }
-      }
-      let body=raw;
-      if(idx>=0){ const lines=raw.split(/\r?\n/); body=lines.slice(idx).join("\n"); }
-      const parsed=Papa.parse<Row>(body,{header:true,skipEmptyLines:true});
-      resolve((parsed.data as Row[]).filter(r=>r && Object.keys(r).length>0));
-    };
-    reader.readAsText(file);
-  });
-}
-async function parseManyPOSFiles(files:FileList|File[]):Promise<Row[]>{ const list=Array.from(files||[]); const parts=await Promise.all(list.map(autoParsePOSFile)); return parts.flat(); }
-
-function buildPosIndex(rows:Row[]){
-  const idx:Record<string,{isResidential:boolean|null}>={};
-  rows.forEach(r=>{
-    const t=getVal(r, POS_KEYS as unknown as string[]); if(!t) return;
-    let isRes:boolean|null=null;
-    for(const k of POS_ADDR_KEYS){
-      if(r[k]==null) continue;
-      const v=String(r[k]).toLowerCase();
-      if(["res","residential","r"].includes(v)) isRes=true;
-      else if(["bus","business","commercial","b"].includes(v)) isRes=false;
-      else if(v==="true"||v==="yes"||v==="1") isRes=true;
-      else if(v==="false"||v==="no"||v==="0") isRes=false;
-    }
-    idx[t]={isResidential:isRes};
-  });
-  return idx;
-}
-
-function auditCarrierRows(
-  rows:Row[], COLS: typeof FEDEX_COLS | typeof UPS_COLS | typeof DHL_COLS,
-  RULES:Record<string,{days:number;cutoff:string}>, carrierLabel:"UPS"|"FedEx"|"DHL"
-):LateRow[]{
-  const out:LateRow[]=[];
-  rows.forEach(row=>{
-    const tracking=getVal(row, COLS.tracking as readonly string[]);
-    const serviceRaw=getVal(row, COLS.service as readonly string[]);
-    const key=serviceRaw.toUpperCase();
-    if(!tracking||!key) return;
-    const matched=Object.keys(RULES).find(k=>key.includes(k)); if(!matched) return;
-    const shipDateStr=getVal(row, COLS.shipDate as readonly string[]);
-    const podDateStr=getVal(row, COLS.podDate as readonly string[]);
-    const podTimeStr=getVal(row, COLS.podTime as readonly string[]);
-    if(!shipDateStr||!podDateStr) return;
-    const shipped=tryParseDate(shipDateStr); const delivered=combineDateTime(podDateStr,podTimeStr); if(!shipped||!delivered) return;
-    const promised=addBusinessDays(new Date(shipped), RULES[matched].days);
-    const [hh,mm]=RULES[matched].cutoff.split(":").map(Number); promised.setHours(hh||0,mm||0,0,0);
-    if(isAfter(delivered,promised)){
-      out.push({
-        tracking, carrier:carrierLabel, service:serviceRaw, shipDate:shipDateStr,
-        delivered:`${podDateStr}${podTimeStr? " "+podTimeStr : ""}`,
-        billed:getVal(row, COLS.netCharge as readonly string[]) || "",
-      });
-    }
-  });
-  return out;
-}
-
-const SURCHARGE_KEYWORDS = [
-  { kw:/address\s*correction/i, label:"Address Correction Fee" },
-  { kw:/residential/i, label:"Residential Surcharge" },
-  { kw:/saturday/i, label:"Saturday Delivery Surcharge" },
-  { kw:/delivery\s*area/i, label:"Delivery Area Surcharge" },
-  { kw:/additional\s*handling/i, label:"Additional Handling" },
-  { kw:/oversize|large\s*package/i, label:"Oversize/Large Package" },
-  { kw:/fuel\s*surcharge/i, label:"Fuel Surcharge" },
-];
-
-function findChargePairs(headers:string[]){
-  const descCols:{key:string;idx:string}[]=[]; const amtCols:{key:string;idx:string}[]=[];
-  headers.forEach(h=>{
-    const m=h.match(/(Charge\s*Description|Description)\.?([0-9]+)?/i); if(m) descCols.push({key:h, idx:m[2]||""});
-    const m2=h.match(/(Charge\s*Amount|Amount)\.?([0-9]+)?/i); if(m2) amtCols.push({key:h, idx:m2[2]||""});
-  });
-  const pairs:{desc:string;amt:string}[]=[]; const used=new Set<string>();
-  descCols.forEach((d,i)=>{
-    let match=amtCols.find(a=>a.idx && a.idx===d.idx && !used.has(a.key));
-    if(!match) match=amtCols.find((a,j)=>j===i && !used.has(a.key));
-    if(match){ pairs.push({desc:d.key, amt:match.key}); used.add(match.key); }
-  });
-  return pairs;
-}
-
-function auditBillingIssues(rows:Row[], carrierLabel:string, trackingKeys:readonly string[], posIndex?:Record<string,{isResidential:boolean|null}>):ChargeIssue[]{
-  if(!rows.length) return [];
-  const headers=Object.keys(rows[0]||{}); const pairs=findChargePairs(headers); const issues:ChargeIssue[]=[];
-  const perTrack:Record<string,{items:{desc:string;amt:number}[]; transAmt:number; fuelAmt:number}>={};
-
-  rows.forEach(r=>{
-    const tracking=getVal(r, trackingKeys as unknown as string[]); if(!tracking) return;
-    if(!perTrack[tracking]) perTrack[tracking]={items:[], transAmt:0, fuelAmt:0};
-    const transCand=r["Transportation Charge Amount"]||r["Transportation Charges"]||r["Net Charges"]||r["Net Charge Amount"];
-    perTrack[tracking].transAmt = perTrack[tracking].transAmt || toNumber(transCand);
-
-    pairs.forEach(({desc,amt})=>{
-      const d=String(r[desc]??"").trim();
-      const a=toNumber(r[amt]); if(!d||a===0) return;
-      perTrack[tracking].items.push({desc:d, amt:a});
-      if(/fuel\s*surcharge/i.test(d)) perTrack[tracking].fuelAmt+=a;
-
-      const hit=SURCHARGE_KEYWORDS.find(s=>s.kw.test(d)); if(hit){
-        let note=hit.label;
-        if(/residential/i.test(d) && posIndex && tracking in posIndex){
-          const p=posIndex[tracking]; if(p.isResidential===false) note += " — POS indicates BUSINESS, verify surcharge";
-        }
-        issues.push({tracking, carrier:carrierLabel, description:d, amount:a, note});
-      }
-    });
-  });
-
-  Object.entries(perTrack).forEach(([tracking,data])=>{
-    const keyCount:Record<string,number>={};
-    data.items.forEach(it=>{ const key=`${it.desc}|${it.amt.toFixed(2)}`; keyCount[key]=(keyCount[key]||0)+1; });
-    Object.entries(keyCount).forEach(([k,count])=>{
-      if(count>=2){ const [desc,amtStr]=k.split("|");
-        issues.push({tracking, carrier:carrierLabel, description:desc, amount:Number(amtStr), note:"Possible duplicate charge"});
-      }
-    });
-    if(data.transAmt>0 && data.fuelAmt>0){
-      const pct=data.fuelAmt/data.transAmt;
-      if(pct>0.35 || pct<0){
-        issues.push({tracking, carrier:carrierLabel, description:"Fuel Surcharge", amount:Number(data.fuelAmt.toFixed(2)), note:`Fuel surcharge anomaly (${(pct*100).toFixed(1)}% of transportation)`});
-      }
-    }
-  });
-
-  return issues;
+function byCarrier<T>(make: () => T): ByCarrier<T> {
+  return Object.fromEntries(CARRIERS.map((c) => [c.id, make()])) as ByCarrier<T>;
 }
 
 export default function Page() {
   // Step state (only once)
   const [step, setStep] = useState(1);
 
-  // Carriers (multi-file merged)
-  const [ups, setUPS] = useState<Row[]>([]);
-  const [fedex, setFedEx] = useState<Row[]>([]);
-  const [dhl, setDHL] = useState<Row[]>([]);
+  // Uploads from the single drop zone, classified by header
+  const [files, setFiles] = useState<ClassifiedFile[]>([]);
+  const [loading, setLoading] = useState(false);
 
-  // PostalMate per carrier (multi-file merged)
-  const [posUPS, setPosUPS] = useState<Row[]>([]);
-  const [posFedEx, setPosFedEx] = useState<Row[]>([]);
-  const [posDHL, setPosDHL] = useState<Row[]>([]);
+  // Per-file read progress while the worker streams uploads
+  const [fileProgress, setFileProgress] = useState<FileProgress[]>([]);
+  const cancelRef = useRef<(() => void) | null>(null);
 
-  // Optional legacy POS
-  const [postal, setPostal] = useState<Row[]>([]);
-  const [shiprite, setShipRite] = useState<Row[]>([]);
+  // Worker output: per-tracking totals and row counts, never the raw rows
+  const [audit, setAudit] = useState<AuditResult | null>(null);
 
   // Results
-  const [upsLate, setUpsLate] = useState<LateRow[]>([]);
-  const [fedexLate, setFedexLate] = useState<LateRow[]>([]);
-  const [dhlLate, setDhlLate] = useState<LateRow[]>([]);
+  const [late, setLate] = useState<ByCarrier<LateRow[]>>(() => byCarrier<LateRow[]>(() => []));
   const [issues, setIssues] = useState<ChargeIssue[]>([]);
 
-  // Upload handlers (carriers allow multiple files)
-  function onUPSUpload(e: React.ChangeEvent<HTMLInputElement>) {
-    const files=e.target.files; if(!files?.length) return;
-    (async()=>{
-      const rows=await parseManyCSVFiles(files);
-      setUPS(rows);
-      try{
-        setUpsLate(auditCarrierRows(rows, UPS_COLS, UPS_RULES, "UPS"));
-        const posIdx=buildPosIndex([...postal, ...shiprite, ...posUPS, ...posFedEx, ...posDHL]);
-        const extra=auditBillingIssues(rows, "UPS", UPS_COLS.tracking, posIdx);
-        setIssues(prev=>[...prev, ...extra]);
-      }catch{ setUpsLate([]); }
-    })();
-  }
-  function onFedexUpload(e: React.ChangeEvent<HTMLInputElement>) {
-    const files=e.target.files; if(!files?.length) return;
-    (async()=>{
-      const rows=await parseManyCSVFiles(files);
-      setFedEx(rows);
-      try{
-        setFedexLate(auditCarrierRows(rows, FEDEX_COLS, FEDEX_RULES, "FedEx"));
-        const posIdx=buildPosIndex([...postal, ...shiprite, ...posUPS, ...posFedEx, ...posDHL]);
-        const extra=auditBillingIssues(rows, "FedEx", FEDEX_COLS.tracking, posIdx);
-        setIssues(prev=>[...prev, ...extra]);
-      }catch{ setFedexLate([]); }
-    })();
-  }
-  function onDHLUpload(e: React.ChangeEvent<HTMLInputElement>) {
-    const files=e.target.files; if(!files?.length) return;
-    (async()=>{
-      const rows=await parseManyCSVFiles(files);
-      setDHL(rows);
-      try{
-        setDhlLate(auditCarrierRows(rows, DHL_COLS, DHL_RULES, "DHL"));
-        const posIdx=buildPosIndex([...postal, ...shiprite, ...posUPS, ...posFedEx, ...posDHL]);
-        const extra=auditBillingIssues(rows, "DHL", DHL_COLS.tracking, posIdx);
-        setIssues(prev=>[...prev, ...extra]);
-      }catch{ setDhlLate([]); }
-    })();
+  // Stream every classified file through the audit worker, then split the findings per carrier
+  async function ingestFiles(){
+    const jobs=toAuditJobs(files);
+    setLoading(true);
+    setFileProgress(jobs.map(j=>({ name: j.file.name, loaded: 0, rows: 0, done: false })));
+    const rateCards=await listRateCards().catch(()=>[]);
+    const zoneCharts=await listZoneCharts().catch(()=>[]);
+    const dasLists=await listDasLists().catch(()=>[]);
+    const run=startAudit(jobs, (i,p)=>setFileProgress(prev=>prev.map((q,j)=>j===i?p:q)), loadHolidayOverrides(), loadCommitments(), rateCards, zoneCharts, dasLists);
+    cancelRef.current=run.cancel;
+    try{
+      const result=await run.result;
+      if(!result) return; // cancelled
+      const nextLate=byCarrier<LateRow[]>(()=>[]);
+      result.late.forEach(l=>nextLate[l.carrier].push(l));
+      setAudit(result); setLate(nextLate); setIssues(result.issues);
+      setStep(2);
+    }catch(err){
+      alert(`Could not read files: ${errorMessage(err)}`);
+    }finally{ cancelRef.current=null; setFileProgress([]); setLoading(false); }
   }
 
   // Sets for discrepancy compare
-  const carrierSet = useMemo(()=>new Set(
-    [...ups, ...fedex, ...dhl].map(r=>{
-      const vF=getVal(r, FEDEX_COLS.tracking);
-      const vU=getVal(r, UPS_COLS.tracking);
-      const vD=getVal(r, DHL_COLS.tracking);
-      return vF||vU||vD||getVal(r, CARRIER_KEYS);
-    }).filter(Boolean)
-  ),[ups,fedex,dhl]);
-
-  const posSet = useMemo(()=>new Set(
-    [
-      ...postal, ...shiprite,  // optional legacy
-      ...posUPS, ...posFedEx, ...posDHL,
-    ].map(r=>getVal(r, POS_KEYS as unknown as string[])).filter(Boolean)
-  ),[postal,shiprite,posUPS,posFedEx,posDHL]);
+  const carrierSet = useMemo(()=>new Set(Object.keys(audit?.carrierMap ?? {})),[audit]);
+  const posSet = useMemo(()=>new Set(Object.keys(audit?.posMap ?? {})),[audit]);
 
   const results = useMemo<Item[]>(()=>{
     const out:Item[]=[];
     const all=new Set<string>([...carrierSet, ...posSet]);
+    const names=CARRIERS.map(c=>c.name).join("/");
     for(const t of all){
       const inCarrier=carrierSet.has(t), inPOS=posSet.has(t);
-      if(inCarrier && !inPOS) out.push({tracking:t, side:"CarrierOnly", note:"In UPS/FedEx/DHL only → reconcile in POS."});
+      if(inCarrier && !inPOS) out.push({tracking:t, side:"CarrierOnly", note:`In ${names} only → reconcile in POS.`});
       if(!inCarrier && inPOS) out.push({tracking:t, side:"POSOnly", note:"In POS only → consider VOID/REFUND claim."});
     }
     return out.sort((a,b)=>a.tracking.localeCompare(b.tracking));
   },[carrierSet,posSet]);
 
   // KPI & controls
-  const carrierRows = ups.length + fedex.length + dhl.length;
-  const posRows = postal.length + shiprite.length + posUPS.length + posFedEx.length + posDHL.length;
+  const carrierRows = CARRIERS.reduce((n,c)=>n+(audit?.carrierRows[c.id] ?? 0), 0);
+  const posRows = POS_SOURCES.reduce((n,p)=>n+(audit?.posRows[p.id] ?? 0), 0);
   const counts = { carrierRows, posRows, total: results.length };
   const progress = Math.round(((step - 1) / 2) * 100);
-  const canNext1 = !!(ups.length || fedex.length || dhl.length);
-  const canNext2 = !!(posUPS.length || posFedEx.length || posDHL.length || postal.length || shiprite.length);
+  const canNext1 = files.some(f=>CARRIERS.some(c=>c.id===f.kind));
+  const canNext2 = carrierRows > 0 && posRows > 0;
 
   function exportCSV(rows:any[], filename:string){
     const csv=Papa.unparse(rows);
@@ -369,7 +102,7 @@ export default function Page() {
     const a=document.createElement("a"); a.href=url; a.download=filename; a.click(); URL.revokeObjectURL(url);
   }
   function exportLateCSV(rows:LateRow[], filename:string){
-    const data=rows.map(r=>({Tracking:r.tracking,Carrier:r.carrier,Service:r.service,ShipDate:r.shipDate,Delivered:r.delivered,BilledNet:r.billed||""}));
+    const data=rows.map(r=>({Tracking:r.tracking,Carrier:r.carrier,Service:r.service,ShipDate:r.shipDate,Delivered:r.delivered,Committed:r.promised||"",DestinationZone:r.zone||"",DeliveredDestination:r.deliveredDest||"",DeliveredLocal:r.deliveredLocal||"",BilledNet:r.billed||""}));
     exportCSV(data, filename);
   }
   function exportChargeIssuesCSV(rows:ChargeIssue[]){
@@ -394,7 +127,7 @@ export default function Page() {
             <div className="h-7 w-7 rounded-xl" style={{ background: BRAND.accent }} />
             <div className="font-semibold">The Shipping Yard</div>
           </div>
-          <a href="/" className="text-sm hover:underline" style={{ color: BRAND.textMuted }}>← Back to Home</a>
+          <Link href="/" className="text-sm hover:underline" style={{ color: BRAND.textMuted }}>← Back to Home</Link>
         </div>
       </div>
 
@@ -405,9 +138,9 @@ export default function Page() {
               <div className="text-sm" style={{ color: BRAND.textMuted }}>Step {step} of 3</div>
               <Progress value={progress} className="h-2 mt-2" />
               <div className="mt-3 flex flex-wrap items-center gap-2 text-xs">
-                <span className={`rounded-full px-2 py-0.5 ${step >= 1 ? "text-white" : "text-neutral-700"}`} style={{ background: step >= 1 ? BRAND.accent : BRAND.accentSoft }}>Carrier CSVs</span>
+                <span className={`rounded-full px-2 py-0.5 ${step >= 1 ? "text-white" : "text-neutral-700"}`} style={{ background: step >= 1 ? BRAND.accent : BRAND.accentSoft }}>Upload files</span>
                 <span className="text-neutral-400">›</span>
-                <span className={`rounded-full px-2 py-0.5 ${step >= 2 ? "text-white" : "text-neutral-700"}`} style={{ background: step >= 2 ? BRAND.accent : BRAND.accentSoft }}>PostalMate CSVs</span>
+                <span className={`rounded-full px-2 py-0.5 ${step >= 2 ? "text-white" : "text-neutral-700"}`} style={{ background: step >= 2 ? BRAND.accent : BRAND.accentSoft }}>Review</span>
                 <span className="text-neutral-400">›</span>
                 <span className={`rounded-full px-2 py-0.5 ${step >= 3 ? "text-white" : "text-neutral-700"}`} style={{ background: step >= 3 ? BRAND.accent : BRAND.accentSoft }}>Results</span>
               </div>
@@ -415,52 +148,43 @@ export default function Page() {
 
             {step === 1 && (
               <div className="space-y-4">
-                <p className="text-neutral-800">Upload your <b>carrier CSV(s)</b>. You can select multiple files per carrier.</p>
-                <div className="grid md:grid-cols-3 gap-4">
-                  <div className="border rounded-lg p-3 bg-white"><Label className="block mb-1">UPS CSV(s)</Label><Input type="file" accept=".csv" multiple onChange={onUPSUpload} /><div className="text-xs mt-1" style={{ color: BRAND.textMuted }}>{ups.length} rows</div></div>
-                  <div className="border rounded-lg p-3 bg-white"><Label className="block mb-1">FedEx CSV(s)</Label><Input type="file" accept=".csv" multiple onChange={onFedexUpload} /><div className="text-xs mt-1" style={{ color: BRAND.textMuted }}>{fedex.length} rows</div></div>
-                  <div className="border rounded-lg p-3 bg-white"><Label className="block mb-1">DHL CSV(s)</Label><Input type="file" accept=".csv" multiple onChange={onDHLUpload} /><div className="text-xs mt-1" style={{ color: BRAND.textMuted }}>{dhl.length} rows</div></div>
-                </div>
+                <p className="text-neutral-800">Drop your <b>carrier invoices</b> and <b>POS exports</b> together. We detect each file from its header row; change the type if the guess is wrong.</p>
+                <FileDropZone files={files} onChange={setFiles} />
+                {loading && fileProgress.length > 0 && <AuditProgress files={fileProgress} onCancel={()=>cancelRef.current?.()} />}
                 <div className="flex gap-2">
-                  <Button onClick={()=>setStep(2)} disabled={!(ups.length||fedex.length||dhl.length)} style={{ background: BRAND.accent, color: "white" }}>Next</Button>
-                  <Button variant="outline" onClick={()=>{ setUPS([]); setFedEx([]); setDHL([]); setUpsLate([]); setFedexLate([]); setDhlLate([]); setIssues([]); }}>Clear Carrier Uploads</Button>
+                  <Button onClick={ingestFiles} disabled={!canNext1 || loading} style={{ background: BRAND.accent, color: "white" }}>{loading ? "Reading files…" : "Next"}</Button>
+                  <Button variant="outline" onClick={()=>{ setFiles([]); setAudit(null); setLate(byCarrier<LateRow[]>(()=>[])); setIssues([]); }}>Clear Uploads</Button>
                 </div>
               </div>
             )}
 
             {step === 2 && (
               <div className="space-y-4">
-                <p className="text-neutral-800">Upload your <b>PostalMate</b> exports for each carrier. Each slot accepts multiple files.</p>
+                <p className="text-neutral-800">Check what was loaded before running the audit.</p>
                 <div className="grid md:grid-cols-3 gap-4">
-                  <div className="border rounded-lg p-3 bg-white"><Label className="block mb-1">PostalMate – UPS CSV(s)</Label>
-                    <Input type="file" accept=".csv" multiple onChange={async(e)=>{ setIssues([]); const fs=e.target.files; if(!fs?.length) return; setPosUPS(await parseManyPOSFiles(fs)); }} />
-                    <div className="text-xs mt-1" style={{ color: BRAND.textMuted }}>{posUPS.length} rows</div>
-                  </div>
-                  <div className="border rounded-lg p-3 bg-white"><Label className="block mb-1">PostalMate – FedEx CSV(s)</Label>
-                    <Input type="file" accept=".csv" multiple onChange={async(e)=>{ setIssues([]); const fs=e.target.files; if(!fs?.length) return; setPosFedEx(await parseManyPOSFiles(fs)); }} />
-                    <div className="text-xs mt-1" style={{ color: BRAND.textMuted }}>{posFedEx.length} rows</div>
-                  </div>
-                  <div className="border rounded-lg p-3 bg-white"><Label className="block mb-1">PostalMate – DHL CSV(s)</Label>
-                    <Input type="file" accept=".csv" multiple onChange={async(e)=>{ setIssues([]); const fs=e.target.files; if(!fs?.length) return; setPosDHL(await parseManyPOSFiles(fs)); }} />
-                    <div className="text-xs mt-1" style={{ color: BRAND.textMuted }}>{posDHL.length} rows</div>
-                  </div>
+                  {CARRIERS.map(c=>(
+                    <div key={c.id} className="border rounded-lg p-3 bg-white"><Label className="block mb-1">{c.name} invoices</Label><div className="text-xs mt-1" style={{ color: BRAND.textMuted }}>{files.filter(f=>f.kind===c.id).length} file(s) · {audit?.carrierRows[c.id] ?? 0} rows</div></div>
+                  ))}
+                  {POS_SOURCES.map(p=>(
+                    <div key={p.id} className="border rounded-lg p-3 bg-white"><Label className="block mb-1">{p.name} exports</Label><div className="text-xs mt-1" style={{ color: BRAND.textMuted }}>{files.filter(f=>f.kind===p.id).length} file(s) · {audit?.posRows[p.id] ?? 0} rows</div></div>
+                  ))}
                 </div>
                 <div className="flex gap-2">
                   <Button variant="secondary" onClick={()=>setStep(1)}>Back</Button>
-                  <Button onClick={()=>setStep(3)} disabled={!(posUPS.length||posFedEx.length||posDHL.length||postal.length||shiprite.length)} style={{ background: BRAND.accent, color: "white" }}>Next</Button>
+                  <Button onClick={()=>setStep(3)} disabled={!canNext2} style={{ background: BRAND.accent, color: "white" }}>Next</Button>
                 </div>
               </div>
             )}
 
             {step === 3 && (
               <div className="space-y-8">
-                <div className="grid grid-cols-2 md:grid-cols-6 gap-2 text-sm">
+                <div className="grid grid-cols-2 md:grid-cols-7 gap-2 text-sm">
                   <div className="border rounded-md p-3"><div style={{ color: BRAND.textMuted }}>Carrier rows</div><div className="text-lg font-semibold">{carrierRows}</div></div>
                   <div className="border rounded-md p-3"><div style={{ color: BRAND.textMuted }}>POS rows</div><div className="text-lg font-semibold">{posRows}</div></div>
                   <div className="border rounded-md p-3"><div style={{ color: BRAND.textMuted }}>Discrepancies</div><div className="text-lg font-semibold">{results.length}</div></div>
-                  <div className="border rounded-md p-3"><div style={{ color: BRAND.textMuted }}>UPS Late</div><div className="text-lg font-semibold">{upsLate.length}</div></div>
-                  <div className="border rounded-md p-3"><div style={{ color: BRAND.textMuted }}>FedEx Late</div><div className="text-lg font-semibold">{fedexLate.length}</div></div>
-                  <div className="border rounded-md p-3"><div style={{ color: BRAND.textMuted }}>DHL Late</div><div className="text-lg font-semibold">{dhlLate.length}</div></div>
+                  {CARRIERS.map(c=>(
+                    <div key={c.id} className="border rounded-md p-3"><div style={{ color: BRAND.textMuted }}>{c.name} Late</div><div className="text-lg font-semibold">{late[c.id].length}</div></div>
+                  ))}
                 </div>
 
                 {/* (Tables & exports identical to previous version) */}
@@ -1,137 +1,54 @@
 // app/parcel-audit/page.tsx
 "use client";
 
-import { useMemo, useState } from "react";
-import * as Papa from "papaparse";
-import { jsPDF } from "jspdf";
-
-type Row = Record<string, any>;
-
-type Discrepancy = {
-  tracking: string;
-  invoice: string;
-  carrierAmount: number;
-  posAmount: number;
-  difference: number;
-  note: "Overbilled" | "Underbilled – Review" | "Match – OK";
-};
-
-function cleanMoney(x: any): number {
-  if (x == null) return 0;
-  let s = String(x).trim();
-  const parenNeg = /^\(.*\)$/.test(s);
-  s = s.replace(/[()]/g, "").replace(/[^0-9.\-]/g, "");
-  if (!s || s === "-" || s === ".") return 0;
-  const n = Number(s);
-  if (isNaN(n)) return 0;
-  return parenNeg ? -Math.abs(n) : n;
-}
-
-function getByHeader(r: Row, header: string) {
-  if (r[header] != null) return r[header];
-  const norm = (h: string) => h.toLowerCase().replace(/[^a-z0-9]+/g, "");
-  const map: Record<string, string> = {};
-  Object.keys(r || {}).forEach((k) => (map[norm(k)] = k));
-  const key = map[norm(header)];
-  return key ? r[key] : undefined;
-}
-
-function parseCSV(file: File): Promise<Row[]> {
-  return new Promise((resolve) => {
-    Papa.parse<Row>(file, {
-      header: true,
-      skipEmptyLines: true,
-      complete: (res) => resolve((res.data as Row[]).filter(Boolean)),
-    });
-  });
-}
-
-// PostalMate: skip first 9 rows so row 10 is the header
-function parsePostalMate(file: File): Promise<Row[]> {
-  return new Promise((resolve) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      const raw = String(reader.result || "");
-      const lines = raw.split(/\r?\n/);
-      const cleaned = lines.slice(9).join("\n");
-      const parsed = Papa.parse<Row>(cleaned, {
-        header: true,
-        skipEmptyLines: true,
-        transformHeader: (h) => h.trim(),
-      });
-      const data = (parsed.data as Row[]).filter(
-        (r) => r && Object.values(r).some((v) => String(v ?? "").trim() !== "")
-      );
-      resolve(data);
-    };
-    reader.readAsText(file);
-  });
-}
-
-// UPS: Tracking Number + Billed Charge + Invoice Number
-async function buildUPSMap(files: FileList | null) {
-  const out: Record<string, { amt: number; invoice: string }> = {};
-  if (!files || !files.length) return { map: out, rows: 0 };
-
-  const TRACKING_H = "Tracking Number"; // col E
-  const AMOUNT_H = "Billed Charge";     // col AB
-  const INVOICE_H = "Invoice Number";
-
-  const parts = await Promise.all(Array.from(files).map(parseCSV));
-  const rows = parts.flat();
-
-  rows.forEach((r) => {
-    const tracking = String(getByHeader(r, TRACKING_H) ?? "").trim();
-    if (!tracking) return;
-    const amt = cleanMoney(getByHeader(r, AMOUNT_H) ?? 0);
-    const invoice = String(getByHeader(r, INVOICE_H) ?? "").trim();
-    if (!out[tracking]) out[tracking] = { amt: 0, invoice };
-    out[tracking].amt += amt;
-    if (!out[tracking].invoice && invoice) out[tracking].invoice = invoice;
-  });
-
-  return { map: out, rows: rows.length };
-}
-
-// PostalMate: Tracking # + PostalMate amount
-async function buildPostalMateMap(files: FileList | null) {
-  const out: Record<string, number> = {};
-  if (!files || !files.length) return { map: out, rows: 0 };
-
-  const TRACKING_H = "Tracking #"; // col D
-  const AMOUNT_H = "PostalMate";   // col E
-
-  const parts = await Promise.all(Array.from(files).map(parsePostalMate));
-  const rows = parts.flat();
-
-  rows.forEach((r) => {
-    const tracking = String(getByHeader(r, TRACKING_H) ?? "").trim();
-    if (!tracking) return;
-    const amt = cleanMoney(getByHeader(r, AMOUNT_H) ?? 0);
-    out[tracking] = (out[tracking] || 0) + amt;
-  });
-
-  return { map: out, rows: rows.length };
-}
+import { useEffect, useMemo, useRef, useState } from "react";
+import { CARRIERS, getCarrier, type CarrierAdapter, type CarrierId } from "@/lib/carriers";
+import { summarize, type ChargeIssue, type Discrepancy, type LateRow } from "@/lib/audit";
+import { GSR_FORMATS, buildGsrClaims, downloadGsrClaims } from "@/lib/gsr";
+import { startAudit, type FileProgress } from "@/lib/audit-client";
+import { loadHolidayOverrides } from "@/lib/holidays";
+import { loadCommitments } from "@/lib/commitments";
+import { listRateCards } from "@/lib/rates";
+import { listZoneCharts } from "@/lib/zones";
+import { listDasLists } from "@/lib/das";
+import { COST_BASIS_LABEL, downloadReweighCSV, type ReweighRow } from "@/lib/reweigh";
+import { downloadResidentialCSV, verdictFor, type ResidentialRow } from "@/lib/residential";
+import { isCarrierKind, isPosKind } from "@/lib/detect";
+import { getRun, newRunId, saveRun, type AuditRun } from "@/lib/history";
+import { chargeIssueTarget, discrepancyTarget } from "@/lib/disputes";
+import { downloadDisputePacket } from "@/lib/dispute-packet";
+import { copyPlaybook, downloadPlaybookPDF, findingFor, findingForIssue, reasonFor } from "@/lib/playbook";
+import { FileDropZone, toAuditJobs, type ClassifiedFile } from "@/components/file-drop-zone";
+import { missingFields } from "@/components/column-mapper";
+import { AuditProgress } from "@/components/audit-progress";
+import { PlaybookDetails } from "@/components/playbook-view";
+import { DisputeControl, DisputeUserField, useCurrentUser, useDisputes } from "@/components/dispute-control";
+import { errorMessage } from "@/lib/parse";
 
 // Export table to CSV
-function exportDiscrepanciesCSV(rows: Discrepancy[]) {
+function exportDiscrepanciesCSV(rows: Discrepancy[], carrier: CarrierAdapter) {
   if (!rows.length) return;
   const headers = [
     "Tracking #",
     "Invoice #",
-    "UPS Billed Charge",
-    "PostalMate Amount",
+    "Carrier",
+    "Billed Charge",
+    "POS Amount",
+    "Contract Expected",
     "Difference",
+    "Adjustments",
     "Note",
   ];
 
   const lines = rows.map((r) => [
     r.tracking,
     r.invoice || "",
+    r.carrier ? getCarrier(r.carrier).name : carrier.name,
     r.carrierAmount.toFixed(2),
     r.posAmount.toFixed(2),
+    r.contractExpected !== undefined ? r.contractExpected.toFixed(2) : "",
     r.difference.toFixed(2),
+    r.adjustments ? r.adjustments.toFixed(2) : "",
     r.note,
   ]);
 
@@ -158,250 +75,285 @@ function exportDiscrepanciesCSV(rows: Discrepancy[]) {
   URL.revokeObjectURL(url);
 }
 
-// Shared steps (for Copy + PDF)
-const DISPUTE_STEPS = [
-  "Log in to ups.com.",
-  "Open the Billing Center from the side dashboard.",
-  "Go to My Invoices.",
-  "Click the blue Invoice Number link for the invoice you want to dispute.",
-  "Find your shipment by the Tracking Number.",
-  "Under ACTION, click the three dots (⋯) and choose Dispute.",
-  "Select your dispute reason and add any comments.",
-  "Click Submit. Dispute Submitted!",
-];
-
-const HISTORY_STEPS = [
-  "In Billing Center, look at the left dashboard.",
-  "Click Dispute & Refund History (just below My Invoices).",
-  "View the status of submitted disputes, decisions, and refunds.",
-  "Use filters (date, invoice) to narrow results.",
-];
-
-function stepsToClipboardText() {
-  const lines = [
-    "How to Create a UPS Dispute",
-    ...DISPUTE_STEPS.map((s, i) => `${i + 1}. ${s}`),
-    "",
-    "Where to Find Dispute & Refund History",
-    ...HISTORY_STEPS.map((s, i) => `${i + 1}. ${s}`),
-  ];
-  return lines.join("\n");
-}
-
-async function copyStepsToClipboard() {
-  const text = stepsToClipboardText();
-  try {
-    await navigator.clipboard.writeText(text);
-    alert("Steps copied to clipboard ✅");
-  } catch {
-    const ta = document.createElement("textarea");
-    ta.value = text;
-    document.body.appendChild(ta);
-    ta.select();
-    document.execCommand("copy");
-    document.body.removeChild(ta);
-    alert("Steps copied to clipboard ✅");
-  }
-}
-
-function downloadStepsPDF() {
-  const doc = new jsPDF({ unit: "pt", format: "letter" });
-  const left = 54;
-  let y = 64;
-
-  doc.setFont("helvetica", "bold");
-  doc.setFontSize(16);
-  doc.text("How to Create a UPS Dispute", left, y);
-  y += 20;
-
-  doc.setFont("helvetica", "normal");
-  doc.setFontSize(12);
-  DISPUTE_STEPS.forEach((s, i) => {
-    const line = `${i + 1}. ${s}`;
-    const split = doc.splitTextToSize(line, 500);
-    split.forEach((ln: string) => {
-      if (y > 740) { doc.addPage(); y = 64; }
-      doc.text(ln, left, y);
-      y += 16;
-    });
-  });
-
-  y += 16;
-  if (y > 740) { doc.addPage(); y = 64; }
-
-  doc.setFont("helvetica", "bold");
-  doc.setFontSize(16);
-  doc.text("Where to Find Dispute & Refund History", left, y);
-  y += 20;
-
-  doc.setFont("helvetica", "normal");
-  doc.setFontSize(12);
-  HISTORY_STEPS.forEach((s, i) => {
-    const line = `${i + 1}. ${s}`;
-    const split = doc.splitTextToSize(line, 500);
-    split.forEach((ln: string) => {
-      if (y > 740) { doc.addPage(); y = 64; }
-      doc.text(ln, left, y);
-      y += 16;
-    });
-  });
-
-  const fname = `UPS_Dispute_and_History_${new Date().toISOString().slice(0,10)}.pdf`;
-  doc.save(fname);
+// Destination wall time, with the auditor's own clock underneath when it differs
+function ZonedTime({ dest, local }: { dest: string; local?: string }) {
+  return (
+    <>
+      <div className="whitespace-nowrap">{dest}</div>
+      {local && local !== dest && <div className="whitespace-nowrap text-xs text-slate-500">{local}</div>}
+    </>
+  );
 }
 
 export default function ParcelAuditPage() {
-  const [upsFiles, setUPSFiles] = useState<FileList | null>(null);
-  const [posFiles, setPosFiles] = useState<FileList | null>(null);
+  const [carrierId, setCarrierId] = useState<CarrierId>("UPS");
+  const carrier = getCarrier(carrierId);
+  const [files, setFiles] = useState<ClassifiedFile[]>([]);
 
   const [carrierRows, setCarrierRows] = useState(0);
   const [posRows, setPosRows] = useState(0);
 
   const [discrepancies, setDiscrepancies] = useState<Discrepancy[]>([]);
+  const [issues, setIssues] = useState<ChargeIssue[]>([]);
+  const [late, setLate] = useState<LateRow[]>([]);
+  const [credited, setCredited] = useState<string[]>([]);
+  const [reweighs, setReweighs] = useState<ReweighRow[]>([]);
+  const [residential, setResidential] = useState<ResidentialRow[]>([]);
+  const [resultsTab, setResultsTab] = useState<"billing" | "reweighs" | "residential">("billing");
+  const { disputes, save: saveDisputeStatus } = useDisputes();
+  const [user, setUser] = useCurrentUser();
   const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState<FileProgress[]>([]);
+  const cancelRef = useRef<(() => void) | null>(null);
+  const [savedRun, setSavedRun] = useState<AuditRun | null>(null); // run shown from /history
+  const [runError, setRunError] = useState<string | null>(null);
+
+  // /parcel-audit?run=<id> reopens a saved run without re-uploading
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get("run");
+    if (!id) return;
+    getRun(id).then((run) => {
+      if (!run) { setRunError("Run not found — it may have been deleted or saved in another browser."); return; }
+      setSavedRun(run);
+      setCarrierId(run.carrier);
+      setCarrierRows(run.carrierRows);
+      setPosRows(run.posRows);
+      setDiscrepancies(run.discrepancies);
+      setIssues(run.issues);
+      setLate(run.late);
+      setCredited(run.credited ?? []);
+      setReweighs(run.reweighs ?? []);
+      setResidential(run.residential ?? []);
+    }).catch((err) => setRunError(`Run not found: ${errorMessage(err)}`));
+  }, []);
 
   const [showDisputeHelp, setShowDisputeHelp] = useState(false);
   const [showHistoryHelp, setShowHistoryHelp] = useState(false);
 
   async function handleAudit() {
-    if (!upsFiles || !upsFiles.length) {
-      alert("Upload UPS invoice CSVs first.");
+    const carrierFiles = files.filter((f) => isCarrierKind(f.kind));
+    const posFiles = files.filter((f) => isPosKind(f.kind));
+    if (!carrierFiles.length) {
+      alert("Add at least one carrier invoice CSV first.");
       return;
     }
-    if (!posFiles || !posFiles.length) {
-      alert("Upload PostalMate CSV(s) next.");
+    if (!posFiles.length) {
+      alert("Add your PostalMate or ShipRite export(s) next.");
       return;
     }
 
+    const jobs = toAuditJobs(files);
     setIsRunning(true);
+    setProgress(jobs.map((j) => ({ name: j.file.name, loaded: 0, rows: 0, done: false })));
+    const rateCards = await listRateCards().catch(() => []);
+    const zoneCharts = await listZoneCharts().catch(() => []);
+    const dasLists = await listDasLists().catch(() => []);
+    const run = startAudit(
+      jobs,
+      (i, p) => setProgress((prev) => prev.map((q, j) => (j === i ? p : q))),
+      loadHolidayOverrides(),
+      loadCommitments(),
+      rateCards,
+      zoneCharts,
+      dasLists
+    );
+    cancelRef.current = run.cancel;
     try {
-      const ups = await buildUPSMap(upsFiles);
-      const pos = await buildPostalMateMap(posFiles);
-
-      setCarrierRows(ups.rows);
-      setPosRows(pos.rows);
-
-      const all = new Set<string>([...Object.keys(ups.map), ...Object.keys(pos.map)]);
-      const out: Discrepancy[] = [];
-
-      for (const t of all) {
-        const cObj = ups.map[t];
-        const c = cObj?.amt ?? 0;
-        const invoice = cObj?.invoice ?? "";
-        const p = pos.map[t] ?? 0;
-        const diff = c - p;
-
-        let note: Discrepancy["note"] = "Match – OK";
-        if (Math.abs(diff) > 0.01) note = diff > 0 ? "Overbilled" : "Underbilled – Review";
-
-        out.push({ tracking: t, invoice, carrierAmount: c, posAmount: p, difference: diff, note });
+      const result = await run.result;
+      if (!result) return; // cancelled
+
+      const invRows = Object.values(result.carrierRows).reduce((a, n) => a + n, 0);
+      const posRowCount = Object.values(result.posRows).reduce((a, n) => a + n, 0);
+      setCarrierRows(invRows);
+      setPosRows(posRowCount);
+      setSavedRun(null);
+
+      setDiscrepancies(result.discrepancies);
+      setIssues(result.issues);
+      setLate(result.late);
+      setCredited(result.credited);
+      setReweighs(result.reweighs);
+      setResidential(result.residential);
+
+      // Keep the run so it can be reopened from /history after a refresh
+      try {
+        await saveRun({
+          id: newRunId(),
+          createdAt: new Date().toISOString(),
+          carrier: carrierId,
+          files: jobs.map((j) => ({ name: j.file.name, kind: j.kind })),
+          carrierRows: invRows,
+          posRows: posRowCount,
+          summary: summarize(result.discrepancies),
+          discrepancies: result.discrepancies,
+          late: result.late,
+          credited: result.credited,
+          issues: result.issues,
+          reweighs: result.reweighs,
+          residential: result.residential,
+        });
+      } catch {
+        // private mode / storage blocked: results stay on screen, just not in history
       }
-
-      out.sort((a, b) => {
-        const aScore = a.note === "Match – OK" ? 1 : 0;
-        const bScore = b.note === "Match – OK" ? 1 : 0;
-        if (aScore !== bScore) return aScore - bScore;
-        return Math.abs(b.difference) - Math.abs(a.difference);
-      });
-
-      setDiscrepancies(out);
+    } catch (err) {
+      alert(`Audit failed: ${errorMessage(err)}`);
     } finally {
+      cancelRef.current = null;
+      setProgress([]);
       setIsRunning(false);
     }
   }
 
-  const summary = useMemo(() => {
-    let overAmt = 0, underAmt = 0, overCount = 0, underCount = 0, okCount = 0;
-    discrepancies.forEach((d) => {
-      if (d.note === "Overbilled") { overAmt += d.difference; overCount++; }
-      else if (d.note === "Underbilled – Review") { underAmt += -d.difference; underCount++; }
-      else { okCount++; }
-    });
-    return { overAmt, underAmt, overCount, underCount, okCount, total: discrepancies.length };
-  }, [discrepancies]);
+  const summary = useMemo(() => summarize(discrepancies), [discrepancies]);
+  // Files that would audit as empty because tracking or amount has no column yet
+  const unmapped = files.filter((f) => f.kind && missingFields(f).length);
+  const gsr = useMemo(() => buildGsrClaims(late, credited), [late, credited]);
+  const gsrCarriers = CARRIERS.filter((c) => gsr.claims.some((g) => g.carrier === c.id));
+  const issuesByTracking = useMemo(() => {
+    const m = new Map<string, ChargeIssue[]>();
+    issues.forEach((i) => m.set(i.tracking, [...(m.get(i.tracking) ?? []), i]));
+    return m;
+  }, [issues]);
 
   return (
     <div className="space-y-6">
       {/* Header card */}
       <section className="card p-6">
         <h1 className="text-2xl font-extrabold tracking-tight" style={{ color: "var(--brand-primary)" }}>
-          Parcel Audit — UPS vs PostalMate
+          Parcel Audit — {carrier.name} vs POS
         </h1>
         <p className="mt-2 text-slate-600">
-          Match by <b>Tracking #</b>. Compare <b>UPS “Billed Charge”</b> vs <b>PostalMate</b>. Includes <b>Invoice #</b> for disputes.
+          Match by <b>Tracking #</b>. Compare <b>{carrier.name} “{carrier.columns.billedCharge[0]}”</b> vs your <b>PostalMate</b> or <b>ShipRite</b> amount. Includes <b>Invoice #</b> for disputes.
         </p>
+        <div className="mt-4 flex flex-wrap gap-2" role="radiogroup" aria-label="Carrier">
+          {CARRIERS.map((c) => (
+            <button
+              key={c.id}
+              role="radio"
+              aria-checked={c.id === carrierId}
+              onClick={() => { setCarrierId(c.id); setDiscrepancies([]); setIssues([]); setLate([]); setReweighs([]); setResidential([]); }}
+              className={`btn ${c.id === carrierId ? "btn-brand" : "btn-outline"}`}
+            >
+              {c.name}
+            </button>
+          ))}
+        </div>
       </section>
 
       {/* Uploads */}
-      <section className="grid gap-6 md:grid-cols-2">
-        <div className="card p-6">
-          <div className="font-semibold mb-2">UPS Invoice CSV(s)</div>
-          <input type="file" accept=".csv" multiple onChange={(e) => setUPSFiles(e.target.files)} className="w-full" />
-          <p className="mt-2 text-xs text-slate-500">
-            Uses <b>Tracking Number</b>, <b>Billed Charge</b>, and <b>Invoice Number</b>.
-          </p>
-        </div>
-        <div className="card p-6">
-          <div className="font-semibold mb-2">PostalMate CSV(s)</div>
-          <input type="file" accept=".csv" multiple onChange={(e) => setPosFiles(e.target.files)} className="w-full" />
-          <p className="mt-2 text-xs text-slate-500">
-            Skips the first 9 lines. Uses <b>Tracking #</b> and <b>PostalMate</b>.
-          </p>
-        </div>
+      <section className="card p-6">
+        <div className="font-semibold mb-2">Invoices &amp; POS exports</div>
+        <FileDropZone
+          files={files}
+          onChange={(next) => {
+            setFiles(next);
+            const firstCarrier = next.find((f) => isCarrierKind(f.kind))?.kind;
+            if (isCarrierKind(firstCarrier ?? null)) setCarrierId(firstCarrier as CarrierId);
+          }}
+        />
+        <p className="mt-2 text-xs text-slate-500">
+          CSV or Excel (.xlsx/.xls). Carrier invoices use <b>Tracking Number</b>, <b>Billed Charge</b>, and <b>Invoice Number</b>. PostalMate exports start at their <b>Tracking #</b> header row and use <b>Tracking #</b> and <b>PostalMate</b>; ShipRite exports use <b>Tracking #</b> and <b>Retail</b>.
+        </p>
       </section>
 
       {/* Actions */}
       <section className="flex flex-wrap gap-3">
         <button
           onClick={handleAudit}
-          disabled={isRunning}
+          disabled={isRunning || unmapped.length > 0}
+          title={unmapped.length ? "Map the required columns first" : undefined}
           className="btn btn-brand disabled:opacity-60"
         >
           {isRunning ? "Analyzing…" : "Start Audit"}
         </button>
         <button
-          onClick={() => exportDiscrepanciesCSV(discrepancies)}
+          onClick={() => exportDiscrepanciesCSV(discrepancies, carrier)}
           disabled={!discrepancies.length}
           className="btn btn-outline disabled:opacity-60"
         >
           Export Results (CSV)
         </button>
-        <button onClick={() => setShowDisputeHelp((s) => !s)} className="btn btn-outline">
-          {showDisputeHelp ? "Hide UPS Dispute Steps" : "Show UPS Dispute Steps"}
-        </button>
-        <button onClick={() => setShowHistoryHelp((s) => !s)} className="btn btn-outline">
-          {showHistoryHelp ? "Hide Dispute/Refund History" : "Where to Find Dispute/Refund History"}
+        <button
+          onClick={() => downloadDisputePacket(discrepancies.filter((d) => (d.carrier ?? carrierId) === carrierId), issues, carrier)}
+          disabled={!summary.overCount}
+          className="btn btn-outline disabled:opacity-60"
+        >
+          Dispute Packet (PDF)
         </button>
-        <button onClick={copyStepsToClipboard} className="btn btn-accent">Copy Steps</button>
-        <button onClick={downloadStepsPDF} className="btn btn-outline">Download PDF</button>
+        {carrier.playbook.steps.length > 0 && (
+          <>
+            <button onClick={() => setShowDisputeHelp((s) => !s)} className="btn btn-outline">
+              {showDisputeHelp ? `Hide ${carrier.name} Dispute Steps` : `Show ${carrier.name} Dispute Steps`}
+            </button>
+            <button onClick={() => setShowHistoryHelp((s) => !s)} className="btn btn-outline">
+              {showHistoryHelp ? "Hide Dispute/Refund History" : "Where to Find Dispute/Refund History"}
+            </button>
+            <button onClick={() => copyPlaybook(carrier).then(() => alert("Steps copied to clipboard ✅"))} className="btn btn-accent">Copy Steps</button>
+            <button onClick={() => downloadPlaybookPDF(carrier)} className="btn btn-outline">Download PDF</button>
+          </>
+        )}
       </section>
+      {unmapped.length > 0 && (
+        <p className="-mt-3 text-sm text-red-600">
+          Map the required columns for {unmapped.map((f) => f.file.name).join(", ")} before starting the audit.
+        </p>
+      )}
+
+      {savedRun && (
+        <section className="text-sm text-slate-600">
+          Viewing saved run from <b>{new Date(savedRun.createdAt).toLocaleString()}</b> ({savedRun.files.map((f) => f.name).join(", ")}). <a href="/history" className="underline">Back to history</a>
+        </section>
+      )}
+
+      {runError && (
+        <section className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+          {runError} <a href="/history" className="underline">Back to history</a>
+        </section>
+      )}
+
+      {isRunning && progress.length > 0 && (
+        <AuditProgress files={progress} onCancel={() => cancelRef.current?.()} />
+      )}
 
       {(carrierRows || posRows) && (
         <section className="text-sm text-slate-600">
-          <span className="mr-4">UPS rows: <b>{carrierRows}</b></span>
-          <span>PostalMate rows: <b>{posRows}</b></span>
+          <span className="mr-4">{carrier.name} rows: <b>{carrierRows}</b></span>
+          <span>POS rows: <b>{posRows}</b></span>
         </section>
       )}
 
       {/* Dispute + History panels */}
-      {showDisputeHelp && (
+      {showDisputeHelp && carrier.playbook.steps.length > 0 && (
         <section className="card p-6">
-          <h2 className="text-lg font-bold mb-2">How to Create a UPS Dispute</h2>
+          <h2 className="text-lg font-bold mb-2">How to Create a {carrier.name} Dispute</h2>
           <ol className="list-decimal pl-5 space-y-1 text-slate-700">
-            {DISPUTE_STEPS.map((s, i) => <li key={i}>{s}</li>)}
+            {carrier.playbook.steps.map((s, i) => <li key={i}>{s}</li>)}
           </ol>
+          <PlaybookDetails carrier={carrier} />
           <p className="mt-3 text-xs text-slate-500">
             Tip: Use the <b>Invoice #</b> column in the table below to jump straight to the right invoice.
           </p>
         </section>
       )}
 
-      {showHistoryHelp && (
+      {showHistoryHelp && carrier.playbook.historySteps.length > 0 && (
         <section className="card p-6">
-          <h2 className="text-lg font-bold mb-2">Where to Find Dispute & Refund History in UPS</h2>
+          <h2 className="text-lg font-bold mb-2">Where to Find Dispute & Refund History in {carrier.name}</h2>
           <ol className="list-decimal pl-5 space-y-1 text-slate-700">
-            {HISTORY_STEPS.map((s, i) => <li key={i}>{s}</li>)}
+            {carrier.playbook.historySteps.map((s, i) => <li key={i}>{s}</li>)}
           </ol>
+          {carrier.id === "UPS" && (
+            <p className="mt-3 text-xs text-slate-500">
+              Tip: Download that history as CSV and import it on the <a href="/disputes" className="underline">Disputes</a> page to fill in outcomes and refunds automatically.
+            </p>
+          )}
+        </section>
+      )}
+
+      {(discrepancies.length > 0 || issues.length > 0) && (
+        <section className="flex flex-wrap items-center gap-4">
+          <DisputeUserField user={user} onChange={setUser} />
+          <a href="/disputes" className="text-sm text-slate-600 underline">My open disputes</a>
         </section>
       )}
 
@@ -433,8 +385,132 @@ export default function ParcelAuditPage() {
         </section>
       )}
 
+      {/* Results tabs: POS reconciliation / reweighs / residential */}
+      {discrepancies.length > 0 && (reweighs.length > 0 || residential.length > 0) && (
+        <div className="flex gap-2" role="tablist">
+          <button role="tab" aria-selected={resultsTab === "billing"} onClick={() => setResultsTab("billing")}
+            className={`btn ${resultsTab === "billing" ? "btn-brand" : "btn-outline"}`}>
+            Billed vs POS ({discrepancies.length})
+          </button>
+          {reweighs.length > 0 && (
+            <button role="tab" aria-selected={resultsTab === "reweighs"} onClick={() => setResultsTab("reweighs")}
+              className={`btn ${resultsTab === "reweighs" ? "btn-brand" : "btn-outline"}`}>
+              Reweighs ({reweighs.length})
+            </button>
+          )}
+          {residential.length > 0 && (
+            <button role="tab" aria-selected={resultsTab === "residential"} onClick={() => setResultsTab("residential")}
+              className={`btn ${resultsTab === "residential" ? "btn-brand" : "btn-outline"}`}>
+              Residential ({residential.length})
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Reweighs: carrier billed weight vs POS weight */}
+      {resultsTab === "reweighs" && reweighs.length > 0 && (
+        <section className="card p-0 overflow-hidden">
+          <div className="p-4 border-b flex flex-wrap items-center gap-3">
+            <div className="font-semibold">
+              Reweighs: {reweighs.length} shipment(s) · +{reweighs.reduce((a, r) => a + r.delta, 0).toFixed(1)} lb · $
+              {reweighs.reduce((a, r) => a + r.cost, 0).toFixed(2)}
+            </div>
+            <button onClick={() => downloadReweighCSV(reweighs)} className="btn btn-outline">Export reweighs (CSV)</button>
+          </div>
+          <div className="max-h-[70vh] overflow-auto">
+            <table className="table text-sm">
+              <thead className="sticky top-0 z-10">
+                <tr>
+                  <th>Tracking #</th>
+                  <th>Invoice #</th>
+                  <th>Service</th>
+                  <th className="text-right">POS weight</th>
+                  <th className="text-right">Billed weight</th>
+                  <th className="text-right">Delta</th>
+                  <th className="text-right">Cost impact</th>
+                </tr>
+              </thead>
+              <tbody>
+                {reweighs.map((r, i) => (
+                  <tr key={`${r.carrier}-${r.tracking}`} className={i % 2 ? "bg-slate-50/40" : ""}>
+                    <td className="font-mono">{r.tracking}</td>
+                    <td>{r.invoice}</td>
+                    <td>{r.service}</td>
+                    <td className="text-right">{r.posWeight} lb</td>
+                    <td className="text-right">{r.billedWeight} lb</td>
+                    <td className="text-right font-semibold text-red-600">+{r.delta} lb</td>
+                    <td className="text-right">
+                      ${r.cost.toFixed(2)}
+                      <div className="text-xs text-slate-500">{COST_BASIS_LABEL[r.costBasis]}</div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="p-3 text-xs text-slate-500 border-t">
+            POS weights are rounded up to the next pound before comparing, as carriers bill whole pounds.
+          </div>
+        </section>
+      )}
+
+      {/* Residential: every residential charge scored, plus commercial-billed shipments that look residential */}
+      {resultsTab === "residential" && residential.length > 0 && (
+        <section className="card p-0 overflow-hidden">
+          <div className="p-4 border-b flex flex-wrap items-center gap-3">
+            <div className="font-semibold">
+              Residential: {residential.filter((r) => verdictFor(r) === "Dispute").length} to dispute · $
+              {residential.filter((r) => verdictFor(r) === "Dispute").reduce((a, r) => a + r.amount, 0).toFixed(2)}
+              {" "}· {residential.filter((r) => r.billed === "commercial").length} not covered by retail
+            </div>
+            <button onClick={() => downloadResidentialCSV(residential)} className="btn btn-outline">Export residential (CSV)</button>
+          </div>
+          <div className="max-h-[70vh] overflow-auto">
+            <table className="table text-sm">
+              <thead className="sticky top-0 z-10">
+                <tr>
+                  <th>Tracking #</th>
+                  <th>Recipient</th>
+                  <th>Billed as</th>
+                  <th className="text-right">Confidence</th>
+                  <th>Verdict</th>
+                  <th className="text-right">Amount</th>
+                  <th>Signals</th>
+                </tr>
+              </thead>
+              <tbody>
+                {residential.map((r, i) => {
+                  const verdict = verdictFor(r);
+                  return (
+                    <tr key={`${r.carrier}-${r.tracking}`} className={i % 2 ? "bg-slate-50/40" : ""}>
+                      <td className="font-mono">{r.tracking}</td>
+                      <td>
+                        {r.recipient || "—"}
+                        <div className="text-xs text-slate-500">{r.address}</div>
+                      </td>
+                      <td className="capitalize">{r.billed}</td>
+                      <td className="text-right">{r.confidence}%</td>
+                      <td className={verdict === "Dispute" ? "font-semibold text-red-600" : verdict === "Likely correct" ? "text-slate-500" : "text-amber-700"}>
+                        {verdict}
+                      </td>
+                      <td className="text-right">${r.amount.toFixed(2)}</td>
+                      <td className="text-xs text-slate-600">{r.signals.join("; ") || "No signals"}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <div className="p-3 text-xs text-slate-500 border-t">
+            Confidence is how likely the carrier&apos;s classification is wrong, from the POS address type, company names,
+            suite or apartment numbers and how the address was rung up before. Commercial-billed rows are priced at the
+            typical residential surcharge on this run.
+          </div>
+        </section>
+      )}
+
       {/* Results Table */}
-      {discrepancies.length > 0 && (
+      {(resultsTab === "billing" || (resultsTab === "reweighs" ? reweighs : residential).length === 0) && discrepancies.length > 0 && (
         <section className="card p-0 overflow-hidden">
           <div className="max-h-[70vh] overflow-auto">
             <table className="table text-sm">
@@ -442,10 +518,12 @@ export default function ParcelAuditPage() {
                 <tr>
                   <th>Tracking #</th>
                   <th>Invoice #</th>
-                  <th className="text-right">UPS Billed</th>
-                  <th className="text-right">PostalMate</th>
+                  <th className="text-right">{carrier.name} Billed</th>
+                  <th className="text-right">POS</th>
+                  <th className="text-right" title="Transportation charge per your uploaded rate card">Contract expected</th>
                   <th className="text-right">Difference</th>
                   <th>Note</th>
+                  <th>Dispute</th>
                 </tr>
               </thead>
               <tbody>
@@ -468,6 +546,7 @@ export default function ParcelAuditPage() {
                       <td>{d.invoice}</td>
                       <td className="text-right">${d.carrierAmount.toFixed(2)}</td>
                       <td className="text-right">${d.posAmount.toFixed(2)}</td>
+                      <td className="text-right text-slate-600">{d.contractExpected !== undefined ? `$${d.contractExpected.toFixed(2)}` : "—"}</td>
                       <td className={`text-right font-semibold ${diffColor}`}>
                         ${d.difference.toFixed(2)}
                       </td>
@@ -475,6 +554,21 @@ export default function ParcelAuditPage() {
                         <span className={`inline-flex items-center rounded-full border px-2 py-0.5 text-xs font-semibold ${badge}`}>
                           {d.note}
                         </span>
+                        {d.adjustments ? (
+                          <span className="ml-2 text-xs text-red-600">incl. ${d.adjustments.toFixed(2)} adjustment</span>
+                        ) : null}
+                      </td>
+                      <td>
+                        {d.note === "Overbilled" && (() => {
+                          const target = discrepancyTarget(d, carrierId);
+                          const reason = reasonFor(getCarrier(target.carrier), findingFor(d, issuesByTracking.get(d.tracking) ?? []));
+                          return (
+                            <>
+                              <DisputeControl target={target} dispute={disputes[target.key]} user={user} onSave={saveDisputeStatus} />
+                              <div className="mt-1 text-xs text-slate-500">Reason: {reason}</div>
+                            </>
+                          );
+                        })()}
                       </td>
                     </tr>
                   );
@@ -487,6 +581,102 @@ export default function ParcelAuditPage() {
           </div>
         </section>
       )}
+
+      {/* Late deliveries → guaranteed-service refund claims */}
+      {late.length > 0 && (
+        <section className="card p-0 overflow-hidden">
+          <div className="p-4 border-b flex flex-wrap items-center gap-3">
+            <div className="font-semibold">
+              Late deliveries: {gsr.claims.length} claimable · ${gsr.claims.reduce((a, c) => a + c.refund, 0).toFixed(2)}
+              {gsr.excluded.length > 0 && <span className="ml-2 text-sm font-normal text-slate-500">({gsr.excluded.length} excluded)</span>}
+            </div>
+            {gsrCarriers.map((c) => (
+              <button key={c.id} onClick={() => downloadGsrClaims(c.id, gsr.claims)} className="btn btn-outline" title={GSR_FORMATS[c.id].title}>
+                {c.name} refund claims (CSV)
+              </button>
+            ))}
+          </div>
+          <div className="max-h-[70vh] overflow-auto">
+            <table className="table text-sm">
+              <thead className="sticky top-0 z-10">
+                <tr>
+                  <th>Tracking #</th>
+                  <th>Invoice #</th>
+                  <th>Service</th>
+                  <th>Committed (destination / yours)</th>
+                  <th>Delivered (destination / yours)</th>
+                  <th className="text-right">Refund</th>
+                  <th>Claim</th>
+                </tr>
+              </thead>
+              <tbody>
+                {gsr.claims.map((c, i) => (
+                  <tr key={`${c.carrier}-${c.tracking}`} className={i % 2 ? "bg-slate-50/40" : ""}>
+                    <td className="font-mono">{c.tracking}</td>
+                    <td>{c.invoice}</td>
+                    <td>{c.service}</td>
+                    <td><ZonedTime dest={c.commitmentDest ?? c.commitment} local={c.commitmentLocal} /></td>
+                    <td><ZonedTime dest={c.deliveredDest ?? c.delivered} local={c.deliveredLocal} /></td>
+                    <td className="text-right">${c.refund.toFixed(2)}</td>
+                    <td><span className="text-xs text-green-700">Claim</span></td>
+                  </tr>
+                ))}
+                {gsr.excluded.map(({ row, reason }, i) => (
+                  <tr key={`x-${row.carrier}-${row.tracking}-${i}`} className="text-slate-400">
+                    <td className="font-mono">{row.tracking}</td>
+                    <td>{row.invoice}</td>
+                    <td>{row.service}</td>
+                    <td><ZonedTime dest={row.promisedDest ?? row.promised ?? ""} local={row.promisedLocal} /></td>
+                    <td><ZonedTime dest={row.deliveredDest ?? row.delivered} local={row.deliveredLocal} /></td>
+                    <td className="text-right">{row.transportation ? `$${row.transportation.toFixed(2)}` : ""}</td>
+                    <td className="text-xs">{reason}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+
+      {/* Billing issues (surcharges, duplicates, fuel anomalies) */}
+      {issues.length > 0 && (
+        <section className="card p-0 overflow-hidden">
+          <div className="p-4 border-b font-semibold">Billing issues ({issues.length})</div>
+          <div className="max-h-[70vh] overflow-auto">
+            <table className="table text-sm">
+              <thead className="sticky top-0 z-10">
+                <tr>
+                  <th>Tracking #</th>
+                  <th>Invoice #</th>
+                  <th>Charge</th>
+                  <th className="text-right">Amount</th>
+                  <th>Note</th>
+                  <th>Dispute</th>
+                </tr>
+              </thead>
+              <tbody>
+                {issues.map((it, i) => {
+                  const target = chargeIssueTarget(it);
+                  const finding = findingForIssue(it);
+                  return (
+                    <tr key={`${target.key}-${i}`} className={i % 2 ? "bg-slate-50/40" : ""}>
+                      <td className="font-mono">{it.tracking}</td>
+                      <td>{it.invoice}</td>
+                      <td>{it.description}</td>
+                      <td className="text-right">${it.amount.toFixed(2)}</td>
+                      <td className="text-xs text-slate-600">{it.note}</td>
+                      <td>
+                        <DisputeControl target={target} dispute={disputes[target.key]} user={user} onSave={saveDisputeStatus} />
+                        {finding && <div className="mt-1 text-xs text-slate-500">Reason: {reasonFor(getCarrier(target.carrier), finding)}</div>}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
     </div>
   );
 }
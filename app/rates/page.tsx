@@ -0,0 +1,146 @@
+// app/rates/page.tsx — negotiated rate cards used for the "Contract expected" column
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { CARRIERS, getCarrier, type CarrierId } from "@/lib/carriers";
+import { deleteRateCard, listRateCards, parseRateCard, saveRateCard, type RateCard } from "@/lib/rates";
+import { errorMessage } from "@/lib/parse";
+
+export default function RatesPage() {
+  const [cards, setCards] = useState<Partial<Record<CarrierId, RateCard>>>({});
+  const [carrier, setCarrier] = useState<CarrierId>("UPS");
+  const [errors, setErrors] = useState<string[]>([]);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    listRateCards()
+      .then((list) => setCards(Object.fromEntries(list.map((c) => [c.carrier, c]))))
+      .catch(() => setCards({}));
+  }, []);
+
+  const card = cards[carrier];
+
+  async function upload(file: File) {
+    try {
+      const { card: next, errors } = await parseRateCard(file, carrier);
+      setErrors(errors);
+      if (!next) return;
+      if (card && !confirm(`Replace the ${getCarrier(carrier).name} rate card "${card.name}"?`)) return;
+      await saveRateCard(next);
+      setCards((prev) => ({ ...prev, [carrier]: next }));
+    } catch (err) {
+      setErrors((prev) => [...prev, `Could not upload ${file.name}: ${errorMessage(err)}`]);
+    }
+  }
+
+  // Shown right away; put back if the save fails
+  async function updateService(service: string, patch: { discountPct?: number; minimum?: number }) {
+    if (!card) return;
+    const next: RateCard = { ...card, services: card.services.map((s) => (s.service === service ? { ...s, ...patch } : s)) };
+    setCards((prev) => ({ ...prev, [carrier]: next }));
+    try {
+      await saveRateCard(next);
+    } catch (err) {
+      setCards((prev) => ({ ...prev, [carrier]: card }));
+      setErrors((prev) => [...prev, `Could not save ${service}: ${errorMessage(err)}`]);
+    }
+  }
+
+  async function remove() {
+    if (!card || !confirm(`Delete the ${getCarrier(carrier).name} rate card?`)) return;
+    try {
+      await deleteRateCard(carrier);
+      setCards(({ [carrier]: _removed, ...rest }) => rest);
+    } catch (err) {
+      setErrors((prev) => [...prev, `Could not delete the rate card: ${errorMessage(err)}`]);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <section className="card p-6">
+        <h1 className="text-2xl font-extrabold tracking-tight" style={{ color: "var(--brand-primary)" }}>
+          Contract Rate Cards
+        </h1>
+        <p className="mt-2 text-slate-600">
+          Upload your negotiated rates to get a <strong>Contract expected</strong> transportation charge for every shipment,
+          independent of what was rung up at the counter. Anything billed above it is listed as a billing issue.
+        </p>
+        <p className="mt-2 text-xs text-slate-500">
+          CSV layout: <code>Service, Zone, Weight, Rate</code> (one row per cell) or <code>Service, Weight, Zone 2 … Zone 8</code>{" "}
+          (one column per zone). Optional <code>Discount %</code> and <code>Minimum</code> columns apply per service.
+          Weight is the upper bound of each bracket, in lbs unless the header says kg.
+        </p>
+        <div className="mt-4 flex flex-wrap items-center gap-3 text-sm">
+          <label className="flex items-center gap-2">
+            Carrier
+            <select className="rounded-md border px-2 py-1" value={carrier} onChange={(e) => { setCarrier(e.target.value as CarrierId); setErrors([]); }}>
+              {CARRIERS.map((c) => <option key={c.id} value={c.id}>{c.name}{cards[c.id] ? " ✓" : ""}</option>)}
+            </select>
+          </label>
+          <button className="btn btn-brand" onClick={() => fileRef.current?.click()}>{card ? "Replace rate card" : "Upload rate card"}</button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".csv"
+            className="hidden"
+            onChange={(e) => { const f = e.target.files?.[0]; if (f) upload(f); e.target.value = ""; }}
+          />
+          {card && <button className="btn btn-outline" onClick={remove}>Delete</button>}
+        </div>
+        {errors.length > 0 && (
+          <div className="mt-3 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+            <ul className="list-disc pl-5">
+              {errors.slice(0, 10).map((e) => <li key={e}>{e}</li>)}
+            </ul>
+          </div>
+        )}
+      </section>
+
+      {card ? (
+        <section className="card p-0 overflow-hidden">
+          <div className="p-4 border-b text-sm text-slate-600">
+            <span className="font-semibold text-slate-800">{card.name}</span> · uploaded {new Date(card.uploadedAt).toLocaleString()} · weights in {card.unit}
+          </div>
+          <table className="table text-sm">
+            <thead>
+              <tr>
+                <th>Service</th>
+                <th>Zones</th>
+                <th className="text-right">Max weight</th>
+                <th className="text-right">Discount %</th>
+                <th className="text-right">Minimum $</th>
+              </tr>
+            </thead>
+            <tbody>
+              {card.services.map((s, i) => {
+                const zones = Array.from(new Set(s.cells.map((c) => c.zone)));
+                return (
+                  <tr key={`${carrier}-${s.service}`} className={i % 2 ? "bg-slate-50/40" : ""}>
+                    <td>{s.service}</td>
+                    <td className="text-slate-600">{zones.join(", ")}</td>
+                    <td className="text-right">{Math.max(...s.cells.map((c) => c.weight))} {card.unit}</td>
+                    <td className="text-right">
+                      <input type="number" min={0} max={100} step="0.01" className="w-20 rounded border px-1 text-right"
+                        defaultValue={s.discountPct}
+                        onBlur={(e) => updateService(s.service, { discountPct: Number(e.target.value) || 0 })} />
+                    </td>
+                    <td className="text-right">
+                      <input type="number" min={0} step="0.01" className="w-20 rounded border px-1 text-right"
+                        defaultValue={s.minimum}
+                        onBlur={(e) => updateService(s.service, { minimum: Number(e.target.value) || 0 })} />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </section>
+      ) : (
+        <section className="card p-6 text-slate-600">
+          No {getCarrier(carrier).name} rate card yet — shipments are only compared with the POS.
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+// app/zones/page.tsx — carrier zone charts per origin ZIP prefix, used to check the billed zone
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { CARRIERS, getCarrier, type CarrierId } from "@/lib/carriers";
+import { deleteZoneChart, listZoneCharts, parseZoneChart, saveZoneChart, zoneChartId, type ZoneChart } from "@/lib/zones";
+import { errorMessage } from "@/lib/parse";
+
+export default function ZonesPage() {
+  const [charts, setCharts] = useState<ZoneChart[]>([]);
+  const [carrier, setCarrier] = useState<CarrierId>("UPS");
+  const [origin, setOrigin] = useState("");
+  const [errors, setErrors] = useState<string[]>([]);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    listZoneCharts().then(setCharts).catch(() => setCharts([]));
+  }, []);
+
+  const shown = charts.filter((c) => c.carrier === carrier).sort((a, b) => a.origin.localeCompare(b.origin));
+
+  async function upload(file: File) {
+    try {
+      const { chart, errors } = await parseZoneChart(file, carrier, origin.trim());
+      setErrors(errors);
+      if (!chart) return;
+      const existing = charts.find((c) => c.id === chart.id);
+      if (existing && !confirm(`Replace the ${getCarrier(carrier).name} chart for origin ${chart.origin} ("${existing.name}")?`)) return;
+      await saveZoneChart(chart);
+      setCharts((prev) => [...prev.filter((c) => c.id !== chart.id), chart]);
+    } catch (err) {
+      setErrors((prev) => [...prev, `Could not upload ${file.name}: ${errorMessage(err)}`]);
+    }
+  }
+
+  async function remove(chart: ZoneChart) {
+    if (!confirm(`Delete the ${getCarrier(chart.carrier).name} zone chart for origin ${chart.origin}?`)) return;
+    try {
+      await deleteZoneChart(chart.id);
+      setCharts((prev) => prev.filter((c) => c.id !== chart.id));
+    } catch (err) {
+      setErrors((prev) => [...prev, `Could not delete the zone chart for origin ${chart.origin}: ${errorMessage(err)}`]);
+    }
+  }
+
+  const originOk = /^\d{3}$/.test(origin.trim());
+
+  return (
+    <div className="space-y-6">
+      <section className="card p-6">
+        <h1 className="text-2xl font-extrabold tracking-tight" style={{ color: "var(--brand-primary)" }}>
+          Zone Charts
+        </h1>
+        <p className="mt-2 text-slate-600">
+          Upload the carrier&apos;s zone chart for each origin ZIP prefix you ship from. The audit looks up the zone for every
+          shipment&apos;s sender and receiver ZIP and lists each one billed in a different zone, priced from your rate card when
+          there is one.
+        </p>
+        <p className="mt-2 text-xs text-slate-500">
+          CSV layout: <code>Dest. ZIP, Ground, 3 Day Select, …</code> (one column per service) or <code>Dest. ZIP, Zone</code>.
+          ZIPs may be 3-digit prefixes, ranges like <code>004-005</code>, or 5-digit ranges. Title rows above the header are skipped.
+        </p>
+        <div className="mt-4 flex flex-wrap items-center gap-3 text-sm">
+          <label className="flex items-center gap-2">
+            Carrier
+            <select className="rounded-md border px-2 py-1" value={carrier} onChange={(e) => { setCarrier(e.target.value as CarrierId); setErrors([]); }}>
+              {CARRIERS.map((c) => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            Origin ZIP prefix
+            <input
+              className="w-20 rounded-md border px-2 py-1"
+              inputMode="numeric"
+              maxLength={3}
+              placeholder="100"
+              value={origin}
+              onChange={(e) => setOrigin(e.target.value.replace(/\D/g, ""))}
+            />
+          </label>
+          <button className="btn btn-brand" disabled={!originOk} onClick={() => fileRef.current?.click()}>
+            {charts.some((c) => c.id === zoneChartId(carrier, origin.trim())) ? "Replace zone chart" : "Upload zone chart"}
+          </button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".csv"
+            className="hidden"
+            onChange={(e) => { const f = e.target.files?.[0]; if (f) upload(f); e.target.value = ""; }}
+          />
+        </div>
+        {errors.length > 0 && (
+          <div className="mt-3 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+            <ul className="list-disc pl-5">
+              {errors.slice(0, 10).map((e) => <li key={e}>{e}</li>)}
+            </ul>
+          </div>
+        )}
+      </section>
+
+      {shown.length ? (
+        <section className="card p-0 overflow-hidden">
+          <table className="table text-sm">
+            <thead>
+              <tr>
+                <th>Origin</th>
+                <th>File</th>
+                <th>Services</th>
+                <th className="text-right">ZIP ranges</th>
+                <th>Uploaded</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map((c, i) => (
+                <tr key={c.id} className={i % 2 ? "bg-slate-50/40" : ""}>
+                  <td className="font-mono">{c.origin}xx</td>
+                  <td>{c.name}</td>
+                  <td className="text-slate-600">{c.services.map((s) => (s === "ZONE" ? "All services" : s)).join(", ")}</td>
+                  <td className="text-right">{c.rows.length}</td>
+                  <td className="text-slate-600">{new Date(c.uploadedAt).toLocaleString()}</td>
+                  <td className="text-right">
+                    <button className="btn btn-outline" onClick={() => remove(c)}>Delete</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      ) : (
+        <section className="card p-6 text-slate-600">
+          No {getCarrier(carrier).name} zone charts yet — billed zones are not checked.
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import type { FileProgress } from "@/lib/audit-client";
+
+// Per-file read progress while the audit worker streams uploads
+export function AuditProgress({ files, onCancel }: { files: FileProgress[]; onCancel: () => void }) {
+  return (
+    <div className="space-y-2 rounded-lg border bg-white p-3 text-sm">
+      {files.map((f, i) => (
+        <div key={`${f.name}-${i}`}>
+          <div className="flex justify-between text-xs text-slate-600">
+            <span className="font-mono break-all">{f.name}</span>
+            <span className="whitespace-nowrap">{f.done ? "Done" : `${Math.round(f.loaded * 100)}%`} · {f.rows.toLocaleString()} rows</span>
+          </div>
+          <Progress value={f.loaded * 100} className="h-2 mt-1" />
+        </div>
+      ))}
+      <div className="flex justify-end">
+        <Button variant="outline" size="sm" onClick={onCancel}>Cancel</Button>
+      </div>
+    </div>
+  );
+}
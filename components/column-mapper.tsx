@@ -0,0 +1,94 @@
+"use client";
+
+import { useState } from "react";
+import type { ClassifiedFile } from "@/components/file-drop-zone";
+import { getCarrier } from "@/lib/carriers";
+import { getPosSource } from "@/lib/pos";
+import { isCarrierKind } from "@/lib/detect";
+import {
+  MAPPING_FIELDS, defaultMapping, headerSignature, saveProfile,
+  type ColumnMapping, type MappingField,
+} from "@/lib/mapping";
+
+const PREVIEW_ROWS = 5;
+
+export function effectiveMapping(f: ClassifiedFile): ColumnMapping {
+  if (f.mapping) return f.mapping;
+  if (!f.kind) return {};
+  const adapter = isCarrierKind(f.kind) ? getCarrier(f.kind) : getPosSource(f.kind);
+  return defaultMapping(f.detection.header, adapter);
+}
+
+export function missingFields(f: ClassifiedFile) {
+  const m = effectiveMapping(f);
+  return MAPPING_FIELDS.filter((x) => x.required && !m[x.field]).map((x) => x.label);
+}
+
+// Assign tracking / amount / invoice / service / date columns by hand and save the
+// result as a profile that is re-applied to files with the same header row.
+export function ColumnMapper({
+  file,
+  onChange,
+}: {
+  file: ClassifiedFile;
+  onChange: (mapping: ColumnMapping, profile?: string) => void;
+}) {
+  const { header, sample } = file.detection;
+  const [mapping, setMapping] = useState<ColumnMapping>(() => effectiveMapping(file));
+  const [name, setName] = useState(file.profile ?? file.file.name.replace(/\.[^.]+$/, ""));
+  const fields = isCarrierKind(file.kind) ? MAPPING_FIELDS : MAPPING_FIELDS.filter((x) => x.field === "tracking" || x.field === "amount" || x.field === "weight");
+  const mapped = new Set(Object.values(mapping));
+
+  function set(field: MappingField, col: string) {
+    const next = { ...mapping, [field]: col || undefined };
+    setMapping(next);
+    onChange(next, file.profile);
+  }
+
+  function save() {
+    if (!file.kind || !name.trim()) return;
+    saveProfile({ name: name.trim(), signature: headerSignature(header), kind: file.kind, mapping });
+    onChange(mapping, name.trim());
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3 bg-slate-50">
+      <div className="grid gap-2 md:grid-cols-5 text-xs">
+        {fields.map(({ field, label, required }) => (
+          <label key={field} className="flex flex-col gap-1">
+            <span className="font-semibold">{label}{required ? " *" : ""}</span>
+            <select
+              value={mapping[field] ?? ""}
+              onChange={(e) => set(field, e.target.value)}
+              className={`rounded-md border px-2 py-1 bg-white ${required && !mapping[field] ? "border-red-300" : ""}`}
+            >
+              <option value="">— Not mapped —</option>
+              {header.filter(Boolean).map((h) => <option key={h} value={h}>{h}</option>)}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      <div className="overflow-auto max-h-48">
+        <table className="table text-xs">
+          <thead>
+            <tr>{header.map((h, i) => <th key={i} className={mapped.has(h) ? "!bg-amber-100" : ""}>{h}</th>)}</tr>
+          </thead>
+          <tbody>
+            {sample.slice(0, PREVIEW_ROWS).map((r, i) => (
+              <tr key={i}>{header.map((h, j) => <td key={j} className={mapped.has(h) ? "bg-amber-50" : ""}>{r[j]}</td>)}</tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Profile name" className="rounded-md border px-2 py-1" />
+        <button onClick={save} disabled={!name.trim()} className="rounded-md border bg-white px-3 py-1 font-semibold hover:bg-slate-100 disabled:opacity-60">
+          Save mapping profile
+        </button>
+        {file.profile && <span className="text-slate-500">Using profile “{file.profile}”</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  DISPUTE_STATUSES, applyStatus, daysLeft, disputeDeadline, getCurrentUser, listDisputes, saveDispute, setCurrentUser,
+  type Dispute, type DisputeStatus, type DisputeTarget,
+} from "@/lib/disputes";
+import type { CarrierId } from "@/lib/carriers";
+import { errorMessage } from "@/lib/parse";
+
+const STATUS_TONE: Record<DisputeStatus, string> = {
+  open: "bg-slate-50 text-slate-700 border-slate-200",
+  disputed: "bg-blue-50 text-blue-700 border-blue-200",
+  approved: "bg-amber-50 text-amber-700 border-amber-200",
+  denied: "bg-red-50 text-red-700 border-red-200",
+  credited: "bg-green-50 text-green-700 border-green-200",
+};
+
+// Saved disputes keyed by target key, plus a save that keeps the map in sync
+export function useDisputes() {
+  const [disputes, setDisputes] = useState<Record<string, Dispute>>({});
+
+  useEffect(() => {
+    listDisputes()
+      .then((list) => setDisputes(Object.fromEntries(list.map((d) => [d.key, d]))))
+      .catch(() => setDisputes({}));
+  }, []);
+
+  async function save(d: Dispute) {
+    await saveDispute(d);
+    setDisputes((prev) => ({ ...prev, [d.key]: d }));
+  }
+
+  return { disputes, save };
+}
+
+// Who is making status changes in this browser
+export function useCurrentUser() {
+  const [user, setUser] = useState("");
+  useEffect(() => setUser(getCurrentUser()), []);
+  return [user, (name: string) => { setCurrentUser(name); setUser(name.trim()); }] as const;
+}
+
+export function DisputeUserField({ user, onChange }: { user: string; onChange: (name: string) => void }) {
+  return (
+    <label className="inline-flex items-center gap-2 text-sm text-slate-600">
+      Your name
+      <input
+        defaultValue={user}
+        key={user}
+        onBlur={(e) => e.target.value.trim() !== user && onChange(e.target.value)}
+        placeholder="Recorded on status changes"
+        className="rounded-md border px-2 py-1"
+      />
+    </label>
+  );
+}
+
+// Countdown to the carrier's filing deadline; only meaningful until the dispute is filed
+export function DeadlineBadge({ carrier, invoiceDate }: { carrier: CarrierId; invoiceDate?: string }) {
+  const deadline = disputeDeadline(carrier, invoiceDate);
+  if (!deadline) return <span className="text-xs text-slate-400">No invoice date</span>;
+  const left = daysLeft(deadline);
+  const tone = left < 0 ? "text-red-700" : left <= 14 ? "text-amber-700" : "text-slate-600";
+  return (
+    <span className={`text-xs whitespace-nowrap ${tone}`} title={`File by ${deadline.toLocaleDateString()}`}>
+      {left < 0 ? `Deadline passed ${-left}d ago` : left === 0 ? "Due today" : `${left}d left to file`}
+    </span>
+  );
+}
+
+export function DisputeStatusBadge({ status }: { status: DisputeStatus }) {
+  const label = DISPUTE_STATUSES.find((s) => s.value === status)?.label ?? status;
+  return <span className={`inline-flex items-center rounded-full border px-2 py-0.5 text-xs font-semibold ${STATUS_TONE[status]}`}>{label}</span>;
+}
+
+// Status badge + deadline, with an inline form to move the dispute along
+export function DisputeControl({
+  target,
+  dispute,
+  user,
+  onSave,
+}: {
+  target: DisputeTarget;
+  dispute?: Dispute;
+  user: string;
+  onSave: (d: Dispute) => void | Promise<void>;
+}) {
+  const status = dispute?.status ?? "open";
+  const [editing, setEditing] = useState(false);
+  const [next, setNext] = useState<DisputeStatus>(status);
+  const [disputeId, setDisputeId] = useState(dispute?.disputeId ?? "");
+  const [disputedOn, setDisputedOn] = useState(dispute?.disputedOn ?? new Date().toISOString().slice(0, 10));
+  const [note, setNote] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  // A failed save keeps the form open with what was typed
+  async function submit() {
+    if (!user) { alert("Enter your name first so the change can be recorded."); return; }
+    try {
+      await onSave(applyStatus(target, dispute, {
+        status: next,
+        by: user,
+        note: note.trim() || undefined,
+        disputeId: next === "disputed" ? disputeId.trim() || undefined : undefined,
+        disputedOn: next === "disputed" ? disputedOn : undefined,
+      }));
+    } catch (err) {
+      setError(`Could not save: ${errorMessage(err)}`);
+      return;
+    }
+    setError(null);
+    setNote("");
+    setEditing(false);
+  }
+
+  const last = dispute?.history[dispute.history.length - 1];
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-2">
+        <DisputeStatusBadge status={status} />
+        {status === "open" && <DeadlineBadge carrier={target.carrier} invoiceDate={target.invoiceDate} />}
+        {dispute?.disputeId && <span className="text-xs text-slate-500">#{dispute.disputeId}</span>}
+        <button onClick={() => { setNext(status); setError(null); setEditing((e) => !e); }} className="text-xs text-slate-500 hover:underline">
+          {editing ? "Cancel" : "Update"}
+        </button>
+      </div>
+      {last && !editing && (
+        <div className="text-xs text-slate-500">
+          {last.by}, {new Date(last.at).toLocaleDateString()}{last.note ? ` — ${last.note}` : ""}
+        </div>
+      )}
+      {editing && (
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <select value={next} onChange={(e) => setNext(e.target.value as DisputeStatus)} className="rounded-md border px-1 py-0.5">
+            {DISPUTE_STATUSES.map((s) => <option key={s.value} value={s.value}>{s.label}</option>)}
+          </select>
+          {next === "disputed" && (
+            <>
+              <input value={disputeId} onChange={(e) => setDisputeId(e.target.value)} placeholder="Dispute ID" className="w-28 rounded-md border px-1 py-0.5" />
+              <input type="date" value={disputedOn} onChange={(e) => setDisputedOn(e.target.value)} className="rounded-md border px-1 py-0.5" />
+            </>
+          )}
+          <input value={note} onChange={(e) => setNote(e.target.value)} placeholder="Note (optional)" className="w-40 rounded-md border px-1 py-0.5" />
+          <button onClick={submit} className="rounded-md px-2 py-0.5 font-semibold text-white" style={{ background: "var(--brand-primary)" }}>Save</button>
+          {error && <span className="text-red-700">{error}</span>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+"use client";
+
+import { Fragment, useRef, useState } from "react";
+import { ColumnMapper, missingFields } from "@/components/column-mapper";
+import { CARRIERS } from "@/lib/carriers";
+import { POS_SOURCES } from "@/lib/pos";
+import { sniffFile, sniffGrid, type Detection, type FileKind } from "@/lib/detect";
+import { findProfile, headerSignature, type ColumnMapping } from "@/lib/mapping";
+import { UPLOAD_ACCEPT, isWorkbook } from "@/lib/xlsx";
+import { inspectWorkbook } from "@/lib/workbook-client";
+import { findConverter, type ConverterId } from "@/lib/convert";
+import type { AuditJob } from "@/lib/audit-client";
+import { errorMessage } from "@/lib/parse";
+
+export type ClassifiedFile = {
+  file: File;
+  detection: Detection;
+  kind: FileKind | null; // detection.kind unless the user overrode it; null = ignore
+  mapping?: ColumnMapping; // hand-assigned columns; falls back to the adapter aliases
+  profile?: string;        // saved mapping profile applied to this file
+  converter?: ConverterId; // fixed-layout / EDI / repeating-column files: reshaped into rows by the worker
+  sheet?: string;          // workbooks: the sheet to audit, read from detection.headerRow on by the worker
+  sheets?: string[];
+  error?: string;          // why the file could not be read; the row stays so the user sees it
+};
+
+const KIND_OPTIONS: { value: FileKind; label: string }[] = [
+  ...CARRIERS.map((c) => ({ value: c.id as FileKind, label: `${c.name} invoice` })),
+  ...POS_SOURCES.map((p) => ({ value: p.id as FileKind, label: `${p.name} export` })),
+];
+
+function withSavedProfile(f: ClassifiedFile): ClassifiedFile {
+  const saved = findProfile(headerSignature(f.detection.header));
+  return saved ? { ...f, kind: saved.kind, mapping: saved.mapping, profile: saved.name } : f;
+}
+
+const UNREADABLE: Detection = { kind: null, confidence: 0, headerRow: 0, header: [], sample: [], scores: [] };
+
+// Excel: sniff the head of one sheet (or every sheet, keeping the best match), read in a worker.
+// The audit worker reads the chosen sheet from the detected header row on, so title rows above it are dropped.
+export async function classifyWorkbook(file: File, sheet?: string): Promise<ClassifiedFile> {
+  const preview = await inspectWorkbook(file);
+  const candidates = (sheet ? [sheet] : preview.sheets).map((name) => ({ name, detection: sniffGrid(preview.grids[name] ?? []) }));
+  if (!candidates.length) return { file, detection: UNREADABLE, kind: null, sheets: [], error: "This workbook has no sheets" };
+  const best = candidates.reduce((a, b) => (b.detection.confidence > a.detection.confidence ? b : a));
+  return withSavedProfile({ file, detection: best.detection, kind: best.detection.kind, sheet: best.name, sheets: preview.sheets });
+}
+
+// A file that failed to read is kept as an ignored row carrying the error, so one bad file doesn't sink the batch
+export async function classifyFiles(files: FileList | File[]): Promise<ClassifiedFile[]> {
+  return Promise.all(
+    Array.from(files).map((file) => classifyFile(file).catch((err): ClassifiedFile => (
+      { file, detection: UNREADABLE, kind: null, error: `Could not read this file: ${errorMessage(err)}` }
+    )))
+  );
+}
+
+async function classifyFile(file: File): Promise<ClassifiedFile> {
+  if (isWorkbook(file)) return classifyWorkbook(file);
+  const found = await findConverter(file);
+  if (found) {
+    // Sniff the first converted charge lines; the audit worker converts the whole file as it streams
+    const detection = sniffGrid(found.preview);
+    return withSavedProfile({ file, detection, kind: detection.kind ?? found.converter.carrier, converter: found.converter.id });
+  }
+  const detection = await sniffFile(file);
+  return withSavedProfile({ file, detection, kind: detection.kind });
+}
+
+// Every file not set to Ignore, as jobs for the audit worker
+export function toAuditJobs(files: ClassifiedFile[]): AuditJob[] {
+  return files.flatMap((f) => (f.kind
+    ? [{ file: f.file, kind: f.kind, mapping: f.mapping, converter: f.converter, ...(f.sheet ? { sheet: f.sheet, headerRow: f.detection.headerRow } : {}) }]
+    : []));
+}
+
+function confidenceTone(c: number) {
+  if (c >= 0.6) return "bg-green-50 text-green-700 border-green-200";
+  if (c >= 0.35) return "bg-amber-50 text-amber-700 border-amber-200";
+  return "bg-red-50 text-red-700 border-red-200";
+}
+
+// One drop target for every carrier invoice and POS export; each file is sniffed
+// and can be re-labelled before the audit runs.
+export function FileDropZone({
+  files,
+  onChange,
+  accept = UPLOAD_ACCEPT,
+}: {
+  files: ClassifiedFile[];
+  onChange: (files: ClassifiedFile[]) => void;
+  accept?: string;
+}) {
+  const [dragging, setDragging] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [mapping, setMapping] = useState<number | null>(null);
+  // Latest list, so a batch that finishes classifying after another drop appends to it instead of the stale render
+  const latest = useRef(files);
+  latest.current = files;
+
+  function update(next: ClassifiedFile[]) {
+    latest.current = next;
+    onChange(next);
+  }
+
+  async function add(list: FileList | null) {
+    if (!list?.length) return;
+    setBusy(true);
+    try {
+      const added = await classifyFiles(list);
+      update([...latest.current, ...added]);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function setKind(i: number, kind: FileKind | null) {
+    update(files.map((f, j) => (j === i ? { ...f, kind, mapping: undefined, profile: undefined } : f)));
+  }
+
+  async function setSheet(i: number, sheet: string) {
+    const f = files[i];
+    if (!f.sheets) return;
+    setBusy(true);
+    try {
+      const next = await classifyWorkbook(f.file, sheet);
+      update(latest.current.map((g) => (g === f ? next : g)));
+    } catch (err) {
+      update(latest.current.map((g) => (g === f ? { ...g, error: `Could not read sheet "${sheet}": ${errorMessage(err)}` } : g)));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function setMappingFor(i: number, next: ColumnMapping, profile?: string) {
+    update(files.map((f, j) => (j === i ? { ...f, mapping: next, profile } : f)));
+  }
+
+  return (
+    <div className="space-y-3">
+      <label
+        onDragOver={(e) => { e.preventDefault(); setDragging(true); }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => { e.preventDefault(); setDragging(false); add(e.dataTransfer.files); }}
+        className={`flex flex-col items-center justify-center rounded-lg border-2 border-dashed p-6 text-center cursor-pointer ${dragging ? "border-slate-500 bg-slate-100" : "border-slate-300 bg-white"}`}
+      >
+        <span className="font-semibold">{busy ? "Reading headers…" : "Drop carrier invoices and POS exports here"}</span>
+        <span className="mt-1 text-xs text-slate-500">or click to choose CSV or Excel files — we detect the type from the header row</span>
+        <input type="file" accept={accept} multiple className="hidden" onChange={(e) => { add(e.target.files); e.target.value = ""; }} />
+      </label>
+
+      {files.length > 0 && (
+        <table className="table text-sm">
+          <thead>
+            <tr>
+              <th>File</th>
+              <th>Detected as</th>
+              <th className="text-right">Confidence</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {files.map((f, i) => {
+              const missing = f.kind ? missingFields(f) : [];
+              return (
+              <Fragment key={`${f.file.name}-${i}`}>
+              <tr>
+                <td className="font-mono break-all">
+                  {f.file.name}
+                  {f.sheets && f.sheets.length > 1 && (
+                    <select value={f.sheet} onChange={(e) => setSheet(i, e.target.value)} className="ml-2 rounded-md border px-1 py-0.5 font-sans text-xs" aria-label="Sheet">
+                      {f.sheets.map((sh) => <option key={sh} value={sh}>{sh}</option>)}
+                    </select>
+                  )}
+                </td>
+                <td>
+                  <select
+                    value={f.kind ?? ""}
+                    onChange={(e) => setKind(i, (e.target.value || null) as FileKind | null)}
+                    className="rounded-md border px-2 py-1"
+                  >
+                    <option value="">— Ignore —</option>
+                    {KIND_OPTIONS.map((o) => <option key={o.value} value={o.value}>{o.label}</option>)}
+                  </select>
+                  {f.kind !== f.detection.kind && <span className="ml-2 text-xs text-slate-500">(overridden)</span>}
+                  {f.profile && <span className="ml-2 text-xs text-slate-500">profile “{f.profile}”</span>}
+                  {missing.length > 0 && <span className="ml-2 text-xs text-red-600">Unmapped: {missing.join(", ")}</span>}
+                  {f.error && <div className="mt-1 text-xs text-red-600">{f.error}</div>}
+                </td>
+                <td className="text-right">
+                  <span className={`inline-flex items-center rounded-full border px-2 py-0.5 text-xs font-semibold ${confidenceTone(f.detection.confidence)}`}>
+                    {Math.round(f.detection.confidence * 100)}%
+                  </span>
+                </td>
+                <td className="text-right whitespace-nowrap">
+                  {f.kind && (
+                    <button onClick={() => setMapping(mapping === i ? null : i)} className="mr-3 text-xs text-slate-500 hover:underline">
+                      {mapping === i ? "Done" : "Map columns"}
+                    </button>
+                  )}
+                  <button onClick={() => { setMapping(null); update(files.filter((_, j) => j !== i)); }} className="text-xs text-slate-500 hover:underline">Remove</button>
+                </td>
+              </tr>
+              {mapping === i && f.kind && (
+                <tr>
+                  <td colSpan={4}>
+                    <ColumnMapper key={`${i}-${f.kind}`} file={f} onChange={(m, p) => setMappingFor(i, m, p)} />
+                  </td>
+                </tr>
+              )}
+              </Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import type { CarrierAdapter } from "@/lib/carriers";
+
+// Deadline, required fields and reason codes from a carrier's playbook
+export function PlaybookDetails({ carrier }: { carrier: CarrierAdapter }) {
+  const p = carrier.playbook;
+  const reasons = Object.values(p.reasons);
+  return (
+    <div className="mt-3 space-y-2 text-sm text-slate-700">
+      <p>
+        File in <b>{p.portal}</b> within <b>{p.windowDays} days</b> of the invoice date.
+      </p>
+      <p>
+        Have ready: {p.requiredFields.join(", ")}.
+      </p>
+      {reasons.length > 0 && (
+        <ul className="list-disc pl-5 space-y-0.5">
+          {reasons.map((r) => <li key={r!.code}><span className="font-mono text-xs">{r!.code}</span> — {r!.label}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+}
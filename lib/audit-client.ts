@@ -0,0 +1,91 @@
+// lib/audit-client.ts — run the audit in a Web Worker, off the main thread
+import type { CarrierId } from "@/lib/carriers";
+import type { PosId } from "@/lib/pos";
+import type { FileKind } from "@/lib/detect";
+import type { ColumnMapping } from "@/lib/mapping";
+import type { ConverterId } from "@/lib/convert";
+import type { CarrierMap, ChargeIssue, Discrepancy, LateRow } from "@/lib/audit";
+import type { HolidayOverrides } from "@/lib/holidays";
+import type { CommitmentEntry } from "@/lib/commitments";
+import type { RateCard } from "@/lib/rates";
+import type { ZoneChart } from "@/lib/zones";
+import type { DasList } from "@/lib/das";
+import type { ReweighRow } from "@/lib/reweigh";
+import type { ResidentialRow } from "@/lib/residential";
+
+export type AuditJob = {
+  file: File;
+  kind: FileKind;
+  mapping?: ColumnMapping;
+  converter?: ConverterId; // reshaped into rows chunk by chunk
+  sheet?: string;          // workbooks: sheet to read, from its detected header row
+  headerRow?: number;
+};
+
+// What the worker receives: the files plus the holiday calendars, commitment tables, rate cards, zone charts and DAS lists kept on this browser
+export type AuditRequest = {
+  jobs: AuditJob[];
+  holidays: HolidayOverrides;
+  commitments: CommitmentEntry[];
+  rateCards: RateCard[];
+  zoneCharts: ZoneChart[];
+  dasLists: DasList[];
+};
+
+export type FileProgress = {
+  name: string;
+  loaded: number; // 0..1 of the file read so far
+  rows: number;
+  done: boolean;
+};
+
+export type AuditResult = {
+  carrierMap: CarrierMap;
+  posMap: Record<string, number>;
+  carrierRows: Partial<Record<CarrierId, number>>;
+  posRows: Partial<Record<PosId, number>>;
+  late: LateRow[];
+  credited: string[]; // trackings with a service-guarantee credit already on the invoice
+  issues: ChargeIssue[];
+  discrepancies: Discrepancy[];
+  reweighs: ReweighRow[];
+  residential: ResidentialRow[];
+};
+
+export type AuditMessage =
+  | { type: "progress"; index: number; progress: FileProgress }
+  | { type: "done"; result: AuditResult }
+  | { type: "error"; message: string };
+
+// Streams every job through the worker; `result` resolves to null when cancelled
+export function startAudit(
+  jobs: AuditJob[],
+  onProgress: (index: number, progress: FileProgress) => void,
+  holidays: HolidayOverrides = {},
+  commitments: CommitmentEntry[] = [],
+  rateCards: RateCard[] = [],
+  zoneCharts: ZoneChart[] = [],
+  dasLists: DasList[] = []
+) {
+  const worker = new Worker(new URL("./audit.worker.ts", import.meta.url));
+  let settle: (r: AuditResult | null) => void = () => {};
+
+  const result = new Promise<AuditResult | null>((resolve, reject) => {
+    settle = resolve;
+    worker.onmessage = (e: MessageEvent<AuditMessage>) => {
+      const m = e.data;
+      if (m.type === "progress") onProgress(m.index, m.progress);
+      else if (m.type === "done") { worker.terminate(); resolve(m.result); }
+      else { worker.terminate(); reject(new Error(m.message)); }
+    };
+    worker.onerror = (e) => { worker.terminate(); reject(new Error(e.message || "Audit worker failed")); };
+  });
+
+  const request: AuditRequest = { jobs, holidays, commitments, rateCards, zoneCharts, dasLists };
+  worker.postMessage(request);
+  return {
+    result,
+    // Terminating drops the worker's partial maps along with it
+    cancel: () => { worker.terminate(); settle(null); },
+  };
+}
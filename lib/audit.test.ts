@@ -0,0 +1,78 @@
+// lib/audit.test.ts — carrier registry, invoice vs POS reconciliation and the billing checks
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { CARRIERS, CARRIER_KEYS, getCarrier, type CarrierId } from "@/lib/carriers";
+import {
+  addCarrierRow, auditBillingIssues, createBillingIssueAccumulator, findChargePairs, posResidential, reconcile, summarize, type CarrierMap,
+} from "@/lib/audit";
+import { cleanMoney, getVal, postalMateHeaderLine } from "@/lib/parse";
+
+test("every registered carrier is found by id and unknown ids throw", () => {
+  assert.deepEqual(CARRIERS.map((c) => c.id), ["UPS", "FedEx", "DHL", "USPS"]);
+  CARRIERS.forEach((c) => assert.equal(getCarrier(c.id), c));
+  assert.throws(() => getCarrier("OnTrac" as CarrierId), /Unknown carrier: OnTrac/);
+  assert.ok(CARRIER_KEYS.includes("Express or Ground Tracking ID"));
+  assert.equal(new Set(CARRIER_KEYS).size, CARRIER_KEYS.length);
+});
+
+test("money and column values read the way invoices write them", () => {
+  assert.equal(cleanMoney("$1,234.50"), 1234.5);
+  assert.equal(cleanMoney("(12.00)"), -12);
+  assert.equal(cleanMoney("n/a"), 0);
+  assert.equal(cleanMoney(null), 0);
+  assert.equal(getVal({ "TRACKING NUMBER ": " 1ZA " }, ["Tracking Number"]), "1ZA");
+  assert.equal(getVal({ "Tracking Number": "" }, ["Tracking Number"]), "");
+});
+
+const ups = getCarrier("UPS");
+
+test("carrier rows sum per tracking and reconcile against the POS, mismatches first", () => {
+  const map: CarrierMap = {};
+  addCarrierRow(map, { "Tracking Number": "1ZA", "Invoice Number": "INV1", "Billed Charge": "10.00" }, ups);
+  addCarrierRow(map, { "Tracking Number": "1ZA", "Billed Charge": "2.50" }, ups);
+  addCarrierRow(map, { "Tracking Number": "1ZB", "Billed Charge": "8.00" }, ups);
+  addCarrierRow(map, { "Tracking Number": "", "Billed Charge": "99.00" }, ups); // no tracking: ignored
+  assert.deepEqual(Object.keys(map), ["1ZA", "1ZB"]);
+  assert.equal(map["1ZA"].amt, 12.5);
+  assert.equal(map["1ZA"].invoice, "INV1");
+
+  const rows = reconcile(map, { "1ZA": 10, "1ZB": 8, "1ZC": 5 });
+  assert.deepEqual(rows.map((d) => [d.tracking, d.note, d.difference]), [
+    ["1ZC", "Underbilled – Review", -5],
+    ["1ZA", "Overbilled", 2.5],
+    ["1ZB", "Match – OK", 0],
+  ]);
+  assert.deepEqual(summarize(rows), { overAmt: 2.5, underAmt: 5, overCount: 1, underCount: 1, okCount: 1, total: 3 });
+});
+
+test("surcharges, duplicates and fuel anomalies are reported per tracking", () => {
+  const row = (desc: string, amt: string) => ({
+    "Tracking Number": "1ZA", "Invoice Number": "INV1", "Transportation Charges": "10.00", "Charge Description": desc, "Charge Amount": amt,
+  });
+  const issues = auditBillingIssues([
+    row("Residential Surcharge", "4.50"), row("Residential Surcharge", "4.50"), row("Fuel Surcharge", "5.00"), row("Freight", "10.00"),
+  ], ups);
+  assert.deepEqual(issues.map((i) => i.note), [
+    "Residential Surcharge", "Residential Surcharge", "Fuel Surcharge",
+    "Possible duplicate charge", "Fuel surcharge anomaly (50.0% of transportation)",
+  ]);
+  assert.deepEqual(auditBillingIssues([], ups), []);
+});
+
+test("the streaming accumulator finds duplicates split across chunks", () => {
+  const row = (amt: string) => ({ "Tracking Number": "1ZA", "Charge Description": "Delivery Area Surcharge", "Charge Amount": amt });
+  const acc = createBillingIssueAccumulator();
+  const pairs = findChargePairs(Object.keys(row("")));
+  acc.add(row("3.00"), ups, pairs);
+  acc.add(row("3.00"), ups, pairs); // next chunk
+  acc.add({ "Tracking Number": "", "Charge Description": "Delivery Area Surcharge", "Charge Amount": "3.00" }, ups, pairs);
+  assert.deepEqual(acc.finish().map((i) => i.note), ["Delivery Area Surcharge", "Delivery Area Surcharge", "Possible duplicate charge"]);
+});
+
+test("POS address types and PostalMate header rows are read without the whole file", () => {
+  assert.equal(posResidential({ "Address Type": "Residential" }), true);
+  assert.equal(posResidential({ Residential: "N" }), false);
+  assert.equal(posResidential({ "Address Type": "unknown" }), null);
+  assert.equal(postalMateHeaderLine(["Store", "Report", "Date,Tracking #,PostalMate"]), 2);
+  assert.equal(postalMateHeaderLine(["no header here"]), 9); // stock export: row 10
+});
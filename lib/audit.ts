@@ -0,0 +1,353 @@
+// lib/audit.ts — audit passes shared by the wizard and the reconciliation page
+import { format, isAfter } from "date-fns";
+import { combineDateTime, getVal, cleanMoney, isValidDate, parseClock, parseManyCSVFiles } from "@/lib/parse";
+import { normalizeAnyTracking, type CarrierAdapter, type CarrierId, type Row } from "@/lib/carriers";
+import type { PosAdapter } from "@/lib/pos";
+import { addDeliveryDays, holidayChecker, type HolidayOverrides } from "@/lib/holidays";
+import { commitmentLookup, type CommitmentEntry } from "@/lib/commitments";
+import { weightUnit, type WeightUnit } from "@/lib/rates";
+import { POS_DIM_KEYS, dimsFromRow, type Dims } from "@/lib/dimensions";
+import { formatInZone, offsetInstant, resolveTimeZone, zonedInstant } from "@/lib/timezones";
+
+export type LateRow = {
+  tracking: string;
+  carrier: CarrierId;
+  service: string;
+  shipDate: string;
+  delivered: string;
+  billed?: string;
+  invoice?: string;
+  promised?: string;       // commitment the delivery missed, "yyyy-MM-dd HH:mm" destination time
+  zone?: string;           // destination time zone; unset when the invoice has no usable address
+  promisedDest?: string;   // commitment and delivery as "yyyy-MM-dd HH:mm TZ", at the destination…
+  deliveredDest?: string;
+  promisedLocal?: string;  // …and in the auditor's own zone
+  deliveredLocal?: string;
+  transportation?: number; // refundable transportation charge
+  exception?: string;      // carrier delivery-exception text, if any
+};
+
+export type ChargeIssue = {
+  tracking: string;
+  carrier: string;
+  invoice?: string;
+  invoiceDate?: string;
+  description: string;
+  amount: number;
+  note: string;
+};
+
+export type Discrepancy = {
+  tracking: string;
+  invoice: string;
+  invoiceDate?: string;
+  carrier?: CarrierId;
+  carrierAmount: number;
+  posAmount: number;
+  difference: number;
+  adjustments?: number; // post-shipment carrier adjustments included in carrierAmount (e.g. USPS APV)
+  contractExpected?: number; // transportation charge per the uploaded rate card
+  note: "Overbilled" | "Underbilled – Review" | "Match – OK";
+};
+
+export type PosIndex = Record<string, {
+  isResidential: boolean | null;
+  dims?: Dims | null;
+  weight?: number;
+  company?: string; // ship-to company and address key, for the residential audit's address history
+  address?: string;
+}>;
+
+export const POS_KEYS = ["TrackingNumber", "Tracking Number", "Tracking #", "Tracking"] as const;
+const POS_ADDR_KEYS = ["Address Type", "Residential", "Is Residential", "Residential Indicator", "Dest Type", "Recipient Type"] as const;
+const TRANSPORT_KEYS = ["Transportation Charge Amount", "Transportation Charges", "Net Charges", "Net Charge Amount"] as const;
+const RATED_TRANSPORT_KEYS = ["Transportation Charge Amount", "Transportation Charges"] as const; // no net-charge fallback: surcharges would read as overbilling
+const EXCEPTION_KEYS = ["Delivery Exception", "Exception", "Exception Reason", "Exception Description", "POD Exception", "Delay Reason"] as const;
+const DESCRIPTION_KEYS = ["Charge Description", "Description", "Charge Type"] as const;
+const WEIGHT_UNIT_KEYS = ["Weight Unit", "Billed Weight Unit", "Rated Weight Units", "Weight Units"] as const;
+const SATURDAY_FLAG_KEYS = ["Saturday Delivery", "Saturday Delivery Indicator"] as const;
+const GUARANTEE_CREDIT_RX = /guarantee|\bgsr\b|money[-\s]*back|late\s*delivery\s*(credit|refund)|service\s*failure/i;
+
+// Residential flag from whichever POS address-type column is present
+export function posResidential(r: Row): boolean | null {
+  let isRes: boolean | null = null;
+  for (const k of POS_ADDR_KEYS) {
+    if (r[k] == null) continue;
+    const v = String(r[k]).toLowerCase();
+    if (["res", "residential", "r"].includes(v)) isRes = true;
+    else if (["bus", "business", "commercial", "b"].includes(v)) isRes = false;
+    else if (v === "true" || v === "yes" || v === "y" || v === "1") isRes = true;
+    else if (v === "false" || v === "no" || v === "n" || v === "0") isRes = false;
+  }
+  return isRes;
+}
+
+export function buildPosIndex(rows: Row[]) {
+  const idx: PosIndex = {};
+  rows.forEach((r) => {
+    const t = normalizeAnyTracking(getVal(r, POS_KEYS)); if (!t) return;
+    idx[t] = { isResidential: posResidential(r), dims: dimsFromRow(r, POS_DIM_KEYS) };
+  });
+  return idx;
+}
+
+// Shipment paid for Saturday delivery, so Saturday counts toward its commitment
+function hasSaturdayDelivery(row: Row) {
+  return /^(y|yes|true|1)$/i.test(getVal(row, SATURDAY_FLAG_KEYS)) || /saturday\s*delivery/i.test(getVal(row, DESCRIPTION_KEYS));
+}
+
+export function destinationZone(row: Row, carrier: CarrierAdapter) {
+  const { destPostal, destState, destCountry } = carrier.columns;
+  return resolveTimeZone({ postal: getVal(row, destPostal), state: getVal(row, destState), country: getVal(row, destCountry) })?.zone;
+}
+
+// Late-delivery check for one invoice row; null when on time or not auditable.
+// Commitment and POD are destination wall times, compared as instants in the destination zone
+// (the browser's zone when the invoice has no address). isHoliday defaults to the carrier's built-in calendar,
+// commitmentOf to the adapter's flat rules
+export function lateCheck(
+  row: Row,
+  carrier: CarrierAdapter,
+  isHoliday = holidayChecker(carrier.id),
+  commitmentOf = commitmentLookup(carrier)
+): LateRow | null {
+  const COLS = carrier.columns;
+  const tracking = carrier.normalizeTracking(getVal(row, COLS.tracking));
+  const serviceRaw = getVal(row, COLS.service);
+  if (!tracking || !serviceRaw) return null;
+  const shipDateStr = getVal(row, COLS.shipDate);
+  const podDateStr = getVal(row, COLS.podDate);
+  const podTimeStr = getVal(row, COLS.podTime);
+  if (!shipDateStr || !podDateStr) return null;
+  const shipped = carrier.parseDate(shipDateStr); const delivered = combineDateTime(podDateStr, podTimeStr, carrier.parseDate); if (!isValidDate(shipped) || !isValidDate(delivered)) return null;
+  const rule = commitmentOf(serviceRaw, getVal(row, COLS.destPostal), shipped); if (!rule) return null;
+  const promised = addDeliveryDays(shipped, rule.days, { isHoliday, saturday: rule.saturday || hasSaturdayDelivery(row) });
+  const [hh, mm] = rule.cutoff.split(":").map(Number); promised.setHours(hh || 0, mm || 0, 0, 0);
+  const zone = destinationZone(row, carrier);
+  const podOffset = parseClock(podTimeStr)?.offset;
+  const deliveredAt = podOffset !== undefined ? offsetInstant(delivered, podOffset) : zone ? zonedInstant(delivered, zone) : delivered;
+  const promisedAt = zone ? zonedInstant(promised, zone) : promised;
+  if (!isAfter(deliveredAt, promisedAt)) return null;
+  return {
+    tracking, carrier: carrier.id, service: serviceRaw, shipDate: shipDateStr,
+    delivered: `${podDateStr}${podTimeStr ? " " + podTimeStr : ""}`,
+    billed: getVal(row, COLS.netCharge) || "",
+    invoice: getVal(row, COLS.invoice),
+    promised: format(promised, "yyyy-MM-dd HH:mm"),
+    zone,
+    promisedDest: formatInZone(promisedAt, zone),
+    deliveredDest: formatInZone(deliveredAt, zone),
+    promisedLocal: formatInZone(promisedAt),
+    deliveredLocal: formatInZone(deliveredAt),
+    transportation: carrier.parseMoney(getVal(row, TRANSPORT_KEYS)) || carrier.parseMoney(getVal(row, COLS.netCharge)),
+    exception: getVal(row, EXCEPTION_KEYS) || undefined,
+  };
+}
+
+// Negative service-guarantee line: the carrier already refunded this shipment
+export function isGuaranteeCredit(row: Row, carrier: CarrierAdapter) {
+  return GUARANTEE_CREDIT_RX.test(getVal(row, DESCRIPTION_KEYS)) && carrier.parseMoney(getVal(row, carrier.columns.billedCharge)) < 0;
+}
+
+export function auditCarrierRows(rows: Row[], carrier: CarrierAdapter, overrides?: HolidayOverrides, commitments?: CommitmentEntry[]): LateRow[] {
+  const out: LateRow[] = [];
+  const isHoliday = holidayChecker(carrier.id, overrides);
+  const commitmentOf = commitmentLookup(carrier, commitments);
+  rows.forEach((row) => { const late = lateCheck(row, carrier, isHoliday, commitmentOf); if (late) out.push(late); });
+  return out;
+}
+
+export function findChargePairs(headers: string[]) {
+  const descCols: { key: string; idx: string }[] = []; const amtCols: { key: string; idx: string }[] = [];
+  headers.forEach((h) => {
+    const m = h.match(/(Charge\s*Description|Description)\.?([0-9]+)?/i); if (m) descCols.push({ key: h, idx: m[2] || "" });
+    const m2 = h.match(/(Charge\s*Amount|Amount)\.?([0-9]+)?/i); if (m2) amtCols.push({ key: h, idx: m2[2] || "" });
+  });
+  const pairs: { desc: string; amt: string }[] = []; const used = new Set<string>();
+  descCols.forEach((d, i) => {
+    let match = amtCols.find((a) => a.idx && a.idx === d.idx && !used.has(a.key));
+    if (!match) match = amtCols.find((a, j) => j === i && !used.has(a.key));
+    if (match) { pairs.push({ desc: d.key, amt: match.key }); used.add(match.key); }
+  });
+  return pairs;
+}
+
+export type ChargePairs = ReturnType<typeof findChargePairs>;
+
+// Streaming billing audit: surcharge labels are emitted per row, duplicate and fuel checks
+// once every row for a tracking has been seen (finish)
+export function createBillingIssueAccumulator(posIndex?: PosIndex) {
+  const issues: ChargeIssue[] = [];
+  const perTrack: Record<string, { carrier: string; tracking: string; invoice: string; invoiceDate: string; items: { desc: string; amt: number }[]; transAmt: number; fuelAmt: number }> = {};
+
+  function add(r: Row, carrier: CarrierAdapter, pairs: ChargePairs) {
+    const tracking = carrier.normalizeTracking(getVal(r, carrier.columns.tracking)); if (!tracking) return;
+    const key = `${carrier.id}|${tracking}`;
+    if (!perTrack[key]) perTrack[key] = { carrier: carrier.id, tracking, invoice: "", invoiceDate: "", items: [], transAmt: 0, fuelAmt: 0 };
+    const t = perTrack[key];
+    t.invoice = t.invoice || getVal(r, carrier.columns.invoice);
+    t.invoiceDate = t.invoiceDate || getVal(r, carrier.columns.invoiceDate);
+    t.transAmt = t.transAmt || carrier.parseMoney(getVal(r, TRANSPORT_KEYS));
+
+    pairs.forEach(({ desc, amt }) => {
+      const d = String(r[desc] ?? "").trim();
+      const a = carrier.parseMoney(r[amt]); if (!d || a === 0) return;
+      t.items.push({ desc: d, amt: a });
+      if (/fuel\s*surcharge/i.test(d)) t.fuelAmt += a;
+
+      const hit = carrier.surcharges.find((s) => s.kw.test(d)); if (hit) {
+        let note = hit.label;
+        if (/residential/i.test(d) && posIndex && tracking in posIndex) {
+          const p = posIndex[tracking]; if (p.isResidential === false) note += " — POS indicates BUSINESS, verify surcharge";
+        }
+        issues.push({ tracking, carrier: carrier.id, invoice: t.invoice, invoiceDate: t.invoiceDate, description: d, amount: a, note });
+      }
+    });
+  }
+
+  function finish(): ChargeIssue[] {
+    Object.values(perTrack).forEach(({ tracking, carrier: carrierLabel, invoice, invoiceDate, ...data }) => {
+      const keyCount: Record<string, number> = {};
+      data.items.forEach((it) => { const key = `${it.desc}|${it.amt.toFixed(2)}`; keyCount[key] = (keyCount[key] || 0) + 1; });
+      Object.entries(keyCount).forEach(([k, count]) => {
+        if (count >= 2) { const [desc, amtStr] = k.split("|");
+          issues.push({ tracking, carrier: carrierLabel, invoice, invoiceDate, description: desc, amount: Number(amtStr), note: "Possible duplicate charge" });
+        }
+      });
+      if (data.transAmt > 0 && data.fuelAmt > 0) {
+        const pct = data.fuelAmt / data.transAmt;
+        if (pct > 0.35 || pct < 0) {
+          issues.push({ tracking, carrier: carrierLabel, invoice, invoiceDate, description: "Fuel Surcharge", amount: Number(data.fuelAmt.toFixed(2)), note: `Fuel surcharge anomaly (${(pct * 100).toFixed(1)}% of transportation)` });
+        }
+      }
+    });
+    return issues;
+  }
+
+  return { add, finish };
+}
+
+export function auditBillingIssues(rows: Row[], carrier: CarrierAdapter, posIndex?: PosIndex): ChargeIssue[] {
+  if (!rows.length) return [];
+  const pairs = findChargePairs(Object.keys(rows[0] || {}));
+  const acc = createBillingIssueAccumulator(posIndex);
+  rows.forEach((r) => acc.add(r, carrier, pairs));
+  return acc.finish();
+}
+
+export type CarrierMap = Record<string, {
+  amt: number;
+  invoice: string;
+  invoiceDate: string;
+  carrier: CarrierId;
+  adjustments: number;
+  // Rating inputs, first non-empty across the tracking's rows (billed weight: the largest)
+  service?: string;
+  zone?: string;
+  weight?: number;
+  weightUnit?: WeightUnit;
+  transport?: number;
+  origin?: string; // sender / receiver postal codes, for the zone chart check
+  dest?: string;
+}>;
+
+// Carrier invoice row: tracking + billed charge + invoice number, summed per tracking
+export function addCarrierRow(out: CarrierMap, r: Row, carrier: CarrierAdapter) {
+  const C = carrier.columns;
+  const tracking = carrier.normalizeTracking(getVal(r, C.tracking));
+  if (!tracking) return;
+  const amt = carrier.parseMoney(getVal(r, C.billedCharge));
+  const invoice = getVal(r, C.invoice);
+  const invoiceDate = getVal(r, C.invoiceDate);
+  if (!out[tracking]) out[tracking] = { amt: 0, invoice, invoiceDate, carrier: carrier.id, adjustments: 0 };
+  const s = out[tracking];
+  s.amt += amt;
+  if (carrier.isAdjustment(r)) s.adjustments += amt;
+  if (!s.invoice && invoice) s.invoice = invoice;
+  if (!s.invoiceDate && invoiceDate) s.invoiceDate = invoiceDate;
+  s.service ||= getVal(r, C.service) || undefined;
+  s.zone ||= getVal(r, C.zone) || undefined;
+  const weight = Number(getVal(r, C.billedWeight).replace(/[^0-9.]/g, ""));
+  if (weight > (s.weight ?? 0)) { s.weight = weight; s.weightUnit = weightUnit(getVal(r, WEIGHT_UNIT_KEYS)); }
+  s.transport ||= carrier.parseMoney(getVal(r, RATED_TRANSPORT_KEYS)) || undefined;
+  s.origin ||= getVal(r, C.originPostal) || undefined;
+  s.dest ||= getVal(r, C.destPostal) || undefined;
+}
+
+// POS export row: tracking + amount column declared by the POS adapter, summed per tracking
+export function addPosRow(out: Record<string, number>, r: Row, source: PosAdapter) {
+  const tracking = normalizeAnyTracking(getVal(r, source.columns.tracking));
+  if (!tracking) return "";
+  const amt = cleanMoney(getVal(r, source.columns.amount));
+  out[tracking] = (out[tracking] || 0) + amt;
+  return tracking;
+}
+
+export async function buildCarrierMap(files: FileList | File[] | null, carrier: CarrierAdapter) {
+  const out: CarrierMap = {};
+  if (!files || !files.length) return { map: out, rows: 0 };
+  const rows = await parseManyCSVFiles(files);
+  rows.forEach((r) => addCarrierRow(out, r, carrier));
+  return { map: out, rows: rows.length };
+}
+
+export async function buildPosMap(files: FileList | File[] | null, source: PosAdapter) {
+  const out: Record<string, number> = {};
+  if (!files || !files.length) return { map: out, rows: 0 };
+  const parts = await Promise.all(Array.from(files).map(source.parseFile));
+  const rows = parts.flat();
+  rows.forEach((r) => addPosRow(out, r, source));
+  return { map: out, rows: rows.length };
+}
+
+// Compare carrier vs POS per tracking; mismatches first, largest difference first.
+// contract carries the rate-card expectation per tracking, shown alongside
+export function reconcile(carrierMap: CarrierMap, posMap: Record<string, number>, contract: Record<string, number> = {}): Discrepancy[] {
+  const all = new Set<string>([...Object.keys(carrierMap), ...Object.keys(posMap)]);
+  const out: Discrepancy[] = [];
+
+  for (const t of all) {
+    const cObj = carrierMap[t];
+    const c = cObj?.amt ?? 0;
+    const invoice = cObj?.invoice ?? "";
+    const adjustments = cObj?.adjustments || undefined;
+    const p = posMap[t] ?? 0;
+    const diff = c - p;
+
+    let note: Discrepancy["note"] = "Match – OK";
+    if (Math.abs(diff) > 0.01) note = diff > 0 ? "Overbilled" : "Underbilled – Review";
+    // An adjustment the carrier added after the label was bought is always disputable
+    if (adjustments && adjustments > 0.01) note = "Overbilled";
+
+    out.push({ tracking: t, invoice, invoiceDate: cObj?.invoiceDate || undefined, carrier: cObj?.carrier, carrierAmount: c, posAmount: p, difference: diff, adjustments, contractExpected: contract[t], note });
+  }
+
+  out.sort((a, b) => {
+    const aScore = a.note === "Match – OK" ? 1 : 0;
+    const bScore = b.note === "Match – OK" ? 1 : 0;
+    if (aScore !== bScore) return aScore - bScore;
+    return Math.abs(b.difference) - Math.abs(a.difference);
+  });
+
+  return out;
+}
+
+export type AuditSummary = {
+  overAmt: number;
+  underAmt: number;
+  overCount: number;
+  underCount: number;
+  okCount: number;
+  total: number;
+};
+
+// Totals shown above the results table; an adjustment counts in full even when the net difference is smaller
+export function summarize(discrepancies: Discrepancy[]): AuditSummary {
+  let overAmt = 0, underAmt = 0, overCount = 0, underCount = 0, okCount = 0;
+  discrepancies.forEach((d) => {
+    if (d.note === "Overbilled") { overAmt += Math.max(d.difference, d.adjustments ?? 0); overCount++; }
+    else if (d.note === "Underbilled – Review") { underAmt += -d.difference; underCount++; }
+    else { okCount++; }
+  });
+  return { overAmt, underAmt, overCount, underCount, okCount, total: discrepancies.length };
+}
@@ -0,0 +1,180 @@
+// lib/audit.worker.ts — streams uploads in chunks and aggregates per tracking as rows arrive,
+// so raw rows are never held in memory. POS files run first to build the residential index.
+import * as Papa from "papaparse";
+import { getCarrier, type Row } from "@/lib/carriers";
+import { errorMessage, getVal } from "@/lib/parse";
+import { getPosSource } from "@/lib/pos";
+import { isCarrierKind, isPosKind } from "@/lib/detect";
+import { withCarrierMapping, withPosMapping } from "@/lib/mapping";
+import {
+  addCarrierRow, addPosRow, createBillingIssueAccumulator, findChargePairs, isGuaranteeCredit, lateCheck, posResidential, reconcile,
+  type CarrierMap, type LateRow, type PosIndex,
+} from "@/lib/audit";
+import { holidayChecker } from "@/lib/holidays";
+import { commitmentLookup } from "@/lib/commitments";
+import { contractIssues, expectedCharges } from "@/lib/rates";
+import { POS_DIM_KEYS, createPackageCheckAccumulator, dimsFromRow } from "@/lib/dimensions";
+import { createReweighAccumulator, parseWeight } from "@/lib/reweigh";
+import { zoneIssues } from "@/lib/zones";
+import { createDasCheckAccumulator } from "@/lib/das";
+import { addressKey, createResidentialAccumulator, residentialIssues } from "@/lib/residential";
+import { forEachSheetBatch } from "@/lib/xlsx";
+import { getConverter, type RowTransform } from "@/lib/convert";
+import type { AuditJob, AuditMessage, AuditRequest, AuditResult } from "@/lib/audit-client";
+
+const CHUNK_SIZE = 1024 * 1024;
+const ctx = self as unknown as Worker;
+
+function post(m: AuditMessage) {
+  ctx.postMessage(m);
+}
+
+function isBlank(r: Row) {
+  return !r || Object.values(r).every((v) => String(v ?? "").trim() === "");
+}
+
+type OnRows = (rows: Row[], fields: string[]) => void;
+
+// Drops blank rows and posts progress per chunk; finish returns the file's row count
+function rowSink(index: number, file: File, onRows: OnRows) {
+  let rows = 0;
+  return {
+    emit(data: Row[], fields: string[], loaded: number) {
+      const kept = data.filter((r) => !isBlank(r));
+      if (kept.length) onRows(kept, fields);
+      rows += kept.length;
+      post({ type: "progress", index, progress: { name: file.name, loaded, rows, done: false } });
+    },
+    finish() {
+      post({ type: "progress", index, progress: { name: file.name, loaded: 1, rows, done: true } });
+      return rows;
+    },
+  };
+}
+
+const fieldsOf = (rows: Row[]) => Object.keys(rows[0] ?? {});
+
+// Feed one file through Papa in chunks; onRows sees each chunk's rows plus the header fields.
+// Workbook sheets arrive in row batches, and converted files as the rows their transform emits per chunk.
+function streamFile(index: number, job: AuditJob, onRows: OnRows, headerLine?: (lines: string[]) => number): Promise<number> {
+  const { file } = job;
+  const sink = rowSink(index, file, onRows);
+  if (job.sheet) return streamSheet(job, job.sheet, sink);
+  const converter = job.converter ? getConverter(job.converter) : null;
+  if (converter?.input === "text") return streamText(file, converter.create(), sink);
+  const transform = converter?.create() ?? null;
+  return new Promise<number>((resolve, reject) => {
+    Papa.parse<Row>(file, {
+      header: !transform,
+      skipEmptyLines: true,
+      chunkSize: CHUNK_SIZE,
+      transformHeader: transform ? undefined : (h) => h.trim(),
+      beforeFirstChunk: headerLine && !transform
+        ? (chunk) => { const lines = chunk.split(/\r?\n/); return lines.slice(headerLine(lines)).join("\n"); }
+        : undefined,
+      chunk: (res) => {
+        const loaded = file.size ? Math.min(1, res.meta.cursor / file.size) : 1;
+        if (!transform) return sink.emit(res.data, res.meta.fields ?? [], loaded);
+        const rows = transform.push(res.data as unknown as string[][]);
+        sink.emit(rows, fieldsOf(rows), loaded);
+      },
+      complete: () => {
+        if (transform) { const rows = transform.end(); sink.emit(rows, fieldsOf(rows), 1); }
+        resolve(sink.finish());
+      },
+      error: (err) => reject(err),
+    });
+  });
+}
+
+async function streamSheet({ file, headerRow = 0 }: AuditJob, sheet: string, sink: ReturnType<typeof rowSink>) {
+  await forEachSheetBatch(file, sheet, headerRow, (rows, fields, loaded) => sink.emit(rows, fields, loaded));
+  return sink.finish();
+}
+
+// Raw text in CHUNK_SIZE slices; the decoder carries multi-byte characters split across a slice boundary
+async function streamText(file: File, transform: RowTransform<string>, sink: ReturnType<typeof rowSink>) {
+  const decoder = new TextDecoder();
+  for (let at = 0; at < file.size; at += CHUNK_SIZE) {
+    const rows = transform.push(decoder.decode(await file.slice(at, at + CHUNK_SIZE).arrayBuffer(), { stream: true }));
+    sink.emit(rows, fieldsOf(rows), Math.min(1, (at + CHUNK_SIZE) / file.size));
+  }
+  const rows = [...transform.push(decoder.decode()), ...transform.end()];
+  sink.emit(rows, fieldsOf(rows), 1);
+  return sink.finish();
+}
+
+async function runAudit({ jobs, holidays, commitments, rateCards, zoneCharts, dasLists }: AuditRequest): Promise<AuditResult> {
+  const carrierMap: CarrierMap = {};
+  const posMap: Record<string, number> = {};
+  const posIndex: PosIndex = {};
+  const carrierRows: AuditResult["carrierRows"] = {};
+  const posRows: AuditResult["posRows"] = {};
+  const late: LateRow[] = [];
+  const credited = new Set<string>();
+
+  for (const [index, job] of jobs.entries()) {
+    const kind = job.kind;
+    if (!isPosKind(kind)) continue;
+    const source = withPosMapping(getPosSource(kind), [job.mapping]);
+    const n = await streamFile(index, job, (rows) => rows.forEach((r) => {
+      const t = addPosRow(posMap, r, source);
+      if (!t) return;
+      const weight = Math.max(posIndex[t]?.weight ?? 0, parseWeight(getVal(r, source.columns.weight)));
+      posIndex[t] = {
+        isResidential: posResidential(r), dims: dimsFromRow(r, POS_DIM_KEYS), weight: weight || undefined,
+        company: getVal(r, source.columns.company) || undefined,
+        address: addressKey(getVal(r, source.columns.address), getVal(r, source.columns.postal)) || undefined,
+      };
+    }), source.headerLine);
+    posRows[kind] = (posRows[kind] || 0) + n;
+  }
+
+  const billing = createBillingIssueAccumulator(posIndex);
+  const packages = createPackageCheckAccumulator(posIndex, rateCards);
+  const reweigh = createReweighAccumulator();
+  const das = createDasCheckAccumulator(dasLists);
+  const residential = createResidentialAccumulator();
+  for (const [index, job] of jobs.entries()) {
+    const kind = job.kind;
+    if (!isCarrierKind(kind)) continue;
+    const carrier = withCarrierMapping(getCarrier(kind), [job.mapping]);
+    const isHoliday = holidayChecker(kind, holidays);
+    const commitmentOf = commitmentLookup(carrier, commitments);
+    let pairs: ReturnType<typeof findChargePairs> | null = null;
+    const n = await streamFile(index, job, (rows, fields) => {
+      pairs ??= findChargePairs(fields); // first chunk with rows
+      for (const r of rows) {
+        addCarrierRow(carrierMap, r, carrier);
+        const l = lateCheck(r, carrier, isHoliday, commitmentOf); if (l) late.push(l);
+        if (isGuaranteeCredit(r, carrier)) credited.add(carrier.normalizeTracking(getVal(r, carrier.columns.tracking)));
+        billing.add(r, carrier, pairs);
+        packages.add(r, carrier, pairs);
+        reweigh.add(r, carrier, pairs);
+        das.add(r, carrier, pairs);
+        residential.add(r, carrier, pairs);
+      }
+    });
+    carrierRows[kind] = (carrierRows[kind] || 0) + n;
+  }
+
+  const expected = expectedCharges(carrierMap, rateCards);
+  const residentialRows = residential.finish(carrierMap, posIndex);
+  return {
+    carrierMap, posMap, carrierRows, posRows, late, credited: [...credited],
+    issues: [
+      ...billing.finish(), ...packages.finish(), ...das.finish(),
+      ...contractIssues(carrierMap, expected), ...zoneIssues(carrierMap, zoneCharts, rateCards),
+      ...residentialIssues(residentialRows, carrierMap),
+    ],
+    discrepancies: reconcile(carrierMap, posMap, expected),
+    reweighs: reweigh.finish(carrierMap, posIndex, posMap, rateCards),
+    residential: residentialRows,
+  };
+}
+
+ctx.onmessage = (e: MessageEvent<AuditRequest>) => {
+  runAudit(e.data)
+    .then((result) => post({ type: "done", result }))
+    .catch((err) => post({ type: "error", message: errorMessage(err) }));
+};
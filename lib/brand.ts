@@ -0,0 +1,2 @@
+// lib/brand.ts — store branding used on screens and generated PDFs
+export const BRAND = { name: "The Shipping Yard", accent: "#16a34a", accentSoft: "#dcfce7", textMuted: "#475569" };
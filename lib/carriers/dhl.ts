@@ -0,0 +1,69 @@
+// lib/carriers/dhl.ts
+import { defineCarrier } from "./shared";
+
+export const dhl = defineCarrier({
+  id: "DHL",
+  name: "DHL",
+  columns: {
+    tracking: ["Air Waybill", "AWB", "Waybill Number", "Shipment Number", "Tracking Number"],
+    invoice: ["Invoice Number", "Invoice No", "Invoice #"],
+    invoiceDate: ["Invoice Date", "Billing Date"],
+    service: ["Product", "Service", "Service Type"],
+    shipDate: ["Shipment Date", "Ship Date", "Pickup Date"],
+    podDate: ["Delivery Date", "POD Date"],
+    podTime: ["Delivery Time", "POD Time"],
+    netCharge: ["Total Net Amount", "Charges", "Net Charge Amount", "Shipment Amount"],
+    billedCharge: ["Total Net Amount", "Shipment Amount"],
+    zone: ["Zone", "Billing Zone", "Rating Zone"],
+    billedWeight: ["Billed Weight", "Chargeable Weight", "Weight Charged"],
+    enteredWeight: ["Actual Weight", "Declared Weight", "Weight"],
+    dimensions: ["Dimensions", "Piece Dimensions"],
+    originPostal: ["Shipper Postal Code", "Origin Postcode", "Sender Postal"],
+    destPostal: ["Consignee Postal Code", "Destination Postcode", "Receiver Postal Code"],
+    destState: ["Consignee State", "Destination State"],
+    destCountry: ["Destination Country Code", "Destination Country", "Consignee Country"],
+    recipientName: ["Consignee Name", "Consignee Contact", "Receiver Name"],
+    recipientCompany: ["Consignee Company", "Consignee Company Name", "Receiver Company Name"],
+    recipientAddress: ["Consignee Address", "Consignee Address Line 1", "Receiver Address Line 1"],
+  },
+  signature: {
+    headers: [/^(air\s*)?waybill(\s*number)?$/i, /^awb$/i, /^product$/i, /^total\s*net\s*amount$/i, /^shipment\s*number$/i],
+    tracking: /^\d{10}$/,
+  },
+  // DHL Express: 5000 cm³/kg (≈139 in³/lb); oversize piece past 120 cm on a side or 70 kg
+  packageRules: {
+    dimDivisor: 139,
+    handling: { longest: 47.2, weight: 154.3, charge: /oversize\s*piece|overweight\s*piece|non[-\s]*standard/i },
+  },
+  playbook: {
+    portal: "MyBill (DHL Express)",
+    windowDays: 30,
+    steps: [
+      "Log in to MyDHL+ and open MyBill.",
+      "Find the invoice under Invoices.",
+      "Open it and select the waybill number you want to dispute.",
+      "Click Dispute and pick the dispute reason.",
+      "Enter the disputed amount and a comment.",
+      "Submit and keep the dispute reference.",
+    ],
+    historySteps: [
+      "In MyBill, open Disputes.",
+      "Check the status of each dispute and any credit note issued.",
+    ],
+    requiredFields: ["Invoice Number", "Waybill Number", "Dispute reason", "Disputed amount"],
+    reasons: {
+      overbilled: { code: "DHL-RATE", label: "Incorrect rate applied" },
+      duplicate: { code: "DHL-DUP", label: "Duplicate invoice / charge" },
+      addressCorrection: { code: "DHL-ADDR", label: "Address correction charge" },
+      fuel: { code: "DHL-FUEL", label: "Fuel surcharge incorrect" },
+      late: { code: "DHL-LATE", label: "Late delivery" },
+    },
+  },
+  rules: {
+    "DHL EXPRESS WORLDWIDE": { days: 1, cutoff: "20:00" },
+    "DHL EXPRESS 12:00": { days: 1, cutoff: "12:00" },
+    "DHL EXPRESS 9:00": { days: 1, cutoff: "09:00" },
+    "DHL EXPRESS 10:30": { days: 1, cutoff: "10:30" },
+    "DHL ECONOMY SELECT": { days: 2, cutoff: "20:00" },
+  },
+});
@@ -0,0 +1,78 @@
+// lib/carriers/fedex-detail.test.ts — FBO detail and EDI 210 conversion into FedEx rows
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getCarrier, type Row } from "@/lib/carriers";
+import { lateCheck } from "@/lib/audit";
+import { getConverter } from "@/lib/convert";
+import { createEdi210Reader, createFboReader, fedexDetailToRows } from "@/lib/carriers/fedex-detail";
+
+const ISA = "ISA*00*          *00*          *ZZ*FDX            *ZZ*STORE          *240101*1200*U*00401*000000001*0*P*>~";
+const EDI = [
+  ISA, "GS*IM*FDX*STORE*20240108*1200*1*X*004010~",
+  "ST*210*0001~", "B3**INV1*794600000001*PP**20240108*2475~", "N9*2I*794600000001~", "N9*SV*PO*FedEx Priority Overnight~",
+  "G62*86*20240104~", "G62*35*20240105*Z*1115~", "N1*CN*Jane Doe~", "N3*1 Main St~", "N4*New York*NY*10001*US~",
+  "L0*1***5*B*******L~", "L1*1**5*2000****400~", "L1*2**5*475****RES****Residential Delivery~", "SE*13*0001~",
+  "ST*810*0002~", "BIG*20240108*INV2~", "SE*3*0002~",
+  "GE*2*1~", "IEA*1*000000001~",
+].join("\n");
+
+// Stream the interchange through the converter the worker uses, cut mid-segment
+function convertEdi(text: string): Row[] {
+  const t = getConverter("fedex-edi-210");
+  assert.equal(t.input, "text");
+  if (t.input !== "text") return [];
+  const run = t.create();
+  const cut = text.indexOf("G62*35") + 4;
+  return [...run.push(text.slice(0, cut)), ...run.push(text.slice(cut)), ...run.end()];
+}
+
+test("an EDI 210 invoice converts to FedEx rows the adapter and late check can read", () => {
+  const rows = convertEdi(EDI);
+  assert.deepEqual(rows.map((r) => [r["Charge Description"], r["Charge Amount"]]), [["400", "20.00"], ["Residential Delivery", "4.75"]]);
+  const [first, second] = rows;
+  assert.equal(first["Express or Ground Tracking ID"], "794600000001");
+  assert.equal(first["Shipment Date"], "01/04/2024");
+  assert.equal(first["POD Delivery Date"], "01/05/2024");
+  assert.equal(second["POD Delivery Date"], ""); // POD fields ride on the first line only
+
+  const fedex = getCarrier("FedEx");
+  assert.equal(fedex.parseDate(first["Invoice Date"])?.getDate(), 8);
+  const late = lateCheck(first, fedex);
+  assert.equal(late?.tracking, "794600000001");
+  assert.equal(late?.deliveredDest, "2024-01-05 11:15 EST"); // after the 10:30 Priority Overnight commitment
+  assert.equal(lateCheck(second, fedex), null);
+});
+
+test("non-210 transaction sets and bad EDI dates do not break the conversion", () => {
+  const rows = convertEdi(EDI.replace("G62*35*20240105", "G62*35*2024XX05"));
+  assert.equal(rows.length, 2);
+  assert.equal(rows[0]["POD Delivery Date"], "2024XX05");
+  assert.equal(lateCheck(rows[0], getCarrier("FedEx")), null);
+
+  const reader = createEdi210Reader();
+  assert.deepEqual(reader.push("not an interchange"), { shipments: [], lines: [] });
+  assert.deepEqual(reader.end(), { shipments: [], lines: [] });
+});
+
+test("FBO detail pairs each charge description with its amount and balances to the net charge", () => {
+  const read = createFboReader();
+  const header = [
+    "Invoice Number", "Ground Tracking ID Prefix", "EXPRESS OR GROUND TRACKING ID", "Service Type", "Net Charge Amount",
+    "Transportation Charge Amount", "Tracking ID Charge Description", "Tracking ID Charge Amount",
+    "Tracking ID Charge Description", "Tracking ID Charge Amount",
+  ];
+  const detail = read([header]);
+  assert.deepEqual(detail, { shipments: [], lines: [] });
+  const { shipments, lines } = read([
+    ["INV9", "9622", "612345678901", "Ground", "15.00", "10.00", "Fuel Surcharge", "1.50", "Residential", "2.00"],
+    ["INV9", "9622", "", "Ground", "1.00", "", "", "", "", ""], // no tracking ID: skipped
+  ]);
+  assert.equal(shipments.length, 1);
+  assert.equal(shipments[0].tracking, "612345678901"); // not the "9622" prefix column
+  assert.deepEqual(lines.map((l) => [l.description, l.amount]), [
+    ["Transportation Charge", 10], ["Fuel Surcharge", 1.5], ["Residential", 2], ["Unitemized (net vs charge lines)", 1.5],
+  ]);
+  const rows = fedexDetailToRows({ shipments, lines });
+  assert.equal(rows[0]["Transportation Charge Amount"], "10.00");
+  assert.equal(rows[1]["Transportation Charge Amount"], "");
+});
@@ -0,0 +1,288 @@
+// lib/carriers/fedex-detail.ts — FedEx Billing Online "download all" CSV and EDI 210 freight invoices
+import { cleanMoney, resolveHeaderIndex } from "@/lib/parse";
+import type { Row } from "./types";
+
+export type FedexShipment = {
+  tracking: string;
+  invoiceNumber: string;
+  invoiceDate: string;
+  service: string;
+  shipDate: string;
+  podDate: string;
+  podTime: string;
+  netCharge: number;
+  transportationCharge: number;
+  ratedWeight: string;
+  actualWeight: string;
+  weightUnit: string;
+  dimensions: string;
+  zone: string;
+  shipperPostal: string;
+  recipientName: string;
+  recipientCompany: string;
+  recipientAddress: string;
+  recipientCity: string;
+  recipientState: string;
+  recipientPostal: string;
+  recipientCountry: string;
+};
+
+export type FedexChargeLine = {
+  tracking: string;
+  invoiceNumber: string;
+  description: string;
+  amount: number;
+};
+
+export type FedexDetail = { shipments: FedexShipment[]; lines: FedexChargeLine[] };
+
+const FBO_DESC = /^tracking\s*id\s*charge\s*description/i;
+const FBO_AMT = /^tracking\s*id\s*charge\s*amount/i;
+
+const FBO_FIELDS: Record<Exclude<keyof FedexShipment, "netCharge" | "transportationCharge">, string[]> = {
+  tracking: ["Express or Ground Tracking ID", "Tracking ID"],
+  invoiceNumber: ["Invoice Number"],
+  invoiceDate: ["Invoice Date"],
+  service: ["Service Type"],
+  shipDate: ["Shipment Date"],
+  podDate: ["POD Delivery Date"],
+  podTime: ["POD Delivery Time"],
+  ratedWeight: ["Rated Weight Amount"],
+  actualWeight: ["Actual Weight Amount", "Original Weight Amount"],
+  weightUnit: ["Rated Weight Units", "Actual Weight Units"],
+  dimensions: ["Dim Length", "Dimensions"],
+  zone: ["Zone Code", "Pricing Zone"],
+  shipperPostal: ["Shipper Zip Code", "Shipper Postal Code"],
+  recipientName: ["Recipient Name"],
+  recipientCompany: ["Recipient Company"],
+  recipientAddress: ["Recipient Address Line 1"],
+  recipientCity: ["Recipient City"],
+  recipientState: ["Recipient State"],
+  recipientPostal: ["Recipient Zip Code", "Recipient Postal Code"],
+  recipientCountry: ["Recipient Country/Territory", "Recipient Country"],
+};
+
+export function isFboDetailHeader(header: string[]) {
+  return header.some((h) => FBO_DESC.test(h)) && header.some((h) => FBO_AMT.test(h));
+}
+
+// The FBO export repeats the same two header names for every charge, so read it as a grid
+// and pair the n-th description column with the n-th amount column. Fed in streamed chunks:
+// the first row seen is the header.
+export function createFboReader() {
+  let readRow: ((r: string[], out: FedexDetail) => void) | null = null;
+  return (grid: string[][]): FedexDetail => {
+    const out: FedexDetail = { shipments: [], lines: [] };
+    grid.forEach((r) => { if (readRow) readRow(r, out); else readRow = fboRowReader(r); });
+    return out;
+  };
+}
+
+function fboRowReader(headerRow: string[]) {
+  const header = headerRow.map((h) => String(h || "").trim());
+  const descIdx = header.flatMap((h, i) => (FBO_DESC.test(h) ? [i] : []));
+  const amtIdx = header.flatMap((h, i) => (FBO_AMT.test(h) ? [i] : []));
+  const col = Object.fromEntries(
+    (Object.keys(FBO_FIELDS) as (keyof typeof FBO_FIELDS)[]).map((k) => [k, resolveHeaderIndex(header, FBO_FIELDS[k])])
+  ) as Record<keyof typeof FBO_FIELDS, number>;
+  const netIdx = resolveHeaderIndex(header, ["Net Charge Amount"]);
+  const transIdx = resolveHeaderIndex(header, ["Transportation Charge Amount"]);
+  const dimIdx = ["Dim Length", "Dim Width", "Dim Height"].map((h) => resolveHeaderIndex(header, [h]));
+
+  return (r: string[], { shipments, lines }: FedexDetail) => {
+    const cell = (i: number) => (i >= 0 ? String(r[i] ?? "").trim() : "");
+    const s = Object.fromEntries((Object.keys(col) as (keyof typeof col)[]).map((k) => [k, cell(col[k])])) as unknown as FedexShipment;
+    if (!s.tracking) return;
+    if (dimIdx.every((i) => i >= 0)) s.dimensions = dimIdx.map(cell).join("x");
+    s.netCharge = cleanMoney(cell(netIdx));
+    s.transportationCharge = cleanMoney(cell(transIdx));
+    shipments.push(s);
+
+    const own: FedexChargeLine[] = [];
+    if (s.transportationCharge) own.push({ tracking: s.tracking, invoiceNumber: s.invoiceNumber, description: "Transportation Charge", amount: s.transportationCharge });
+    descIdx.forEach((d, n) => {
+      const description = cell(d); const amount = cleanMoney(cell(amtIdx[n] ?? -1));
+      if (description && amount) own.push({ tracking: s.tracking, invoiceNumber: s.invoiceNumber, description, amount });
+    });
+    lines.push(...balance(s, own));
+  };
+}
+
+// Keep line totals equal to the invoice's net charge so summed billing never drifts
+function balance(s: FedexShipment, own: FedexChargeLine[]) {
+  const sum = own.reduce((a, l) => a + l.amount, 0);
+  const gap = Number((s.netCharge - sum).toFixed(2));
+  if (s.netCharge && Math.abs(gap) > 0.01) own.push({ tracking: s.tracking, invoiceNumber: s.invoiceNumber, description: "Unitemized (net vs charge lines)", amount: gap });
+  return own;
+}
+
+// ---- EDI 210 (X12 Motor Carrier Freight Details and Invoice) ----
+
+export function looksLikeEdi(raw: string) {
+  return /^\s*ISA/.test(raw);
+}
+
+const ediAmount = (s: string) => (s ? Number(s) / 100 : 0); // N2: two implied decimals
+
+// Segment separator from the fixed-width ISA header (106 characters), element separator from its 4th
+function separators(text: string) {
+  const segment = text.charAt(105);
+  return { element: text.charAt(3) || "*", segment: segment && !/[A-Z0-9]/i.test(segment) ? segment : "~" };
+}
+
+// Reads the interchange as text arrives; a segment cut at a chunk boundary waits for the next chunk.
+// Each push returns the shipments completed so far.
+export function createEdi210Reader() {
+  let buf = "";
+  let sep: ReturnType<typeof separators> | null = null;
+  let out: FedexDetail = { shipments: [], lines: [] };
+  let cur: FedexShipment | null = null;
+  let own: FedexChargeLine[] = [];
+  let party = "";
+
+  const flush = () => {
+    const done = cur as FedexShipment | null;
+    if (done && done.tracking) {
+      // L1 lines can precede the N9*2I tracking segment
+      own.forEach((l) => { if (!l.tracking) l.tracking = done.tracking; });
+      out.shipments.push(done); out.lines.push(...balance(done, own));
+    }
+    cur = null; own = []; party = "";
+  };
+
+  const segment = (raw: string) => {
+    const seg = raw.replace(/[\r\n]/g, "").trim();
+    if (!seg) return;
+    const el = seg.split(sep!.element);
+    const e = (i: number) => String(el[i] ?? "").trim();
+    switch (el[0]) {
+      case "ST":
+        flush();
+        if (e(1) !== "210") return;
+        cur = {
+          tracking: "", invoiceNumber: "", invoiceDate: "", service: "", shipDate: "", podDate: "", podTime: "",
+          netCharge: 0, transportationCharge: 0, ratedWeight: "", actualWeight: "", weightUnit: "", dimensions: "", zone: "",
+          shipperPostal: "", recipientName: "", recipientCompany: "", recipientAddress: "", recipientCity: "",
+          recipientState: "", recipientPostal: "", recipientCountry: "",
+        };
+        return;
+      case "SE":
+        flush();
+        return;
+    }
+    if (!cur) return;
+    const s: FedexShipment = cur;
+    switch (el[0]) {
+      case "B3": // B302 invoice #, B303 shipment id (tracking), B306 invoice date, B307 net amount due
+        s.invoiceNumber = e(2); s.tracking = s.tracking || e(3); s.invoiceDate = ediDate(e(6)); s.netCharge = ediAmount(e(7));
+        break;
+      case "N9": // 2I = tracking number, ZZ/SV = service
+        if (e(1) === "2I" && e(2)) s.tracking = e(2);
+        if ((e(1) === "SV" || e(1) === "ZZ") && e(2)) s.service = e(3) || e(2);
+        break;
+      case "G62": // 86 actual ship, 35 delivered
+        if (e(1) === "86" || e(1) === "11") s.shipDate = ediDate(e(2));
+        if (e(1) === "35") { s.podDate = ediDate(e(2)); s.podTime = ediTime(e(4)); }
+        break;
+      case "N1":
+        party = e(1);
+        if (party === "CN" || party === "ST") s.recipientName = e(2);
+        break;
+      case "N3":
+        if (party === "CN" || party === "ST") s.recipientAddress = e(1);
+        break;
+      case "N4":
+        if (party === "SH") s.shipperPostal = e(3);
+        if (party === "CN" || party === "ST") { s.recipientCity = e(1); s.recipientState = e(2); s.recipientPostal = e(3); s.recipientCountry = e(4); }
+        break;
+      case "L0": // L004 billed weight, L005 weight qualifier, L011 weight unit
+        s.ratedWeight = e(4); s.weightUnit = e(11) || s.weightUnit;
+        break;
+      case "L1": { // L104 charge (N2), L108 special charge code, L112 description
+        const amount = ediAmount(e(4));
+        const description = e(12) || e(8) || "Charge";
+        if (amount) own.push({ tracking: s.tracking, invoiceNumber: s.invoiceNumber, description, amount });
+        if (!s.transportationCharge && (e(8) === "" || /^(400|FRT)$/i.test(e(8)))) s.transportationCharge = amount;
+        break;
+      }
+      case "L3": // L305 total charges when B307 is absent
+        if (!s.netCharge) s.netCharge = ediAmount(e(5));
+        break;
+    }
+  };
+
+  const drain = () => {
+    const done = out;
+    out = { shipments: [], lines: [] };
+    return done;
+  };
+
+  return {
+    push(text: string): FedexDetail {
+      buf += text;
+      if (!sep) {
+        buf = buf.replace(/^\s+/, "");
+        if (buf.length < 106) return drain();
+        sep = separators(buf);
+      }
+      const parts = buf.split(sep.segment);
+      buf = parts.pop() ?? "";
+      parts.forEach(segment);
+      return drain();
+    },
+    end(): FedexDetail {
+      sep ??= separators(buf);
+      buf.split(sep.segment).forEach(segment);
+      buf = "";
+      flush();
+      return drain();
+    },
+  };
+}
+
+// CCYYMMDD as MM/dd/yyyy, the layout FBO exports use
+function ediDate(s: string) {
+  const m = s.match(/^(\d{4})(\d{2})(\d{2})$/);
+  return m ? `${m[2]}/${m[3]}/${m[1]}` : s;
+}
+
+function ediTime(s: string) {
+  const m = s.match(/^(\d{2})(\d{2})/);
+  return m ? `${m[1]}:${m[2]}` : "";
+}
+
+// One named row per charge line in the FedEx adapter's vocabulary; the first line of each
+// shipment carries the service/POD fields so the late-delivery check sees it once.
+// Pass the same `seen` set for every chunk of one file.
+export function fedexDetailToRows({ shipments, lines }: FedexDetail, seen = new Set<string>()): Row[] {
+  const byTracking = new Map(shipments.map((s) => [s.tracking, s]));
+  return lines.map((l) => {
+    const s = byTracking.get(l.tracking);
+    const first = !seen.has(l.tracking); seen.add(l.tracking);
+    return {
+      "Express or Ground Tracking ID": l.tracking,
+      "Invoice Number": l.invoiceNumber,
+      "Invoice Date": s?.invoiceDate ?? "",
+      "Service Type": first ? s?.service ?? "" : "",
+      "Shipment Date": s?.shipDate ?? "",
+      "POD Delivery Date": first ? s?.podDate ?? "" : "",
+      "POD Delivery Time": first ? s?.podTime ?? "" : "",
+      "Charge Description": l.description,
+      "Charge Amount": l.amount.toFixed(2),
+      "Transportation Charge Amount": first && s?.transportationCharge ? s.transportationCharge.toFixed(2) : "",
+      "Entered Weight": s?.actualWeight ?? "",
+      "Billed Weight": s?.ratedWeight ?? "",
+      "Weight Unit": s?.weightUnit ?? "",
+      "Package Dimensions": s?.dimensions ?? "",
+      "Zone": s?.zone ?? "",
+      "Sender Postal": s?.shipperPostal ?? "",
+      "Receiver Name": s?.recipientName ?? "",
+      "Receiver Company Name": s?.recipientCompany ?? "",
+      "Receiver Address Line 1": s?.recipientAddress ?? "",
+      "Receiver City": s?.recipientCity ?? "",
+      "Receiver State": s?.recipientState ?? "",
+      "Receiver Postal": s?.recipientPostal ?? "",
+      "Receiver Country": s?.recipientCountry ?? "",
+    };
+  });
+}
@@ -0,0 +1,72 @@
+// lib/carriers/fedex.ts
+import { defineCarrier } from "./shared";
+
+export const fedex = defineCarrier({
+  id: "FedEx",
+  name: "FedEx",
+  columns: {
+    tracking: ["Express or Ground Tracking ID", "Tracking ID", "TrackingNumber", "Tracking Number", "Tracking #"],
+    invoice: ["Invoice Number", "Invoice #"],
+    invoiceDate: ["Invoice Date"],
+    service: ["Service Type"],
+    shipDate: ["Shipment Date", "Ship Date"],
+    podDate: ["POD Delivery Date", "Delivery Date"],
+    podTime: ["POD Delivery Time", "Delivery Time"],
+    netCharge: ["Net Charge Amount", "Transportation Charge Amount"],
+    billedCharge: ["Net Charge Amount", "Charge Amount"], // per-line amount in FBO detail / EDI 210 conversions
+    zone: ["Zone Code", "Pricing Zone", "Zone"],
+    billedWeight: ["Rated Weight Amount", "Billed Weight", "Rated Weight"],
+    enteredWeight: ["Actual Weight Amount", "Original Weight Amount", "Entered Weight"],
+    dimensions: ["Package Dimensions", "Dimensions"],
+    originPostal: ["Shipper Zip Code", "Shipper Postal Code", "Sender Postal"],
+    destPostal: ["Recipient Zip Code", "Recipient Postal Code", "Receiver Postal"],
+    destState: ["Recipient State", "Receiver State"],
+    destCountry: ["Recipient Country/Territory", "Recipient Country", "Receiver Country"],
+    recipientName: ["Recipient Name", "Receiver Name"],
+    recipientCompany: ["Recipient Company", "Receiver Company Name"],
+    recipientAddress: ["Recipient Address Line 1", "Recipient Address", "Receiver Address Line 1"],
+  },
+  signature: {
+    headers: [/express\s*or\s*ground\s*tracking\s*id/i, /^pod\s*delivery\s*date$/i, /^net\s*charge\s*amount$/i, /^service\s*type$/i, /tracking\s*id\s*charge\s*description/i],
+    tracking: /^(\d{12}|\d{15}|\d{20}|\d{22})$/,
+  },
+  // FedEx Service Guide: Additional Handling and Oversize (90 lb minimum billable weight)
+  packageRules: {
+    dimDivisor: 139,
+    handling: { longest: 48, second: 30, lengthGirth: 105, weight: 50, charge: /additional\s*handling/i },
+    largePackage: { longest: 96, lengthGirth: 130, minBillable: 90, charge: /oversize|large\s*package/i },
+  },
+  playbook: {
+    portal: "FedEx Billing Online (fedex.com)",
+    windowDays: 180,
+    steps: [
+      "Log in to fedex.com and open FedEx Billing Online.",
+      "Go to the Invoices tab and search for the invoice number.",
+      "Open the invoice and tick the tracking ID you want to dispute.",
+      "Click Dispute.",
+      "Choose the dispute type and enter the amount you believe is correct.",
+      "Add a short description and attach proof if you have it.",
+      "Submit and note the dispute number FedEx shows.",
+    ],
+    historySteps: [
+      "In FedEx Billing Online, open the Disputes tab.",
+      "Filter by date or status (Open, Approved, Denied).",
+      "Approved credits also appear as credit lines on a later invoice.",
+    ],
+    requiredFields: ["Invoice Number", "Tracking ID", "Dispute type", "Disputed amount", "Description"],
+    reasons: {
+      overbilled: { code: "FDX-RATE", label: "Rate/charges incorrect" },
+      residential: { code: "FDX-RES", label: "Residential surcharge incorrect" },
+      duplicate: { code: "FDX-DUP", label: "Duplicate billing" },
+      addressCorrection: { code: "FDX-ADDR", label: "Address correction fee incorrect" },
+      fuel: { code: "FDX-FUEL", label: "Fuel surcharge incorrect" },
+      late: { code: "FDX-MBG", label: "Money-back guarantee (late delivery)" },
+    },
+  },
+  rules: {
+    "FEDEX PRIORITY OVERNIGHT": { days: 1, cutoff: "10:30" },
+    "FEDEX STANDARD OVERNIGHT": { days: 1, cutoff: "15:00" },
+    "FEDEX 2DAY": { days: 2, cutoff: "20:00" },
+    "FEDEX EXPRESS SAVER": { days: 3, cutoff: "20:00" },
+  },
+});
@@ -0,0 +1,35 @@
+// lib/carriers/index.ts — carrier registry
+// Adding a carrier: write an adapter file next to ups.ts and list it in CARRIERS.
+import { ups } from "./ups";
+import { fedex } from "./fedex";
+import { dhl } from "./dhl";
+import { usps } from "./usps";
+import type { CarrierAdapter, CarrierId } from "./types";
+
+export type {
+  CarrierAdapter, CarrierColumns, CarrierId, DisputeFinding, DisputePlaybook, DisputeReason, FileSignature, PackageRules, Row, ServiceRule,
+  SizeThresholds, SurchargePattern,
+} from "./types";
+export { SURCHARGE_KEYWORDS, defineCarrier } from "./shared";
+
+export const CARRIERS: readonly CarrierAdapter[] = [ups, fedex, dhl, usps];
+
+// Run a POS tracking value through every carrier's normalizer (each only rewrites its own format)
+export function normalizeAnyTracking(s: string) {
+  return CARRIERS.reduce((t, c) => c.normalizeTracking(t), s.trim());
+}
+
+export function getCarrier(id: CarrierId): CarrierAdapter {
+  const hit = CARRIERS.find((c) => c.id === id);
+  if (!hit) throw new Error(`Unknown carrier: ${id}`);
+  return hit;
+}
+
+// Every tracking alias any carrier knows about, for mixed or unlabelled files
+export const CARRIER_KEYS: readonly string[] = Array.from(
+  new Set([
+    "TrackingNumber", "Tracking Number", "Tracking #", "Tracking ID", "Waybill", "Air Waybill", "AWB", "Shipment Number",
+    "Tracking", "Express or Ground Tracking ID", "Tracking Number 1", "Package Tracking Number",
+    ...CARRIERS.flatMap((c) => c.columns.tracking),
+  ])
+);
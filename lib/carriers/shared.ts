@@ -0,0 +1,28 @@
+// lib/carriers/shared.ts — defaults shared by carrier adapters
+import { cleanMoney, tryParseDate } from "@/lib/parse";
+import type { CarrierAdapter, SurchargePattern } from "./types";
+
+export const SURCHARGE_KEYWORDS: readonly SurchargePattern[] = [
+  { kw: /address\s*correction/i, label: "Address Correction Fee" },
+  { kw: /residential/i, label: "Residential Surcharge" },
+  { kw: /saturday/i, label: "Saturday Delivery Surcharge" },
+  { kw: /delivery\s*area/i, label: "Delivery Area Surcharge" },
+  { kw: /additional\s*handling/i, label: "Additional Handling" },
+  { kw: /oversize|large\s*package/i, label: "Oversize/Large Package" },
+  { kw: /fuel\s*surcharge/i, label: "Fuel Surcharge" },
+];
+
+type Defaulted = "surcharges" | "parseMoney" | "parseDate" | "normalizeTracking" | "isAdjustment";
+type AdapterSpec = Omit<CarrierAdapter, Defaulted> & Partial<Pick<CarrierAdapter, Defaulted>>;
+
+// Fill in the defaults so an adapter file only declares what is carrier-specific
+export function defineCarrier(spec: AdapterSpec): CarrierAdapter {
+  return {
+    surcharges: SURCHARGE_KEYWORDS,
+    parseMoney: cleanMoney,
+    parseDate: tryParseDate,
+    normalizeTracking: (s) => s,
+    isAdjustment: () => false,
+    ...spec,
+  };
+}
@@ -0,0 +1,85 @@
+// lib/carriers/types.ts — carrier adapter contract
+
+export type Row = Record<string, any>;
+
+export type CarrierId = "UPS" | "FedEx" | "DHL" | "USPS";
+
+// Days in transit + delivery cutoff ("HH:mm", destination local); saturday = Saturdays count as delivery days
+export type ServiceRule = { days: number; cutoff: string; saturday?: boolean };
+
+export type SurchargePattern = { kw: RegExp; label: string };
+
+// Header aliases per logical field, tried in order (exact, then normalized)
+export type CarrierColumns = {
+  tracking: readonly string[];
+  invoice: readonly string[];
+  invoiceDate: readonly string[];
+  service: readonly string[];
+  shipDate: readonly string[];
+  podDate: readonly string[];
+  podTime: readonly string[];
+  netCharge: readonly string[];
+  billedCharge: readonly string[];
+  zone: readonly string[];
+  billedWeight: readonly string[];
+  enteredWeight: readonly string[];
+  dimensions: readonly string[]; // "L x W x H" in one column; separate L/W/H columns are read too
+  originPostal: readonly string[]; // sender ZIP, for the zone chart the shipment is rated from
+  // Destination address, for the time zone commitments are measured in
+  destPostal: readonly string[];
+  destState: readonly string[];
+  destCountry: readonly string[];
+  // Recipient, for telling residential from commercial deliveries
+  recipientName: readonly string[];
+  recipientCompany: readonly string[];
+  recipientAddress: readonly string[];
+};
+
+// What the audit found on a shipment, used to pick the carrier's dispute reason
+export type DisputeFinding = "overbilled" | "adjustment" | "residential" | "duplicate" | "addressCorrection" | "fuel" | "late" | "dimensions" | "zone" | "deliveryArea";
+
+// Reason as worded in the carrier's dispute form; code is ours, for exports and packets
+export type DisputeReason = { code: string; label: string };
+
+export type DisputePlaybook = {
+  portal: string;                       // where disputes are filed
+  steps: readonly string[];             // how to file one
+  historySteps: readonly string[];      // where outcomes and refunds show up
+  windowDays: number;                   // days after the invoice date a dispute is still accepted
+  requiredFields: readonly string[];    // what the form asks for
+  reasons: Partial<Record<DisputeFinding, DisputeReason>>;
+};
+
+// Size limits in inches / lb; a package past any one of them qualifies
+export type SizeThresholds = { longest?: number; second?: number; lengthGirth?: number; weight?: number };
+
+// How the carrier turns dimensions into billable weight and handling surcharges
+export type PackageRules = {
+  dimDivisor: number;         // cubic inches per DIM pound
+  dimMinCubicInches?: number; // DIM weight only applies above this volume
+  handling?: SizeThresholds & { charge: RegExp };
+  largePackage?: SizeThresholds & { charge: RegExp; minBillable?: number };
+};
+
+// Header fingerprint used to recognise a file without asking the user
+export type FileSignature = {
+  headers: readonly RegExp[];
+  tracking?: RegExp;
+};
+
+export type CarrierAdapter = {
+  id: CarrierId;
+  name: string;
+  columns: CarrierColumns;
+  signature: FileSignature;
+  rules: Record<string, ServiceRule>;
+  surcharges: readonly SurchargePattern[];
+  playbook: DisputePlaybook;
+  packageRules: PackageRules;
+  parseMoney: (x: any) => number;
+  parseDate: (s: string) => Date | null;
+  // Canonical form of a tracking number, so invoice and POS spellings match
+  normalizeTracking: (s: string) => string;
+  // Post-shipment adjustment line (e.g. USPS APV); counted in the billed total and called out
+  isAdjustment: (r: Row) => boolean;
+};
@@ -0,0 +1,59 @@
+// lib/carriers/ups-billing-data.test.ts — headerless UPS Billing Data files
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getConverter } from "@/lib/convert";
+import { UPS_BILLING_DATA_LAYOUT as L, chargeLinesToRows, groupByPackage, looksLikeUpsBillingData, parseUpsBillingData } from "@/lib/carriers/ups-billing-data";
+
+type Field = keyof typeof L;
+
+// One 250-column charge line with the given fields at their spec positions
+function line(fields: Partial<Record<Field, string>>) {
+  const r = Array<string>(250).fill("");
+  r[L.version - 1] = "2.1";
+  (Object.keys(fields) as Field[]).forEach((k) => { r[L[k] - 1] = fields[k]!; });
+  return r;
+}
+
+const TRACKING = "1Z999AA10123456784";
+const freight = line({
+  invoiceNumber: "INV1", invoiceDate: "2024-01-08", transactionDate: "2024-01-04", trackingNumber: TRACKING, leadShipmentNumber: TRACKING,
+  chargeClassificationCode: "FRT", chargeDescription: "Ground", netAmount: "12.40", incentiveAmount: "-3.10", billedWeight: "5", zone: "004",
+  receiverPostal: "10001",
+});
+const resi = line({ invoiceNumber: "INV1", trackingNumber: TRACKING, chargeClassificationCode: "ACC", chargeDescription: "Residential Surcharge", netAmount: "5.15" });
+const fuel = line({ invoiceNumber: "INV1", leadShipmentNumber: "1Z999AA10123456791", chargeDescription: "Fuel Surcharge", netAmount: "1.80" });
+
+test("Billing Data is recognised by its width, version column and 1Z numbers", () => {
+  assert.ok(looksLikeUpsBillingData([freight, resi, fuel]));
+  assert.ok(!looksLikeUpsBillingData([["Tracking Number", "Billed Charge"], [TRACKING, "1.00"]]));
+  const bad = [...freight]; bad[L.version - 1] = "Version";
+  assert.ok(!looksLikeUpsBillingData([bad]));
+});
+
+test("charge lines group per package, shipment-level lines under the lead shipment number", () => {
+  const lines = parseUpsBillingData([freight, resi, fuel, ["too", "short"]]);
+  assert.equal(lines.length, 3);
+  assert.equal(lines[0].incentive, -3.1);
+  const pkgs = groupByPackage(lines);
+  assert.deepEqual(pkgs.map((p) => [p.tracking, p.lines.length, Number(p.net.toFixed(2))]), [[TRACKING, 2, 17.55], ["1Z999AA10123456791", 1, 1.8]]);
+  assert.deepEqual(parseUpsBillingData([line({ chargeDescription: "No tracking" })]), []);
+});
+
+test("rows use the UPS adapter's headers; only the freight line carries service and transportation", () => {
+  const [f, r] = chargeLinesToRows(parseUpsBillingData([freight, resi]));
+  assert.equal(f["Service"], "UPS Ground");
+  assert.equal(f["Transportation Charges"], "12.40");
+  assert.equal(f["Charge Amount"], "12.40");
+  assert.equal(r["Service"], "");
+  assert.equal(r["Transportation Charges"], "");
+  assert.equal(r["Charge Description"], "Residential Surcharge");
+});
+
+test("the converter turns streamed grids into rows", () => {
+  const c = getConverter("ups-billing-data");
+  assert.equal(c.input, "grid");
+  if (c.input !== "grid") return;
+  const t = c.create();
+  const rows = [...t.push([freight]), ...t.push([resi, fuel]), ...t.end()];
+  assert.deepEqual(rows.map((row) => row["Tracking Number"]), [TRACKING, TRACKING, "1Z999AA10123456791"]);
+});
@@ -0,0 +1,145 @@
+// lib/carriers/ups-billing-data.ts — UPS "Billing Data" detail file (headerless, fixed column positions)
+import { cleanMoney } from "@/lib/parse";
+import type { Row } from "./types";
+
+// 1-based positions from the UPS Billing Data File specification (v2.1, 250 columns)
+export const UPS_BILLING_DATA_LAYOUT = {
+  version: 1,
+  accountNumber: 3,
+  invoiceDate: 5,
+  invoiceNumber: 6,
+  invoiceAmount: 11,
+  transactionDate: 12,
+  leadShipmentNumber: 14,
+  shipmentReference1: 16,
+  packageQuantity: 19,
+  trackingNumber: 21,
+  enteredWeight: 27,
+  enteredWeightUnit: 28,
+  billedWeight: 29,
+  billedWeightUnit: 30,
+  billedWeightType: 32,
+  packageDimensions: 33,
+  zone: 34,
+  chargeCategoryCode: 35,
+  chargeCategoryDetailCode: 36,
+  chargeClassificationCode: 44,
+  chargeDescriptionCode: 45,
+  chargeDescription: 46,
+  incentiveAmount: 52,
+  netAmount: 53,
+  senderName: 67,
+  senderCompanyName: 68,
+  senderAddressLine1: 69,
+  senderCity: 71,
+  senderState: 72,
+  senderPostal: 73,
+  senderCountry: 74,
+  receiverName: 75,
+  receiverCompanyName: 76,
+  receiverAddressLine1: 77,
+  receiverAddressLine2: 78,
+  receiverCity: 79,
+  receiverState: 80,
+  receiverPostal: 81,
+  receiverCountry: 82,
+} as const;
+
+const MIN_COLUMNS = 200;
+
+export type UpsChargeLine = { -readonly [K in keyof typeof UPS_BILLING_DATA_LAYOUT]: string } & {
+  incentive: number;
+  net: number;
+};
+
+export type UpsPackage = {
+  tracking: string;
+  leadShipmentNumber: string;
+  invoiceNumber: string;
+  lines: UpsChargeLine[];
+  net: number;
+};
+
+// Headerless, ~250 columns, numeric version in col 1 and a 1Z number in the tracking column
+export function looksLikeUpsBillingData(grid: string[][]) {
+  const rows = grid.filter((r) => r.length >= MIN_COLUMNS).slice(0, 5);
+  if (!rows.length) return false;
+  const cell = (r: string[], k: keyof typeof UPS_BILLING_DATA_LAYOUT) => String(r[UPS_BILLING_DATA_LAYOUT[k] - 1] ?? "").trim();
+  return rows.every((r) =>
+    /^\d+(\.\d+)?$/.test(cell(r, "version")) &&
+    /^1Z[0-9A-Z]{16}$/i.test(cell(r, "trackingNumber") || cell(r, "leadShipmentNumber"))
+  );
+}
+
+export function parseUpsBillingData(grid: string[][]): UpsChargeLine[] {
+  const out: UpsChargeLine[] = [];
+  grid.forEach((r) => {
+    if (r.length < MIN_COLUMNS) return;
+    const line = {} as UpsChargeLine;
+    (Object.keys(UPS_BILLING_DATA_LAYOUT) as (keyof typeof UPS_BILLING_DATA_LAYOUT)[]).forEach((k) => {
+      line[k] = String(r[UPS_BILLING_DATA_LAYOUT[k] - 1] ?? "").trim();
+    });
+    // Shipment-level lines (e.g. a multi-piece fuel charge) carry only the lead shipment number
+    if (!line.trackingNumber) line.trackingNumber = line.leadShipmentNumber;
+    if (!line.trackingNumber) return;
+    line.incentive = cleanMoney(line.incentiveAmount);
+    line.net = cleanMoney(line.netAmount);
+    out.push(line);
+  });
+  return out;
+}
+
+export function groupByPackage(lines: UpsChargeLine[]): UpsPackage[] {
+  const byTracking = new Map<string, UpsPackage>();
+  lines.forEach((l) => {
+    let p = byTracking.get(l.trackingNumber);
+    if (!p) {
+      p = { tracking: l.trackingNumber, leadShipmentNumber: l.leadShipmentNumber, invoiceNumber: l.invoiceNumber, lines: [], net: 0 };
+      byTracking.set(l.trackingNumber, p);
+    }
+    p.lines.push(l);
+    p.net += l.net;
+  });
+  return Array.from(byTracking.values());
+}
+
+// One named row per charge line, in the header vocabulary the UPS adapter already reads:
+// "Charge Description" / "Charge Amount" pair up for auditBillingIssues, and the freight
+// line carries "Service" and "Transportation Charges" for the late and fuel checks.
+export function chargeLinesToRows(lines: UpsChargeLine[]): Row[] {
+  return lines.map((l) => {
+    const freight = l.chargeClassificationCode === "FRT";
+    return {
+      "Tracking Number": l.trackingNumber,
+      "Lead Shipment Number": l.leadShipmentNumber,
+      "Invoice Number": l.invoiceNumber,
+      "Invoice Date": l.invoiceDate,
+      "Account Number": l.accountNumber,
+      "Ship Date": l.transactionDate,
+      "Service": freight ? `UPS ${l.chargeDescription}` : "",
+      "Charge Category": l.chargeCategoryCode,
+      "Charge Classification": l.chargeClassificationCode,
+      "Charge Code": l.chargeDescriptionCode,
+      "Charge Description": l.chargeDescription,
+      "Charge Amount": l.net.toFixed(2),
+      "Incentive": l.incentive.toFixed(2),
+      "Transportation Charges": freight ? l.net.toFixed(2) : "",
+      "Entered Weight": l.enteredWeight,
+      "Billed Weight": l.billedWeight,
+      "Weight Unit": l.billedWeightUnit || l.enteredWeightUnit,
+      "Billed Weight Type": l.billedWeightType,
+      "Package Dimensions": l.packageDimensions,
+      "Zone": l.zone,
+      "Sender Postal": l.senderPostal,
+      "Sender Country": l.senderCountry,
+      "Receiver Name": l.receiverName,
+      "Receiver Company Name": l.receiverCompanyName,
+      "Receiver Address Line 1": l.receiverAddressLine1,
+      "Receiver Address Line 2": l.receiverAddressLine2,
+      "Receiver City": l.receiverCity,
+      "Receiver State": l.receiverState,
+      "Receiver Postal": l.receiverPostal,
+      "Receiver Country": l.receiverCountry,
+    };
+  });
+}
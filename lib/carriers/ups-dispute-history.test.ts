@@ -0,0 +1,64 @@
+// lib/carriers/ups-dispute-history.test.ts — applying UPS dispute outcomes to tracked disputes
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { outcomeStatus, type UpsDisputeOutcome } from "@/lib/carriers/ups-dispute-history";
+import { applyDisputeHistory, applyStatus, recoveryReport, type DisputeTarget } from "@/lib/disputes";
+
+test("UPS wording maps onto the dispute lifecycle; a refund always means credited", () => {
+  assert.equal(outcomeStatus("Denied - charge valid", 0), "denied");
+  assert.equal(outcomeStatus("Not Approved", 0), "denied");
+  assert.equal(outcomeStatus("Approved", 0), "approved");
+  assert.equal(outcomeStatus("Denied", 4.5), "credited");
+  assert.equal(outcomeStatus("In Review", 0), "disputed");
+  assert.equal(outcomeStatus("", 0), "disputed");
+});
+
+const target = (key: string, kind: DisputeTarget["kind"], over: Partial<DisputeTarget> = {}): DisputeTarget => ({
+  key, kind, carrier: "UPS", tracking: "1ZA", invoice: "INV1", description: key, amount: 5, ...over,
+});
+const outcome = (over: Partial<UpsDisputeOutcome>): UpsDisputeOutcome => ({
+  tracking: "1ZA", invoice: "INV1", disputeId: "", status: "disputed", refund: 0, disputed: 5, submitted: "01/10/2024", decided: "", reason: "", ...over,
+});
+
+test("outcomes land on the discrepancy, with the most decisive line and summed refunds", () => {
+  const targets = [target("UPS:1ZA:fee", "charge"), target("UPS:1ZA", "discrepancy")];
+  const { updated, unmatched } = applyDisputeHistory(
+    [outcome({ status: "denied", reason: "Valid" }), outcome({ status: "credited", refund: 2 }), outcome({ status: "credited", refund: 1.5 })],
+    targets, {}, "import"
+  );
+  assert.deepEqual(unmatched, []);
+  assert.equal(updated.length, 1);
+  assert.equal(updated[0].key, "UPS:1ZA");
+  assert.equal(updated[0].status, "credited");
+  assert.equal(updated[0].refund, 3.5);
+  assert.equal(updated[0].disputedOn, "2024-01-10");
+});
+
+test("a known dispute id picks its target, and unchanged disputes are not rewritten", () => {
+  const fee = target("UPS:1ZA:fee", "charge");
+  const existing = { [fee.key]: applyStatus(fee, undefined, { status: "disputed", by: "Sam", disputeId: "D-9" }) };
+  const first = applyDisputeHistory([outcome({ disputeId: "D-9", status: "approved" })], [target("UPS:1ZA", "discrepancy"), fee], existing, "import");
+  assert.deepEqual(first.updated.map((d) => [d.key, d.status]), [["UPS:1ZA:fee", "approved"]]);
+  const again = applyDisputeHistory([outcome({ disputeId: "D-9" })], [fee], existing, "import");
+  assert.deepEqual(again.updated, []);
+});
+
+test("lines for other invoices, trackings or carriers are reported as unmatched", () => {
+  const { updated, unmatched } = applyDisputeHistory(
+    [outcome({ invoice: "INV2" }), outcome({ tracking: "1ZZ" })],
+    [target("UPS:1ZA", "discrepancy"), target("FedEx:1ZZ", "discrepancy", { carrier: "FedEx", tracking: "1ZZ" })],
+    {}, "import"
+  );
+  assert.deepEqual(updated, []);
+  assert.equal(unmatched.length, 2);
+});
+
+test("the recovery report counts every flagged item once", () => {
+  const a = target("UPS:1ZA", "discrepancy"), b = target("UPS:1ZB", "discrepancy", { tracking: "1ZB", amount: 3 });
+  const disputes = {
+    [a.key]: applyStatus(a, undefined, { status: "credited", by: "Sam", refund: 4 }),
+    "UPS:1ZOLD": applyStatus(target("UPS:1ZOLD", "charge", { amount: 2 }), undefined, { status: "denied", by: "Sam" }),
+  };
+  assert.deepEqual(recoveryReport([a, b], disputes), { flaggedCount: 3, flagged: 10, disputedCount: 2, approvedCount: 1, deniedCount: 1, recovered: 4 });
+  assert.deepEqual(recoveryReport([], {}), { flaggedCount: 0, flagged: 0, disputedCount: 0, approvedCount: 0, deniedCount: 0, recovered: 0 });
+});
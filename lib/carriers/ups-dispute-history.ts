@@ -0,0 +1,58 @@
+// lib/carriers/ups-dispute-history.ts — Billing Center "Dispute & Refund History" export
+import { cleanMoney, getVal, parseWithHeaderRow } from "@/lib/parse";
+import type { DisputeStatus } from "@/lib/disputes";
+
+const COLS = {
+  tracking: ["Tracking Number", "Tracking #", "Package Tracking Number"],
+  invoice: ["Invoice Number", "Invoice #"],
+  disputeId: ["Dispute ID", "Dispute Number", "Claim Number", "Request ID", "Case Number"],
+  status: ["Status", "Dispute Status", "Decision", "Resolution"],
+  refund: ["Refund Amount", "Credit Amount", "Adjustment Amount", "Amount Credited", "Refunded Amount"],
+  disputed: ["Disputed Amount", "Dispute Amount", "Amount Disputed"],
+  submitted: ["Date Submitted", "Submitted Date", "Dispute Date", "Request Date"],
+  decided: ["Decision Date", "Resolution Date", "Date Resolved", "Closed Date"],
+  reason: ["Dispute Reason", "Reason", "Decision Reason"],
+} as const;
+
+// The export is prefixed with the account and date-range lines
+const HEADER_HINTS = [/^tracking\s*(number|#)$/i, /^invoice\s*(number|#)$/i, /dispute|claim|request\s*id/i, /status|decision/i, /refund|credit/i];
+
+export type UpsDisputeOutcome = {
+  tracking: string;
+  invoice: string;
+  disputeId: string;
+  status: DisputeStatus;
+  refund: number;
+  disputed: number;
+  submitted: string;
+  decided: string;
+  reason: string;
+};
+
+// UPS wording → our lifecycle; a posted refund means the money is back regardless of wording
+export function outcomeStatus(text: string, refund: number): DisputeStatus {
+  if (refund > 0) return "credited";
+  if (/den(y|ied)|reject|declin|not\s*approved/i.test(text)) return "denied";
+  if (/approv|accept|grant|resolved\s*in\s*favor/i.test(text)) return "approved";
+  return "disputed";
+}
+
+export async function parseUpsDisputeHistory(file: File): Promise<UpsDisputeOutcome[]> {
+  const rows = await parseWithHeaderRow(file, HEADER_HINTS, 3);
+  return rows.flatMap((r) => {
+    const tracking = getVal(r, COLS.tracking).replace(/\s+/g, "").toUpperCase();
+    if (!tracking) return [];
+    const refund = Math.abs(cleanMoney(getVal(r, COLS.refund)));
+    return [{
+      tracking,
+      invoice: getVal(r, COLS.invoice),
+      disputeId: getVal(r, COLS.disputeId),
+      status: outcomeStatus(getVal(r, COLS.status), refund),
+      refund,
+      disputed: Math.abs(cleanMoney(getVal(r, COLS.disputed))),
+      submitted: getVal(r, COLS.submitted),
+      decided: getVal(r, COLS.decided),
+      reason: getVal(r, COLS.reason),
+    }];
+  });
+}
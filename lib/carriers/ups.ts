@@ -0,0 +1,75 @@
+// lib/carriers/ups.ts
+import { defineCarrier } from "./shared";
+
+export const ups = defineCarrier({
+  id: "UPS",
+  name: "UPS",
+  columns: {
+    tracking: ["Tracking Number", "Tracking Number 1", "Package Tracking Number", "Tracking #"],
+    invoice: ["Invoice Number", "Invoice #"],
+    invoiceDate: ["Invoice Date", "Bill Date"],
+    service: ["Service", "Service Level", "Service Code", "Shipment Service"],
+    shipDate: ["Ship Date", "Shipment Date"],
+    podDate: ["Delivery Date", "Actual Delivery Date", "Billed Delivery Date"],
+    podTime: ["Delivery Time", "Actual Delivery Time"],
+    netCharge: ["Net Charges", "Transportation Charges", "Total Charges", "Net Amount"],
+    billedCharge: ["Billed Charge", "Charge Amount"], // col AB of the Billing Center invoice CSV; per-line net in Billing Data
+    zone: ["Zone", "Billed Zone", "Zone Code"],
+    billedWeight: ["Billed Weight", "Billed Weight (lbs)"],
+    enteredWeight: ["Entered Weight", "Actual Weight"],
+    dimensions: ["Package Dimensions", "Dimensions"],
+    originPostal: ["Sender Postal", "Shipper Postal Code", "Ship From Postal Code"],
+    destPostal: ["Receiver Postal", "Receiver Postal Code", "Ship To Postal Code", "Ship To Zip"],
+    destState: ["Receiver State", "Ship To State"],
+    destCountry: ["Receiver Country", "Ship To Country"],
+    recipientName: ["Receiver Name", "Ship To Name", "Ship To Attention"],
+    recipientCompany: ["Receiver Company Name", "Ship To Company", "Ship To Company Name"],
+    recipientAddress: ["Receiver Address Line 1", "Ship To Address", "Ship To Address Line 1"],
+  },
+  signature: {
+    headers: [/^billed\s*charge$/i, /^lead\s*shipment\s*number$/i, /^tracking\s*number$/i, /^invoice\s*number$/i, /^account\s*number$/i],
+    tracking: /^1Z[0-9A-Z]{16}$/i,
+  },
+  rules: {
+    "UPS NEXT DAY AIR": { days: 1, cutoff: "10:30" },
+    "UPS NEXT DAY AIR SAVER": { days: 1, cutoff: "15:00" },
+    "UPS 2ND DAY AIR": { days: 2, cutoff: "20:00" },
+    "UPS 3 DAY SELECT": { days: 3, cutoff: "20:00" },
+  },
+  // Daily-rate DIM divisor; Additional Handling and Large Package per the UPS Rate and Service Guide
+  packageRules: {
+    dimDivisor: 139,
+    handling: { longest: 48, second: 30, lengthGirth: 105, weight: 50, charge: /additional\s*handling/i },
+    largePackage: { longest: 96, lengthGirth: 130, minBillable: 90, charge: /large\s*package/i },
+  },
+  playbook: {
+    portal: "UPS Billing Center (ups.com)",
+    windowDays: 180,
+    steps: [
+      "Log in to ups.com.",
+      "Open the Billing Center from the side dashboard.",
+      "Go to My Invoices.",
+      "Click the blue Invoice Number link for the invoice you want to dispute.",
+      "Find your shipment by the Tracking Number.",
+      "Under ACTION, click the three dots (⋯) and choose Dispute.",
+      "Select your dispute reason and add any comments.",
+      "Click Submit. Dispute Submitted!",
+    ],
+    historySteps: [
+      "In Billing Center, look at the left dashboard.",
+      "Click Dispute & Refund History (just below My Invoices).",
+      "View the status of submitted disputes, decisions, and refunds.",
+      "Use filters (date, invoice) to narrow results.",
+    ],
+    requiredFields: ["Invoice Number", "Tracking Number", "Dispute reason", "Disputed amount", "Comments"],
+    reasons: {
+      overbilled: { code: "UPS-RATE", label: "Incorrect rate / charges" },
+      adjustment: { code: "UPS-ADJ", label: "Shipping charge correction" },
+      residential: { code: "UPS-RES", label: "Residential surcharge applied in error" },
+      duplicate: { code: "UPS-DUP", label: "Duplicate billing" },
+      addressCorrection: { code: "UPS-ADDR", label: "Address correction charge in error" },
+      fuel: { code: "UPS-FUEL", label: "Incorrect fuel surcharge" },
+      late: { code: "UPS-GSR", label: "Late delivery (service guarantee)" },
+    },
+  },
+});
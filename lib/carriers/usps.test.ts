@@ -0,0 +1,42 @@
+// lib/carriers/usps.test.ts — postage exports: IMpb tracking and APV adjustments
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getCarrier, normalizeAnyTracking } from "@/lib/carriers";
+import { addCarrierRow, auditBillingIssues, reconcile, type CarrierMap } from "@/lib/audit";
+import { sniffGrid } from "@/lib/detect";
+
+const usps = getCarrier("USPS");
+const IMPB = "9400111899223100000012";
+
+test("scanned IMpb barcodes lose their 420 + ZIP routing prefix", () => {
+  assert.equal(usps.normalizeTracking(`42010001${IMPB}`), IMPB);
+  assert.equal(usps.normalizeTracking(`420100011234${IMPB}`), IMPB);
+  assert.equal(usps.normalizeTracking("9400 1118 9922 3100 0000 12"), IMPB);
+  assert.equal(normalizeAnyTracking(` 42010001${IMPB} `), IMPB);
+  assert.equal(usps.normalizeTracking("1Z999AA10123456784"), "1Z999AA10123456784"); // other formats pass through
+});
+
+test("APV rows count as adjustments and are flagged", () => {
+  const rows = [
+    { "Tracking Number": `42010001${IMPB}`, "Transaction Type": "Label", Description: "Priority Mail", Amount: "8.00" },
+    { "Tracking Number": IMPB, "Transaction Type": "APV Adjustment", Description: "APV Adjustment", Amount: "3.10" },
+  ];
+  const map: CarrierMap = {};
+  rows.forEach((r) => addCarrierRow(map, r, usps));
+  assert.deepEqual(Object.keys(map), [IMPB]);
+  assert.equal(map[IMPB].adjustments, 3.1);
+
+  const [d] = reconcile(map, { [IMPB]: 11.1 });
+  assert.equal(d.note, "Overbilled"); // adjustments are disputable even when the POS total matches
+
+  const issues = auditBillingIssues(rows, usps);
+  assert.deepEqual(issues.map((i) => i.note), ["USPS Postage Adjustment (APV)"]);
+});
+
+test("a postage export is detected as USPS; a blank tracking row is skipped", () => {
+  const d = sniffGrid([["Date Printed", "Mail Class", "Tracking Number", "PIC", "Postage", "Transaction Type"], ["01/05/2024", "Priority Mail", IMPB, IMPB, "8.00", "Label"]]);
+  assert.equal(d.kind, "USPS");
+  const map: CarrierMap = {};
+  addCarrierRow(map, { "Tracking Number": "  ", Amount: "5.00" }, usps);
+  assert.deepEqual(map, {});
+});
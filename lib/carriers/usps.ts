@@ -0,0 +1,82 @@
+// lib/carriers/usps.ts — postage-provider transaction exports (ePostage, Click-N-Ship, PC Postage)
+import { getVal } from "@/lib/parse";
+import { SURCHARGE_KEYWORDS, defineCarrier } from "./shared";
+
+const TYPE_COLS = ["Transaction Type", "Type", "Description", "Transaction Description"] as const;
+const APV_RX = /\bapv\b|automated\s*package\s*verification|postage\s*adjustment|usps\s*adjustment/i;
+
+// Scanned IMpb barcodes carry a 420 + ZIP routing prefix; labels and POS store the bare 20–22 digits
+function normalizeIMpb(s: string) {
+  const t = s.replace(/\s+/g, "");
+  const m = t.match(/^420\d{5}(?:\d{4})?(9\d{19,21})$/);
+  return m ? m[1] : t;
+}
+
+export const usps = defineCarrier({
+  id: "USPS",
+  name: "USPS",
+  columns: {
+    tracking: ["Tracking Number", "Tracking #", "Tracking ID", "PIC", "IMpb", "Label Number"],
+    invoice: ["Transaction ID", "Transaction Number", "Receipt Number", "Order Number"],
+    invoiceDate: ["Transaction Date", "Adjustment Date", "Date"],
+    service: ["Mail Class", "Class of Service", "Service"],
+    shipDate: ["Date Printed", "Print Date", "Mailing Date", "Ship Date", "Transaction Date"],
+    podDate: ["Delivery Date", "Delivered Date"],
+    podTime: ["Delivery Time"],
+    netCharge: ["Postage Amount", "Total Postage", "Postage", "Amount"],
+    billedCharge: ["Amount", "Postage Amount", "Total Postage", "Postage"],
+    zone: ["Zone", "Postal Zone"],
+    billedWeight: ["Weight", "Billed Weight", "Weight (lbs)", "Rated Weight"],
+    enteredWeight: ["Entered Weight", "Weight"],
+    dimensions: ["Dimensions", "Package Dimensions"],
+    originPostal: ["Origin ZIP", "From ZIP", "Origin ZIP Code"],
+    destPostal: ["Destination ZIP", "Destination ZIP Code", "To ZIP", "Recipient ZIP"],
+    destState: ["Destination State", "To State"],
+    destCountry: ["Destination Country", "To Country"],
+    recipientName: ["Recipient Name", "To Name", "Recipient"],
+    recipientCompany: ["Recipient Company", "To Company", "Company"],
+    recipientAddress: ["Recipient Address", "To Address", "Address 1"],
+  },
+  signature: {
+    headers: [/^mail\s*class$/i, /postage/i, /^(date\s*printed|print\s*date|mailing\s*date)$/i, /^(pic|impb)$/i, /^transaction\s*(type|id)$/i],
+    tracking: /^(420\d{5}(\d{4})?)?9\d{19,21}$/,
+  },
+  // Notice 123: DIM only above one cubic foot; nonstandard length fee past 22"; oversized past 108" length + girth
+  packageRules: {
+    dimDivisor: 166,
+    dimMinCubicInches: 1728,
+    handling: { longest: 22, charge: /non[-\s]*standard/i },
+    largePackage: { lengthGirth: 108, charge: /oversize/i },
+  },
+  playbook: {
+    portal: "Your postage provider (PC Postage / Click-N-Ship)",
+    windowDays: 60,
+    steps: [
+      "Log in to the postage provider that printed the label.",
+      "Open the postage adjustments (APV) list.",
+      "Find the adjustment by tracking number.",
+      "Choose Dispute and enter the weight and dimensions you shipped.",
+      "Attach a photo of the package on the scale if you have one.",
+      "Submit; USPS reviews APV disputes through the provider.",
+    ],
+    historySteps: [
+      "In the provider's adjustments list, filter by Disputed.",
+      "Approved disputes are refunded to your postage balance.",
+    ],
+    requiredFields: ["Tracking Number (IMpb)", "Adjustment transaction ID", "Reason", "Shipped weight and dimensions"],
+    reasons: {
+      adjustment: { code: "USPS-APV", label: "Incorrect weight/dimensions (APV)" },
+      overbilled: { code: "USPS-POSTAGE", label: "Postage charged incorrectly" },
+      late: { code: "USPS-PME", label: "Priority Mail Express late delivery refund" },
+    },
+  },
+  rules: {
+    "PRIORITY MAIL EXPRESS": { days: 2, cutoff: "18:00", saturday: true },
+  },
+  surcharges: [
+    { kw: APV_RX, label: "USPS Postage Adjustment (APV)" },
+    ...SURCHARGE_KEYWORDS,
+  ],
+  normalizeTracking: normalizeIMpb,
+  isAdjustment: (r) => APV_RX.test(getVal(r, TYPE_COLS)),
+});
@@ -0,0 +1,60 @@
+// lib/commitments.test.ts — effective-dated commitment lookup and table validation
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getCarrier } from "@/lib/carriers";
+import { commitmentLookup, entriesFromRules, validateCommitment, type CommitmentEntry } from "@/lib/commitments";
+
+const entry = (over: Partial<CommitmentEntry>): CommitmentEntry => ({
+  id: "x", carrier: "UPS", service: "UPS 2ND DAY AIR", zipFrom: "00000", zipTo: "99999",
+  effectiveFrom: "2024-01-01", days: 2, cutoff: "20:00", ...over,
+});
+
+const ups = getCarrier("UPS");
+const jan = new Date(2024, 0, 10);
+
+test("without a table the adapter's longest matching rule applies", () => {
+  const lookup = commitmentLookup(ups);
+  assert.deepEqual(lookup("UPS Next Day Air Saver", "10001", jan), { service: "UPS NEXT DAY AIR SAVER", days: 1, cutoff: "15:00" });
+  assert.equal(lookup("UPS Ground", "10001", jan), null);
+});
+
+test("the narrowest ZIP range and latest effective entry win", () => {
+  const lookup = commitmentLookup(ups, [
+    entry({ id: "all" }),
+    entry({ id: "west", zipFrom: "90000", zipTo: "96199", days: 3 }),
+    entry({ id: "west-2024-06", zipFrom: "90000", zipTo: "96199", effectiveFrom: "2024-06-01", days: 4 }),
+    entry({ id: "fedex", carrier: "FedEx", days: 9 }),
+  ]);
+  assert.equal(lookup("UPS 2nd Day Air", "10001", jan)?.entry?.id, "all");
+  assert.equal(lookup("UPS 2nd Day Air", "90210-1234", jan)?.entry?.id, "west");
+  assert.equal(lookup("UPS 2nd Day Air", "90210", new Date(2024, 6, 1))?.days, 4);
+  assert.equal(lookup("UPS 2nd Day Air", "", jan)?.entry?.id, "all"); // no usable ZIP: all-ZIP entries only
+});
+
+test("entries outside their effective window fall back to the rules", () => {
+  const lookup = commitmentLookup(ups, [entry({ effectiveFrom: "2024-02-01", effectiveTo: "2024-02-29", days: 5 })]);
+  assert.equal(lookup("UPS 2nd Day Air", "10001", jan)?.entry, undefined);
+  assert.equal(lookup("UPS 2nd Day Air", "10001", new Date(2024, 1, 29))?.days, 5);
+});
+
+test("an invalid ship date has no commitment instead of throwing", () => {
+  const lookup = commitmentLookup(ups, [entry({})]);
+  assert.equal(lookup("UPS 2nd Day Air", "10001", new Date(NaN)), null);
+});
+
+test("validateCommitment reports each bad field", () => {
+  assert.deepEqual(validateCommitment(entry({})), []);
+  assert.deepEqual(
+    validateCommitment(entry({ service: " ", zipFrom: "9", effectiveFrom: "1/1/2024", days: 1.5, cutoff: "25:00" })),
+    ["Service is required", "ZIPs must be 5 digits", "Effective From must be yyyy-MM-dd", "Days must be a whole number", "Cutoff must be HH:mm"]
+  );
+  assert.deepEqual(validateCommitment(entry({ zipFrom: "20000", zipTo: "10000", effectiveTo: "2023-12-31" })), [
+    "ZIP From is after ZIP To", "Effective To is before Effective From",
+  ]);
+});
+
+test("entriesFromRules turns the flat rules into valid all-ZIP entries", () => {
+  const rows = entriesFromRules(ups, "2024-01-01");
+  assert.equal(rows.length, Object.keys(ups.rules).length);
+  assert.ok(rows.every((e) => e.zipFrom === "00000" && e.zipTo === "99999" && validateCommitment(e).length === 0));
+});
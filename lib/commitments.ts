@@ -0,0 +1,146 @@
+// lib/commitments.ts — effective-dated service commitments by destination ZIP range
+// Entries override the adapter's flat `rules`; shipments no entry covers fall back to them.
+import * as Papa from "papaparse";
+import { format } from "date-fns";
+import { CARRIERS, type CarrierAdapter, type CarrierId, type ServiceRule } from "@/lib/carriers";
+
+export type CommitmentEntry = {
+  id: string;
+  carrier: CarrierId;
+  service: string;        // matched like a rule key: contained in the upper-cased invoice service
+  zipFrom: string;        // 5-digit destination ZIP range, inclusive
+  zipTo: string;
+  effectiveFrom: string;  // yyyy-MM-dd, by ship date
+  effectiveTo?: string;   // yyyy-MM-dd inclusive; open-ended when unset
+  days: number;
+  cutoff: string;         // "HH:mm" destination local
+  saturday?: boolean;
+};
+
+export type Commitment = ServiceRule & { service: string; entry?: CommitmentEntry };
+
+const ALL_ZIPS = { zipFrom: "00000", zipTo: "99999" };
+
+const zipSpan = (e: CommitmentEntry) => Number(e.zipTo) - Number(e.zipFrom);
+const isAllZips = (e: CommitmentEntry) => e.zipFrom === ALL_ZIPS.zipFrom && e.zipTo === ALL_ZIPS.zipTo;
+
+// Most specific entry wins: longest service key, then narrowest ZIP range, then latest effective date
+function moreSpecific(a: CommitmentEntry, b: CommitmentEntry) {
+  return (
+    b.service.length - a.service.length ||
+    zipSpan(a) - zipSpan(b) ||
+    b.effectiveFrom.localeCompare(a.effectiveFrom)
+  );
+}
+
+// Commitment finder for one carrier; built once per file so the table is filtered and sorted once
+export function commitmentLookup(carrier: CarrierAdapter, table: CommitmentEntry[] = []) {
+  const entries = table.filter((e) => e.carrier === carrier.id).sort(moreSpecific);
+  const ruleKeys = Object.keys(carrier.rules).sort((a, b) => b.length - a.length);
+
+  return (serviceRaw: string, destPostal: string, shipped: Date): Commitment | null => {
+    if (isNaN(shipped.getTime())) return null; // no ship date, no effective-dated commitment to judge
+    const service = serviceRaw.toUpperCase();
+    const zip = destPostal.replace(/\D/g, "").slice(0, 5);
+    const day = format(shipped, "yyyy-MM-dd");
+    const hit = entries.find((e) =>
+      service.includes(e.service.toUpperCase()) &&
+      (zip.length === 5 ? zip >= e.zipFrom && zip <= e.zipTo : isAllZips(e)) &&
+      day >= e.effectiveFrom && (!e.effectiveTo || day <= e.effectiveTo)
+    );
+    if (hit) return { service: hit.service, days: hit.days, cutoff: hit.cutoff, saturday: hit.saturday, entry: hit };
+    const key = ruleKeys.find((k) => service.includes(k));
+    return key ? { service: key, ...carrier.rules[key] } : null;
+  };
+}
+
+export function newCommitmentId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// The adapter's flat rules as table rows, as a starting point for editing
+export function entriesFromRules(carrier: CarrierAdapter, effectiveFrom: string): CommitmentEntry[] {
+  return Object.entries(carrier.rules).map(([service, r]) => ({
+    id: newCommitmentId(), carrier: carrier.id, service, ...ALL_ZIPS, effectiveFrom, days: r.days, cutoff: r.cutoff, saturday: r.saturday,
+  }));
+}
+
+// Problems with one entry, worded for the editor; empty when valid
+export function validateCommitment(e: CommitmentEntry): string[] {
+  const errs: string[] = [];
+  if (!e.service.trim()) errs.push("Service is required");
+  if (!/^\d{5}$/.test(e.zipFrom) || !/^\d{5}$/.test(e.zipTo)) errs.push("ZIPs must be 5 digits");
+  else if (e.zipFrom > e.zipTo) errs.push("ZIP From is after ZIP To");
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(e.effectiveFrom)) errs.push("Effective From must be yyyy-MM-dd");
+  if (e.effectiveTo && !/^\d{4}-\d{2}-\d{2}$/.test(e.effectiveTo)) errs.push("Effective To must be yyyy-MM-dd");
+  else if (e.effectiveTo && e.effectiveTo < e.effectiveFrom) errs.push("Effective To is before Effective From");
+  if (!Number.isInteger(e.days) || e.days < 0) errs.push("Days must be a whole number");
+  if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(e.cutoff)) errs.push("Cutoff must be HH:mm");
+  return errs;
+}
+
+const CSV_FIELDS = ["Carrier", "Service", "ZIP From", "ZIP To", "Effective From", "Effective To", "Days", "Cutoff", "Saturday"];
+
+export function commitmentsCsv(entries: CommitmentEntry[]) {
+  return Papa.unparse({
+    fields: CSV_FIELDS,
+    data: entries.map((e) => [e.carrier, e.service, e.zipFrom, e.zipTo, e.effectiveFrom, e.effectiveTo ?? "", e.days, e.cutoff, e.saturday ? "Y" : ""]),
+  });
+}
+
+export type CommitmentImport = { entries: CommitmentEntry[]; errors: string[] };
+
+const pad5 = (s: string) => (/^\d{1,5}$/.test(s) ? s.padStart(5, "0") : s);
+
+// Read a table in the export layout; rows that fail validation are reported, not imported
+export function parseCommitmentsCsv(file: File): Promise<CommitmentImport> {
+  return new Promise((resolve, reject) => {
+    Papa.parse<Record<string, string>>(file, {
+      header: true,
+      skipEmptyLines: true,
+      transformHeader: (h) => h.trim(),
+      complete: (res) => {
+        const entries: CommitmentEntry[] = [];
+        const errors: string[] = [];
+        res.data.forEach((r, i) => {
+          const v = (k: string) => String(r[k] ?? "").trim();
+          const carrier = CARRIERS.find((c) => c.id.toUpperCase() === v("Carrier").toUpperCase())?.id;
+          if (!carrier) { errors.push(`Row ${i + 2}: unknown carrier "${v("Carrier")}"`); return; }
+          const e: CommitmentEntry = {
+            id: newCommitmentId(),
+            carrier,
+            service: v("Service").toUpperCase(),
+            zipFrom: pad5(v("ZIP From")),
+            zipTo: pad5(v("ZIP To")),
+            effectiveFrom: v("Effective From"),
+            effectiveTo: v("Effective To") || undefined,
+            days: Number(v("Days")),
+            cutoff: v("Cutoff").padStart(5, "0"),
+            saturday: /^(y|yes|true|1)$/i.test(v("Saturday")) || undefined,
+          };
+          const errs = validateCommitment(e);
+          if (errs.length) errors.push(`Row ${i + 2}: ${errs.join("; ")}`);
+          else entries.push(e);
+        });
+        resolve({ entries, errors });
+      },
+      error: (err) => reject(err),
+    });
+  });
+}
+
+const STORAGE_KEY = "parcel-audit:commitment-tables";
+
+export function loadCommitments(): CommitmentEntry[] {
+  if (typeof window === "undefined") return [];
+  try {
+    return JSON.parse(window.localStorage.getItem(STORAGE_KEY) || "[]") as CommitmentEntry[];
+  } catch {
+    return [];
+  }
+}
+
+export function saveCommitments(entries: CommitmentEntry[]) {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  return entries;
+}
@@ -0,0 +1,36 @@
+// lib/compare.test.ts — classifying discrepancies between two audit runs
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Discrepancy } from "@/lib/audit";
+import { diffRuns } from "@/lib/compare";
+
+const d = (tracking: string, difference: number, note?: Discrepancy["note"]): Discrepancy => ({
+  tracking, invoice: `INV-${tracking}`, carrierAmount: 10 + difference, posAmount: 10, difference,
+  note: note ?? (difference > 0.01 ? "Overbilled" : difference < -0.01 ? "Underbilled – Review" : "Match – OK"),
+});
+
+test("each open tracking gets one status, ordered for working the delta", () => {
+  const before = [d("SAME", 2), d("MOVED", 2), d("FIXED", 3), d("CREDIT", 4), d("GONE", 5), d("OK", 0)];
+  const after = [d("SAME", 2), d("MOVED", 3.5), d("FIXED", 0), d("CREDIT", -1), d("NEW", 1), d("OK", 0)];
+  const diff = diffRuns(before, after);
+  assert.deepEqual(diff.map((x) => [x.tracking, x.status]), [
+    ["NEW", "New"],
+    ["MOVED", "Changed"],
+    ["SAME", "Still open"],
+    ["CREDIT", "Resolved"],
+    ["FIXED", "Resolved"],
+    ["GONE", "Not in later run"],
+  ]);
+  assert.equal(diff.find((x) => x.tracking === "MOVED")?.change, 1.5);
+  assert.equal(diff.find((x) => x.tracking === "GONE")?.invoice, "INV-GONE");
+});
+
+test("a note change alone counts as changed", () => {
+  const [x] = diffRuns([d("A", -2)], [d("A", -2, "Overbilled")]);
+  assert.equal(x.status, "Changed");
+});
+
+test("empty or all-matching runs have nothing to work", () => {
+  assert.deepEqual(diffRuns([], []), []);
+  assert.deepEqual(diffRuns([d("A", 0)], [d("A", 0), d("B", 0.005)]), []);
+});
@@ -0,0 +1,90 @@
+// lib/compare.ts — run-to-run diff of two audits, so each week only the delta gets worked
+import { cleanMoney, getVal, parseCSVFile } from "@/lib/parse";
+import { CARRIERS, normalizeAnyTracking } from "@/lib/carriers";
+import type { Discrepancy } from "@/lib/audit";
+
+export type DiffStatus = "New" | "Still open" | "Changed" | "Resolved" | "Not in later run";
+
+export type RunDiff = {
+  tracking: string;
+  invoice: string;
+  status: DiffStatus;
+  before?: Discrepancy;
+  after?: Discrepancy;
+  change: number; // after.difference − before.difference
+};
+
+export const DIFF_STATUSES: readonly DiffStatus[] = ["New", "Changed", "Still open", "Resolved", "Not in later run"];
+
+const isOpen = (d?: Discrepancy) => !!d && d.note !== "Match – OK";
+
+// Classify every tracking that is open in either run; trackings matched in both are left out
+export function diffRuns(before: Discrepancy[], after: Discrepancy[]): RunDiff[] {
+  const prev = new Map(before.map((d) => [d.tracking, d]));
+  const next = new Map(after.map((d) => [d.tracking, d]));
+  const all = new Set<string>([...prev.keys(), ...next.keys()]);
+  const out: RunDiff[] = [];
+
+  for (const t of all) {
+    const b = prev.get(t), a = next.get(t);
+    if (!isOpen(b) && !isOpen(a)) continue;
+    const change = (a?.difference ?? 0) - (b?.difference ?? 0);
+
+    let status: DiffStatus;
+    if (!isOpen(b)) status = "New";
+    // Absent from the later run (e.g. a different invoice window) says nothing about whether it was fixed
+    else if (!a) status = "Not in later run";
+    // Now matching, or credited back below the POS amount
+    else if (!isOpen(a) || (b!.note === "Overbilled" && a.note !== "Overbilled")) status = "Resolved";
+    else if (Math.abs(change) > 0.01 || a!.note !== b!.note) status = "Changed";
+    else status = "Still open";
+
+    out.push({ tracking: t, invoice: a?.invoice || b?.invoice || "", status, before: b, after: a, change });
+  }
+
+  const rank = (s: DiffStatus) => DIFF_STATUSES.indexOf(s);
+  return out.sort((x, y) => rank(x.status) - rank(y.status) || Math.abs(y.change) - Math.abs(x.change));
+}
+
+function toNote(s: string): Discrepancy["note"] {
+  if (/^over/i.test(s)) return "Overbilled";
+  if (/^under/i.test(s)) return "Underbilled – Review";
+  return "Match – OK";
+}
+
+// Read a results CSV written by exportDiscrepanciesCSV ("Carrier" + "Billed Charge"), including older
+// "UPS Billed Charge" / "PostalMate Amount" exports that name the carrier in the header
+export async function parseResultsCsv(file: File): Promise<{ carrier: string; discrepancies: Discrepancy[] }> {
+  const rows = await parseCSVFile(file);
+  const header = Object.keys(rows[0] || {});
+  const billedKey = header.find((h) => /billed\s*charge$/i.test(h.trim()));
+  if (!billedKey || !header.some((h) => /^tracking/i.test(h.trim()))) {
+    throw new Error(`${file.name} is not a Parcel Audit results export`);
+  }
+  const headerCarrier = billedKey.trim().replace(/\s*billed\s*charge$/i, "");
+  const names = new Set<string>();
+
+  const discrepancies = rows.flatMap((r): Discrepancy[] => {
+    const name = getVal(r, ["Carrier"]) || headerCarrier;
+    // Same normalization the audit applied to saved runs, so both sides key on the same tracking
+    const adapter = CARRIERS.find((c) => c.name.toLowerCase() === name.toLowerCase() || c.id.toLowerCase() === name.toLowerCase());
+    const tracking = adapter ? adapter.normalizeTracking(getVal(r, ["Tracking #", "Tracking Number"])) : normalizeAnyTracking(getVal(r, ["Tracking #", "Tracking Number"]));
+    if (!tracking) return [];
+    if (name) names.add(adapter?.name ?? name);
+    const carrierAmount = cleanMoney(r[billedKey]);
+    const posAmount = cleanMoney(getVal(r, ["POS Amount", "PostalMate Amount"]));
+    const diff = getVal(r, ["Difference"]);
+    const adjustments = cleanMoney(getVal(r, ["Adjustments"])) || undefined;
+    return [{
+      tracking,
+      invoice: getVal(r, ["Invoice #", "Invoice Number"]),
+      carrier: adapter?.id,
+      carrierAmount,
+      posAmount,
+      difference: diff ? cleanMoney(diff) : carrierAmount - posAmount,
+      adjustments,
+      note: toNote(getVal(r, ["Note"])),
+    }];
+  });
+  return { carrier: [...names].join(", "), discrepancies };
+}
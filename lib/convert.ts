@@ -0,0 +1,91 @@
+// lib/convert.ts — uploads that need reshaping into named rows; the audit worker applies the
+// transform to each streamed chunk, and only the head of the file is read at drop time
+import * as Papa from "papaparse";
+import { chargeLinesToRows, looksLikeUpsBillingData, parseUpsBillingData } from "@/lib/carriers/ups-billing-data";
+import { createEdi210Reader, createFboReader, fedexDetailToRows, isFboDetailHeader, looksLikeEdi } from "@/lib/carriers/fedex-detail";
+import type { CarrierId, Row } from "@/lib/carriers";
+
+export type ConverterId = "ups-billing-data" | "fedex-edi-210" | "fedex-fbo-detail";
+
+// Stateful per file: push every chunk in order, then end
+export type RowTransform<T> = { push: (chunk: T) => Row[]; end: () => Row[] };
+
+// The start of an upload: raw text, and as a headerless grid without a cut-off last line
+export type FileHead = { text: string; grid: string[][]; partial: boolean };
+
+type ConverterBase = { id: ConverterId; name: string; carrier: CarrierId; matches: (head: FileHead) => boolean };
+
+// "grid" converters read headerless Papa chunks; "text" converters read the raw decoded text
+export type FileConverter =
+  | (ConverterBase & { input: "grid"; create: () => RowTransform<string[][]> })
+  | (ConverterBase & { input: "text"; create: () => RowTransform<string> });
+
+const HEAD_BYTES = 16 * 1024; // a few 250-column UPS lines, or several EDI transaction sets
+
+export const FILE_CONVERTERS: readonly FileConverter[] = [
+  {
+    id: "ups-billing-data",
+    name: "UPS Billing Data",
+    carrier: "UPS",
+    matches: (head) => looksLikeUpsBillingData(head.grid),
+    input: "grid",
+    create: () => ({ push: (grid) => chargeLinesToRows(parseUpsBillingData(grid)), end: () => [] }),
+  },
+  {
+    id: "fedex-edi-210",
+    name: "FedEx EDI 210",
+    carrier: "FedEx",
+    matches: (head) => looksLikeEdi(head.text) && /ST.210/.test(head.text), // any element separator
+    input: "text",
+    create: () => {
+      const reader = createEdi210Reader();
+      const seen = new Set<string>();
+      return { push: (text) => fedexDetailToRows(reader.push(text), seen), end: () => fedexDetailToRows(reader.end(), seen) };
+    },
+  },
+  {
+    id: "fedex-fbo-detail",
+    name: "FedEx Billing Online detail",
+    carrier: "FedEx",
+    matches: (head) => isFboDetailHeader((head.grid[0] || []).map((c) => String(c || "").trim())),
+    input: "grid",
+    create: () => {
+      const read = createFboReader();
+      const seen = new Set<string>();
+      return { push: (grid) => fedexDetailToRows(read(grid), seen), end: () => [] };
+    },
+  },
+];
+
+export function getConverter(id: ConverterId) {
+  const hit = FILE_CONVERTERS.find((c) => c.id === id);
+  if (!hit) throw new Error(`Unknown converter: ${id}`);
+  return hit;
+}
+
+async function readHead(file: File): Promise<FileHead> {
+  const text = await file.slice(0, HEAD_BYTES).text();
+  const partial = file.size > HEAD_BYTES;
+  const grid = Papa.parse<string[]>(text, { header: false, skipEmptyLines: true }).data as string[][];
+  return { text, grid: partial ? grid.slice(0, -1) : grid, partial };
+}
+
+// First converted rows from the head, as a grid (header row first) for detection and the column mapper
+function previewGrid(converter: FileConverter, head: FileHead): string[][] {
+  let rows: Row[];
+  if (converter.input === "grid") {
+    const t = converter.create();
+    rows = [...t.push(head.grid), ...(head.partial ? [] : t.end())];
+  } else {
+    const t = converter.create();
+    rows = [...t.push(head.text), ...(head.partial ? [] : t.end())];
+  }
+  const header = Object.keys(rows[0] ?? {});
+  return header.length ? [header, ...rows.map((r) => header.map((h) => String(r[h] ?? "")))] : [];
+}
+
+export async function findConverter(file: File): Promise<{ converter: FileConverter; preview: string[][] } | null> {
+  const head = await readHead(file);
+  const converter = FILE_CONVERTERS.find((c) => c.matches(head));
+  return converter ? { converter, preview: previewGrid(converter, head) } : null;
+}
@@ -0,0 +1,65 @@
+// lib/das.test.ts — DAS tiers, list selection by ship date and the surcharge check
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getCarrier, type Row } from "@/lib/carriers";
+import { findChargePairs } from "@/lib/audit";
+import { createDasCheckAccumulator, listFor, parseDasList, tierCounts, tierOf, type DasList } from "@/lib/das";
+
+test("charge descriptions and list headers map to a tier", () => {
+  assert.equal(tierOf("Delivery Area Surcharge"), "standard");
+  assert.equal(tierOf("DAS Extended Residential"), "extended");
+  assert.equal(tierOf("Remote Area Surcharge"), "remote");
+  assert.equal(tierOf("Fuel Surcharge"), null);
+});
+
+const list = (effectiveFrom: string, zips: DasList["zips"], effectiveTo?: string): DasList => ({
+  id: `UPS:${effectiveFrom}`, carrier: "UPS", name: `das-${effectiveFrom}.csv`, effectiveFrom, effectiveTo, uploadedAt: "", zips,
+});
+
+test("the latest list covering the ship date applies", () => {
+  const lists = [list("2024-01-01", {}, "2024-12-31"), list("2025-01-01", {}), list("2024-07-01", {})];
+  assert.equal(listFor(lists, "UPS", "2024-03-01")?.effectiveFrom, "2024-01-01");
+  assert.equal(listFor(lists, "UPS", "2024-08-01")?.effectiveFrom, "2024-07-01");
+  assert.equal(listFor(lists, "UPS", "2025-06-01")?.effectiveFrom, "2025-01-01");
+  assert.equal(listFor(lists, "UPS", null)?.effectiveFrom, "2025-01-01");
+  assert.equal(listFor(lists, "UPS", "2023-06-01"), null);
+  assert.equal(listFor(lists, "FedEx", "2024-03-01"), null);
+  assert.deepEqual(tierCounts(list("2024-01-01", { "00501": "standard", "99501": "remote", "10001": "standard" })), { standard: 2, extended: 0, remote: 1 });
+});
+
+test("bad effective dates are rejected before the file is read", async () => {
+  const file = new File(["ZIP,Type\n00501,DAS\n"], "das.csv", { type: "text/csv" });
+  assert.deepEqual(await parseDasList(file, "UPS", "01/01/2025"), { list: null, errors: ["Effective From must be yyyy-MM-dd"] });
+  assert.deepEqual(await parseDasList(file, "UPS", "2025-06-01", "2025-01-01"), { list: null, errors: ["Effective To is before Effective From"] });
+});
+
+test("DAS charges off the list or above the listed tier are reported", () => {
+  const ups = getCarrier("UPS");
+  const acc = createDasCheckAccumulator([list("2024-01-01", { "00501": "standard", "00544": "standard", "99501": "extended" })]);
+  const row = (tracking: string, zip: string, desc: string, amount: string): Row => ({
+    "Tracking Number": tracking, "Invoice Number": "INV1", "Ship Date": "03/04/2024", "Receiver Postal": zip,
+    "Charge Description": desc, "Charge Amount": amount,
+  });
+  const rows = [
+    row("1ZSTD", "00501", "Delivery Area Surcharge", "4.00"),
+    row("1ZSTD2", "00544-1234", "Delivery Area Surcharge", "4.00"),
+    row("1ZOFF", "10001", "Delivery Area Surcharge", "4.00"),
+    row("1ZOVER", "501", "Delivery Area Surcharge - Extended", "5.50"),
+    row("1ZEXT", "99501", "Delivery Area Surcharge - Extended", "5.50"),
+    row("1ZNOZIP", "", "Delivery Area Surcharge", "4.00"),
+    row("1ZFUEL", "10001", "Fuel Surcharge", "1.00"),
+  ];
+  const pairs = findChargePairs(Object.keys(rows[0]));
+  rows.forEach((r) => acc.add(r, ups, pairs));
+  assert.deepEqual(acc.finish().map((i) => [i.tracking, i.amount, i.note]), [
+    ["1ZOFF", 4, "Delivery area surcharge on ZIP 10001, not on the DAS list (das-2024-01-01.csv)"],
+    ["1ZOVER", 1.5, "Delivery area surcharge billed as Extended DAS; ZIP 00501 is listed as DAS (das-2024-01-01.csv) — standard is $4.00"],
+  ]);
+});
+
+test("without DAS lists nothing is collected", () => {
+  const acc = createDasCheckAccumulator();
+  const r: Row = { "Tracking Number": "1ZOFF", "Receiver Postal": "10001", "Charge Description": "Delivery Area Surcharge", "Charge Amount": "4.00" };
+  acc.add(r, getCarrier("UPS"), findChargePairs(Object.keys(r)));
+  assert.deepEqual(acc.finish(), []);
+});
@@ -0,0 +1,192 @@
+// lib/das.ts — carrier Delivery Area Surcharge ZIP lists; each DAS charge checked against the destination ZIP
+import { format } from "date-fns";
+import { getVal, parseWithHeaderRow } from "@/lib/parse";
+import { DAS_LISTS, hasIndexedDb, withStore } from "@/lib/idb";
+import type { CarrierAdapter, CarrierId, Row } from "@/lib/carriers";
+import type { ChargeIssue, ChargePairs } from "@/lib/audit";
+
+export type DasTier = "standard" | "extended" | "remote";
+
+export const DAS_TIER_LABEL: Record<DasTier, string> = { standard: "DAS", extended: "Extended DAS", remote: "Remote" };
+
+const TIER_RANK: Record<DasTier, number> = { standard: 1, extended: 2, remote: 3 };
+
+// One published list per carrier and effective date; uploading the same dates again replaces it
+export type DasList = {
+  id: string; // `${carrier}:${effectiveFrom}`
+  carrier: CarrierId;
+  name: string;
+  effectiveFrom: string; // yyyy-MM-dd, by ship date
+  effectiveTo?: string;  // yyyy-MM-dd inclusive; open-ended when unset
+  uploadedAt: string;
+  zips: Record<string, DasTier>; // 5-digit ZIP → highest tier it is listed under
+};
+
+// Charge lines (and list headers) for the three tiers
+const DAS_RX = /delivery\s*area|\bdas\b|remote\s*area/i;
+const EXTENDED_RX = /extended|\bext\b|\bedas\b/i;
+const REMOTE_RX = /remote|alaska|hawaii/i;
+
+const ZIP_HDR = /^(dest(ination)?\.?\s*)?zip(\s*code)?s?$|^postal\s*code$/i;
+const TYPE_HDR = /^(das\s*)?(type|tier|category|surcharge)$/i;
+const TIER_HDR = /^(das|delivery\s*area(\s*surcharge)?|extended(\s*das)?|das\s*extended|remote(\s*area)?)(\s*(zips?|zip\s*codes?))?$/i;
+
+export const dasListId = (carrier: CarrierId, effectiveFrom: string) => `${carrier}:${effectiveFrom}`;
+
+export function tierOf(s: string): DasTier | null {
+  if (REMOTE_RX.test(s)) return "remote";
+  if (!DAS_RX.test(s) && !EXTENDED_RX.test(s)) return null;
+  return EXTENDED_RX.test(s) ? "extended" : "standard";
+}
+
+// Spreadsheets drop leading zeros: "501" → "00501"; ZIP+4 keeps the first five
+function zip5(s: string) {
+  const d = s.trim().split(/[-\s]/)[0].replace(/\D/g, "");
+  if (d.length === 9) return d.slice(0, 5);
+  return d.length >= 3 && d.length <= 5 ? d.padStart(5, "0") : null;
+}
+
+export type DasListImport = { list: DasList | null; errors: string[] };
+
+// A ZIP column plus a type column ("DAS", "Extended", "Remote"), or one column of ZIPs per tier
+export async function parseDasList(file: File, carrier: CarrierId, effectiveFrom: string, effectiveTo?: string): Promise<DasListImport> {
+  const errors: string[] = [];
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(effectiveFrom)) errors.push("Effective From must be yyyy-MM-dd");
+  if (effectiveTo && effectiveTo < effectiveFrom) errors.push("Effective To is before Effective From");
+  if (errors.length) return { list: null, errors };
+
+  const data = await parseWithHeaderRow(file, [ZIP_HDR, TYPE_HDR, TIER_HDR], 1);
+  const headers = Object.keys(data[0] ?? {});
+  const zipCol = headers.find((h) => ZIP_HDR.test(h));
+  const typeCol = headers.find((h) => TYPE_HDR.test(h));
+  const tierCols = zipCol ? [] : headers.filter((h) => TIER_HDR.test(h)).map((h) => ({ h, tier: tierOf(h) })).filter((c): c is { h: string; tier: DasTier } => !!c.tier);
+
+  const zips: Record<string, DasTier> = {};
+  const put = (raw: string, tier: DasTier) => {
+    const z = zip5(raw); if (!z) return false;
+    if (!zips[z] || TIER_RANK[tier] > TIER_RANK[zips[z]]) zips[z] = tier;
+    return true;
+  };
+
+  if (zipCol) {
+    data.forEach((r, i) => {
+      const raw = String(r[zipCol] ?? "").trim(); if (!raw) return;
+      const tier = typeCol ? tierOf(String(r[typeCol] ?? "")) ?? "standard" : "standard";
+      if (!put(raw, tier)) errors.push(`Row ${i + 2}: "${raw}" is not a ZIP`);
+    });
+  } else if (tierCols.length) {
+    data.forEach((r) => tierCols.forEach(({ h, tier }) => { const raw = String(r[h] ?? "").trim(); if (raw) put(raw, tier); }));
+  } else {
+    return { list: null, errors: ["Need a ZIP column, or one column of ZIPs per DAS tier"] };
+  }
+  if (!Object.keys(zips).length) return { list: null, errors: [...errors, "No ZIPs found"] };
+  return {
+    list: {
+      id: dasListId(carrier, effectiveFrom), carrier, name: file.name, effectiveFrom, effectiveTo: effectiveTo || undefined,
+      uploadedAt: new Date().toISOString(), zips,
+    },
+    errors,
+  };
+}
+
+// ZIP count per tier, for the list overview
+export function tierCounts(list: DasList) {
+  const counts: Record<DasTier, number> = { standard: 0, extended: 0, remote: 0 };
+  Object.values(list.zips).forEach((t) => counts[t]++);
+  return counts;
+}
+
+// List in effect on a ship date: latest effective-from that covers it
+export function listFor(lists: DasList[], carrier: CarrierId, day: string | null) {
+  return lists
+    .filter((l) => l.carrier === carrier && (!day || (day >= l.effectiveFrom && (!l.effectiveTo || day <= l.effectiveTo))))
+    .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom))[0] ?? null;
+}
+
+type DasCharge = {
+  carrier: CarrierId;
+  tracking: string;
+  invoice: string;
+  invoiceDate: string;
+  day: string | null;
+  zip: string | null;
+  desc: string;
+  tier: DasTier;
+  residential: boolean;
+  amount: number;
+};
+
+// DAS charge lines collected while the invoice streams; checked in finish once the standard rate is known
+export function createDasCheckAccumulator(lists: DasList[] = []) {
+  const charges: DasCharge[] = [];
+
+  function add(r: Row, carrier: CarrierAdapter, pairs: ChargePairs) {
+    if (!lists.length) return;
+    const C = carrier.columns;
+    const tracking = carrier.normalizeTracking(getVal(r, C.tracking)); if (!tracking) return;
+    pairs.forEach(({ desc, amt }) => {
+      const d = String(r[desc] ?? "").trim();
+      const a = carrier.parseMoney(r[amt]);
+      if (!d || a <= 0 || !DAS_RX.test(d)) return;
+      const shipped = carrier.parseDate(getVal(r, C.shipDate)) ?? carrier.parseDate(getVal(r, C.invoiceDate));
+      charges.push({
+        carrier: carrier.id, tracking, invoice: getVal(r, C.invoice), invoiceDate: getVal(r, C.invoiceDate),
+        day: shipped && !isNaN(shipped.getTime()) ? format(shipped, "yyyy-MM-dd") : null,
+        zip: zip5(getVal(r, C.destPostal)), desc: d, tier: tierOf(d) ?? "standard", residential: /resi/i.test(d), amount: a,
+      });
+    });
+  }
+
+  // Standard DAS on ZIPs the list confirms, per carrier and residential/commercial: what an over-tiered charge should have been
+  function standardRates() {
+    const seen = new Map<string, number[]>();
+    charges.forEach((c) => {
+      const list = c.zip ? listFor(lists, c.carrier, c.day) : null;
+      if (c.tier !== "standard" || !list || list.zips[c.zip!] !== "standard") return;
+      const k = `${c.carrier}|${c.residential}`;
+      if (!seen.has(k)) seen.set(k, []);
+      seen.get(k)!.push(c.amount);
+    });
+    const median = new Map([...seen].map(([k, xs]) => [k, xs.sort((a, b) => a - b)[Math.floor(xs.length / 2)]]));
+    return (c: DasCharge) => median.get(`${c.carrier}|${c.residential}`) ?? null;
+  }
+
+  function finish(): ChargeIssue[] {
+    const standardFor = standardRates();
+    const issues: ChargeIssue[] = [];
+    for (const c of charges) {
+      const list = listFor(lists, c.carrier, c.day);
+      if (!list || !c.zip) continue;
+      const base = { tracking: c.tracking, carrier: c.carrier, invoice: c.invoice, invoiceDate: c.invoiceDate, description: c.desc };
+      const listed = list.zips[c.zip];
+      if (!listed) {
+        issues.push({ ...base, amount: Number(c.amount.toFixed(2)), note: `Delivery area surcharge on ZIP ${c.zip}, not on the DAS list (${list.name})` });
+      } else if (TIER_RANK[c.tier] > TIER_RANK[listed]) {
+        const expected = listed === "standard" ? standardFor(c) : null;
+        const amount = expected !== null ? Math.max(0, c.amount - expected) : 0;
+        issues.push({
+          ...base, amount: Number(amount.toFixed(2)),
+          note: `Delivery area surcharge billed as ${DAS_TIER_LABEL[c.tier]}; ZIP ${c.zip} is listed as ${DAS_TIER_LABEL[listed]} (${list.name})` +
+            (expected !== null ? ` — standard is $${expected.toFixed(2)}` : ""),
+        });
+      }
+    }
+    return issues;
+  }
+
+  return { add, finish };
+}
+
+export async function listDasLists(): Promise<DasList[]> {
+  if (!hasIndexedDb()) return [];
+  return withStore<DasList[]>(DAS_LISTS, "readonly", (s) => s.getAll());
+}
+
+export async function saveDasList(list: DasList) {
+  await withStore(DAS_LISTS, "readwrite", (s) => s.put(list));
+  return list;
+}
+
+export async function deleteDasList(id: string) {
+  await withStore(DAS_LISTS, "readwrite", (s) => s.delete(id));
+}
@@ -0,0 +1,44 @@
+// lib/detect.test.ts — classifying uploads from their header row
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { isCarrierKind, isPosKind, sniffGrid, sniffText } from "@/lib/detect";
+
+test("a UPS invoice is recognised from its header and tracking numbers", () => {
+  const d = sniffGrid([
+    ["Account Number", "Invoice Number", "Tracking Number", "Lead Shipment Number", "Billed Charge"],
+    ["A1", "INV1", "1Z999AA10123456784", "1Z999AA10123456784", "12.50"],
+  ]);
+  assert.equal(d.kind, "UPS");
+  assert.equal(d.headerRow, 0);
+  assert.equal(d.sample.length, 1);
+  assert.ok(d.confidence > 0.9);
+});
+
+test("title rows above a PostalMate header are skipped", () => {
+  const d = sniffText("Shipping Report\nPrinted 01/08/2024\nDate,Customer,Carrier,Tracking #,PostalMate\n01/05/2024,Jane,UPS,1ZA,12.00\n");
+  assert.equal(d.kind, "PostalMate");
+  assert.equal(d.headerRow, 2);
+  assert.deepEqual(d.header, ["Date", "Customer", "Carrier", "Tracking #", "PostalMate"]);
+});
+
+test("FedEx beats UPS when the tracking column only holds FedEx numbers", () => {
+  const d = sniffGrid([
+    ["Express or Ground Tracking ID", "Service Type", "Net Charge Amount", "POD Delivery Date"],
+    ["794600000001", "FedEx Ground", "10.00", "01/05/2024"],
+  ]);
+  assert.equal(d.kind, "FedEx");
+  assert.equal(d.scores[0].kind, "FedEx");
+});
+
+test("unrecognised or empty files are left for the user to classify", () => {
+  assert.equal(sniffText("name,qty\nwidget,3\n").kind, null);
+  const empty = sniffGrid([]);
+  assert.equal(empty.kind, null);
+  assert.deepEqual(empty.header, []);
+});
+
+test("kinds split into carriers and POS sources", () => {
+  assert.ok(isCarrierKind("USPS") && !isPosKind("USPS"));
+  assert.ok(isPosKind("ShipRite") && !isCarrierKind("ShipRite"));
+  assert.ok(!isCarrierKind(null) && !isPosKind(null));
+});
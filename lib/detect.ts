@@ -0,0 +1,81 @@
+// lib/detect.ts — classify an upload as a carrier invoice or POS export from its header row
+import * as Papa from "papaparse";
+import { CARRIERS, type CarrierId, type FileSignature } from "@/lib/carriers";
+import { POS_SOURCES, type PosId } from "@/lib/pos";
+
+export type FileKind = CarrierId | PosId;
+
+export type Detection = {
+  kind: FileKind | null;
+  confidence: number;  // 0..1
+  headerRow: number;   // index of the detected header line (title rows above it are skipped)
+  header: string[];
+  sample: string[][];  // first data rows under the header, for previews
+  scores: { kind: FileKind; score: number }[];
+};
+
+const SNIFF_BYTES = 64 * 1024;
+const HEADER_SCAN_ROWS = 20;
+const SAMPLE_ROWS = 25;
+const MIN_CONFIDENCE = 0.2;
+
+const CANDIDATES: { kind: FileKind; signature: FileSignature; trackingCols: readonly string[] }[] = [
+  ...CARRIERS.map((c) => ({ kind: c.id as FileKind, signature: c.signature, trackingCols: c.columns.tracking })),
+  ...POS_SOURCES.map((p) => ({ kind: p.id as FileKind, signature: p.signature, trackingCols: p.columns.tracking })),
+];
+
+export function isCarrierKind(kind: FileKind | null): kind is CarrierId {
+  return !!kind && CARRIERS.some((c) => c.id === kind);
+}
+
+export function isPosKind(kind: FileKind | null): kind is PosId {
+  return !!kind && POS_SOURCES.some((p) => p.id === kind);
+}
+
+function headerScore(cells: string[], sig: FileSignature) {
+  if (!sig.headers.length) return 0;
+  const hits = sig.headers.filter((rx) => cells.some((c) => rx.test(c))).length;
+  return hits / sig.headers.length;
+}
+
+function trackingScore(rows: string[][], header: string[], trackingCols: readonly string[], rx?: RegExp) {
+  if (!rx) return null;
+  const norm = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, "");
+  const wanted = trackingCols.map(norm);
+  const col = header.findIndex((h) => wanted.includes(norm(h)));
+  if (col < 0 || !rows.length) return 0;
+  const vals = rows.map((r) => String(r[col] ?? "").trim()).filter(Boolean);
+  if (!vals.length) return 0;
+  return vals.filter((v) => rx.test(v)).length / vals.length;
+}
+
+// Score every known file kind against the first rows of a grid
+export function sniffGrid(grid: string[][]): Detection {
+  let best: Detection = { kind: null, confidence: 0, headerRow: 0, header: (grid[0] || []).map((c) => String(c || "").trim()), sample: grid.slice(1, 1 + SAMPLE_ROWS), scores: [] };
+
+  for (let i = 0; i < Math.min(grid.length, HEADER_SCAN_ROWS); i++) {
+    const header = (grid[i] || []).map((c) => String(c || "").trim());
+    const sample = grid.slice(i + 1, i + 1 + SAMPLE_ROWS);
+    const scores = CANDIDATES.map(({ kind, signature, trackingCols }) => {
+      const h = headerScore(header, signature);
+      const t = trackingScore(sample, header, trackingCols, signature.tracking);
+      return { kind, score: t == null ? h : h * 0.7 + t * 0.3 };
+    }).sort((a, b) => b.score - a.score);
+    if (scores[0].score > best.confidence) {
+      best = { kind: scores[0].kind, confidence: scores[0].score, headerRow: i, header, sample, scores };
+    }
+  }
+
+  if (best.confidence < MIN_CONFIDENCE) best.kind = null;
+  return best;
+}
+
+export function sniffText(raw: string): Detection {
+  const grid = Papa.parse<string[]>(raw, { header: false, skipEmptyLines: true, preview: HEADER_SCAN_ROWS + SAMPLE_ROWS }).data as string[][];
+  return sniffGrid(grid);
+}
+
+export async function sniffFile(file: File): Promise<Detection> {
+  const raw = await file.slice(0, SNIFF_BYTES).text();
+  return sniffText(raw);
+}
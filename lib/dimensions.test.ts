@@ -0,0 +1,65 @@
+// lib/dimensions.test.ts — DIM weight and size-surcharge checks
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getCarrier, type Row } from "@/lib/carriers";
+import { findChargePairs, type PosIndex } from "@/lib/audit";
+import { billableWeight, createPackageCheckAccumulator, dimWeight, dimsFromRow, exceeds, parseDims } from "@/lib/dimensions";
+
+const ups = getCarrier("UPS");
+
+test("dimensions parse in any order and unit, longest side first", () => {
+  assert.deepEqual(parseDims("12 X 24.0 X 18 IN"), [24, 18, 12]);
+  assert.deepEqual(parseDims("50.8 x 25.4 x 2.54 cm"), [20, 10, 1]);
+  assert.deepEqual(parseDims("20x10x1", "CM")?.map((n) => Number(n.toFixed(2))), [7.87, 3.94, 0.39]);
+  assert.deepEqual(dimsFromRow({ "Dim Length": "10", "Dim Width": "30", "Dim Height": "20" }, ["Dimensions"]), [30, 20, 10]);
+});
+
+test("incomplete or zero dimensions are not guessed", () => {
+  assert.equal(parseDims("24x18"), null);
+  assert.equal(parseDims("24x0x12"), null);
+  assert.equal(parseDims(""), null);
+  assert.equal(dimsFromRow({ "Dim Length": "10", "Dim Width": "30" }, ["Dimensions"]), null);
+});
+
+test("billable weight is the greater of actual and DIM, raised for large packages", () => {
+  const rules = ups.packageRules;
+  assert.equal(dimWeight([24, 18, 12], rules), 38); // 5184 / 139
+  assert.equal(dimWeight([10, 10, 10], getCarrier("USPS").packageRules), 0); // USPS: one cubic foot or less
+  assert.equal(billableWeight([24, 18, 12], 40.2, rules), 41);
+  assert.equal(billableWeight([100, 6, 4], 30, rules), 90);
+  assert.equal(billableWeight(null, 2.1, rules), 3);
+  assert.equal(exceeds(rules.handling!, [50, 10, 10], 10), "longest side 50.0 in > 48 in");
+  assert.equal(exceeds(rules.handling!, [40, 20, 10], 10), null);
+});
+
+const row = (tracking: string, extra: Row): Row => ({
+  "Tracking Number": tracking, "Invoice Number": "INV1", "Charge Description": "", "Charge Amount": "", ...extra,
+});
+
+function run(rows: Row[], posIndex?: PosIndex) {
+  const acc = createPackageCheckAccumulator(posIndex);
+  const pairs = findChargePairs(Object.keys(rows[0]));
+  rows.forEach((r) => acc.add(r, ups, pairs));
+  return acc.finish();
+}
+
+test("billed weight and handling the invoice's own dimensions do not support are flagged", () => {
+  const issues = run([
+    row("1ZA", { "Package Dimensions": "12x10x8", "Entered Weight": "5", "Billed Weight": "20" }),
+    row("1ZA", { "Charge Description": "Additional Handling", "Charge Amount": "15.00" }),
+  ]);
+  assert.deepEqual(issues.map((i) => [i.description, i.note]), [
+    ["Billed Weight", "Billed 20 lb; 12×10×8 in (invoice dimensions) and 5 lb actual support 7 lb"],
+    ["Additional Handling", "Additional handling not supported by dimensions — 12×10×8 in, 5 lb (invoice dimensions)"],
+  ]);
+});
+
+test("carrier measurements that cost more than the POS measurement are reported", () => {
+  const posIndex: PosIndex = { "1ZB": { isResidential: null, dims: [20, 20, 20] } };
+  const issues = run([row("1ZB", { "Package Dimensions": "30x20x20", "Entered Weight": "10", "Billed Weight": "87" })], posIndex);
+  assert.deepEqual(issues.map((i) => i.note), ["Carrier dimensions 30×20×20 in vs POS 20×20×20 in — billable 87 lb vs 58 lb"]);
+});
+
+test("rows without tracking, dimensions or weights raise nothing", () => {
+  assert.deepEqual(run([row("", { "Billed Weight": "90" }), row("1ZC", { "Billed Weight": "90" })]), []);
+});
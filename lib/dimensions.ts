@@ -0,0 +1,186 @@
+// lib/dimensions.ts — DIM weight and size-surcharge checks from invoice (and POS) dimensions
+import { getVal } from "@/lib/parse";
+import { expectedCharge, toUnit, weightUnit, type RateCard, type WeightUnit } from "@/lib/rates";
+import type { CarrierAdapter, PackageRules, Row, SizeThresholds } from "@/lib/carriers";
+import type { ChargeIssue, ChargePairs, PosIndex } from "@/lib/audit";
+
+// Inches, longest side first
+export type Dims = [number, number, number];
+
+const LENGTH_KEYS = ["Dim Length", "Length", "Package Length"] as const;
+const WIDTH_KEYS = ["Dim Width", "Width", "Package Width"] as const;
+const HEIGHT_KEYS = ["Dim Height", "Height", "Package Height"] as const;
+const DIM_UNIT_KEYS = ["Dim Unit", "Dimension Unit", "Dimensions Unit", "Dim Units"] as const;
+const WEIGHT_UNIT_KEYS = ["Weight Unit", "Billed Weight Unit", "Rated Weight Units", "Weight Units"] as const;
+export const POS_DIM_KEYS = ["Dimensions", "Package Dimensions", "Dims"] as const;
+
+const CM_PER_IN = 2.54;
+const WEIGHT_TOLERANCE = 0.5; // lb of rounding slack before a billed weight is questioned
+const DIM_TOLERANCE = 1;      // inches a carrier measurement may differ from the POS
+
+const num = (s: string) => Number(String(s).replace(/[^0-9.]/g, ""));
+
+function toDims(sides: number[], cm: boolean): Dims | null {
+  if (sides.length !== 3 || sides.some((n) => !(n > 0))) return null;
+  return sides.map((n) => (cm ? n / CM_PER_IN : n)).sort((a, b) => b - a) as Dims;
+}
+
+// "24x18x12", "24.0 X 18.0 X 12.0 IN", "60 x 40 x 30 cm"
+export function parseDims(s: string, unit = ""): Dims | null {
+  const sides = (s.match(/\d+(?:\.\d+)?/g) ?? []).map(Number);
+  return toDims(sides, /cm/i.test(s) || /^c/i.test(unit.trim()));
+}
+
+// One "Dimensions" column, or separate Length / Width / Height columns
+export function dimsFromRow(r: Row, keys: readonly string[]): Dims | null {
+  const unit = getVal(r, DIM_UNIT_KEYS);
+  const one = getVal(r, keys);
+  if (one) return parseDims(one, unit);
+  const sides = [getVal(r, LENGTH_KEYS), getVal(r, WIDTH_KEYS), getVal(r, HEIGHT_KEYS)];
+  return sides.every(Boolean) ? toDims(sides.map(num), /^c/i.test(unit.trim())) : null;
+}
+
+export const lengthPlusGirth = (d: Dims) => d[0] + 2 * (d[1] + d[2]);
+
+export const fmtDims = (d: Dims) => d.map((n) => Number(n.toFixed(1))).join("×") + " in";
+
+// Why a package passes a threshold set, or null when it does not
+export function exceeds(t: SizeThresholds, d: Dims | null, weight: number): string | null {
+  if (d && t.longest && d[0] > t.longest) return `longest side ${d[0].toFixed(1)} in > ${t.longest} in`;
+  if (d && t.second && d[1] > t.second) return `second side ${d[1].toFixed(1)} in > ${t.second} in`;
+  if (d && t.lengthGirth && lengthPlusGirth(d) > t.lengthGirth) return `length + girth ${lengthPlusGirth(d).toFixed(1)} in > ${t.lengthGirth} in`;
+  if (t.weight && weight > t.weight) return `weight ${weight} lb > ${t.weight} lb`;
+  return null;
+}
+
+export function dimWeight(d: Dims, rules: PackageRules) {
+  const cubic = d[0] * d[1] * d[2];
+  if (rules.dimMinCubicInches && cubic <= rules.dimMinCubicInches) return 0;
+  return Math.ceil(cubic / rules.dimDivisor);
+}
+
+// What the carrier may bill: the greater of actual and DIM weight, raised to the large-package minimum
+export function billableWeight(d: Dims | null, actual: number, rules: PackageRules) {
+  let w = Math.max(Math.ceil(actual - 1e-9), d ? dimWeight(d, rules) : 0);
+  const large = rules.largePackage;
+  if (large?.minBillable && exceeds(large, d, actual)) w = Math.max(w, large.minBillable);
+  return w;
+}
+
+type Shipment = {
+  carrier: CarrierAdapter;
+  tracking: string;
+  invoice: string;
+  invoiceDate: string;
+  service: string;
+  zone: string;
+  dims: Dims | null;
+  entered: number; // lb
+  billed: number;  // lb
+  handling: number;
+  large: number;
+};
+
+// Streaming like the billing-issue accumulator: rows are folded per tracking, checked in finish
+export function createPackageCheckAccumulator(posIndex: PosIndex = {}, rateCards: RateCard[] = []) {
+  const perTrack = new Map<string, Shipment>();
+
+  function add(r: Row, carrier: CarrierAdapter, pairs: ChargePairs) {
+    const C = carrier.columns;
+    const tracking = carrier.normalizeTracking(getVal(r, C.tracking)); if (!tracking) return;
+    const key = `${carrier.id}|${tracking}`;
+    let s = perTrack.get(key);
+    if (!s) {
+      s = { carrier, tracking, invoice: "", invoiceDate: "", service: "", zone: "", dims: null, entered: 0, billed: 0, handling: 0, large: 0 };
+      perTrack.set(key, s);
+    }
+    s.invoice ||= getVal(r, C.invoice);
+    s.invoiceDate ||= getVal(r, C.invoiceDate);
+    s.service ||= getVal(r, C.service);
+    s.zone ||= getVal(r, C.zone);
+    s.dims ??= dimsFromRow(r, C.dimensions);
+    const unit: WeightUnit = weightUnit(getVal(r, WEIGHT_UNIT_KEYS));
+    s.entered = Math.max(s.entered, toUnit(num(getVal(r, C.enteredWeight)) || 0, unit, "lb"));
+    s.billed = Math.max(s.billed, toUnit(num(getVal(r, C.billedWeight)) || 0, unit, "lb"));
+
+    const { handling, largePackage } = carrier.packageRules;
+    pairs.forEach(({ desc, amt }) => {
+      const d = String(r[desc] ?? "").trim();
+      const a = carrier.parseMoney(r[amt]); if (!d || a <= 0) return;
+      if (largePackage?.charge.test(d)) s!.large += a;
+      else if (handling?.charge.test(d)) s!.handling += a;
+    });
+  }
+
+  // Dollar effect of billing `from` lb instead of `to` lb, when a rate card can price it
+  function weightCost(s: Shipment, from: number, to: number) {
+    const card = rateCards.find((c) => c.carrier === s.carrier.id);
+    if (!card) return 0;
+    const a = expectedCharge(card, s.service, s.zone, from), b = expectedCharge(card, s.service, s.zone, to);
+    return a !== null && b !== null ? Math.max(0, Number((a - b).toFixed(2))) : 0;
+  }
+
+  function check(s: Shipment, issues: ChargeIssue[]) {
+    const rules = s.carrier.packageRules;
+    const base = { tracking: s.tracking, carrier: s.carrier.id, invoice: s.invoice, invoiceDate: s.invoiceDate };
+    const posDims = posIndex[s.tracking]?.dims ?? null;
+    const actual = s.entered || 0;
+
+    if (s.dims && posDims && s.dims.some((n, i) => Math.abs(n - posDims[i]) > DIM_TOLERANCE)) {
+      // Re-run the checks with what the counter measured; only differences that cost money are reported
+      const carrierWeight = billableWeight(s.dims, actual, rules);
+      const posWeight = billableWeight(posDims, actual, rules);
+      const costs: string[] = [];
+      let amount = 0;
+      if (carrierWeight > posWeight) { costs.push(`billable ${carrierWeight} lb vs ${posWeight} lb`); amount += weightCost(s, carrierWeight, posWeight); }
+      if (s.handling > 0 && rules.handling && exceeds(rules.handling, s.dims, actual) && !exceeds(rules.handling, posDims, actual)) {
+        costs.push("additional handling only by carrier dimensions"); amount += s.handling;
+      }
+      if (s.large > 0 && rules.largePackage && exceeds(rules.largePackage, s.dims, 0) && !exceeds(rules.largePackage, posDims, 0)) {
+        costs.push("large package only by carrier dimensions"); amount += s.large;
+      }
+      if (costs.length) {
+        issues.push({
+          ...base, description: "Dimensions", amount: Number(amount.toFixed(2)),
+          note: `Carrier dimensions ${fmtDims(s.dims)} vs POS ${fmtDims(posDims)} — ${costs.join("; ")}`,
+        });
+      }
+    }
+
+    // The invoice's own dimensions decide whether the bill is self-consistent; POS dimensions stand in when it has none
+    const dims = s.dims ?? posDims;
+    if (!dims && !actual) return;
+    const source = s.dims ? "invoice dimensions" : "POS dimensions";
+
+    if (s.billed && actual) {
+      const supported = billableWeight(dims, actual, rules);
+      if (s.billed > supported + WEIGHT_TOLERANCE) {
+        issues.push({
+          ...base, description: "Billed Weight", amount: weightCost(s, s.billed, supported),
+          note: `Billed ${s.billed} lb; ${dims ? fmtDims(dims) + " (" + source + ") and " : ""}${actual} lb actual support ${supported} lb`,
+        });
+      }
+    }
+
+    if (s.handling > 0 && rules.handling && dims && !exceeds(rules.handling, dims, actual)) {
+      issues.push({
+        ...base, description: "Additional Handling", amount: Number(s.handling.toFixed(2)),
+        note: `Additional handling not supported by dimensions — ${fmtDims(dims)}, ${actual} lb (${source})`,
+      });
+    }
+    if (s.large > 0 && rules.largePackage && dims && !exceeds(rules.largePackage, dims, 0)) {
+      issues.push({
+        ...base, description: "Large Package", amount: Number(s.large.toFixed(2)),
+        note: `Large package not supported by dimensions — ${fmtDims(dims)}, length + girth ${lengthPlusGirth(dims).toFixed(1)} in (${source})`,
+      });
+    }
+  }
+
+  function finish(): ChargeIssue[] {
+    const issues: ChargeIssue[] = [];
+    perTrack.forEach((s) => check(s, issues));
+    return issues;
+  }
+
+  return { add, finish };
+}
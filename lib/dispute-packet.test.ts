@@ -0,0 +1,37 @@
+// lib/dispute-packet.test.ts — grouping overbilled rows into per-invoice packet sections
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getCarrier } from "@/lib/carriers";
+import type { ChargeIssue, Discrepancy } from "@/lib/audit";
+import { buildDisputePacket, packetByInvoice } from "@/lib/dispute-packet";
+
+const d = (tracking: string, invoice: string, difference: number, extra: Partial<Discrepancy> = {}): Discrepancy => ({
+  tracking, invoice, carrierAmount: 10 + difference, posAmount: 10, difference, note: difference > 0.01 ? "Overbilled" : "Match – OK", ...extra,
+});
+const ups = getCarrier("UPS");
+
+test("overbilled rows group by invoice, largest first, with their charges and reason", () => {
+  const issues: ChargeIssue[] = [
+    { tracking: "1ZB", carrier: "UPS", description: "Residential Surcharge", amount: 5, note: "Residential Surcharge — POS indicates BUSINESS, verify surcharge" },
+    { tracking: "1ZB", carrier: "UPS", description: "Residential Surcharge", amount: 5, note: "Possible duplicate charge" },
+  ];
+  const groups = packetByInvoice(
+    [d("1ZA", "INV2", 1), d("1ZB", "INV1", 2), d("1ZC", "INV1", 6, { invoiceDate: "01/08/2024" }), d("1ZD", "INV1", 0)],
+    issues, ups
+  );
+  assert.deepEqual(groups.map((g) => [g.invoice, g.lines.map((l) => l.d.tracking), g.total]), [["INV1", ["1ZC", "1ZB"], 8], ["INV2", ["1ZA"], 1]]);
+  assert.equal(groups[0].invoiceDate, "01/08/2024");
+  const b = groups[0].lines[1];
+  assert.deepEqual(b.charges, ["Residential Surcharge"]);
+  assert.match(b.reason, /\(UPS-/); // the carrier's own residential reason code
+});
+
+test("adjustments count in full toward the invoice total", () => {
+  const [g] = packetByInvoice([d("1ZA", "INV1", 0.5, { adjustments: 3, note: "Overbilled" })], [], ups);
+  assert.equal(g.total, 3);
+});
+
+test("nothing overbilled makes an empty packet", () => {
+  assert.deepEqual(packetByInvoice([d("1ZA", "INV1", 0), d("1ZB", "INV1", -2)], [], ups), []);
+  assert.ok(buildDisputePacket([], [], ups).getNumberOfPages() >= 1);
+});
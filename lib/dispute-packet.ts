@@ -0,0 +1,156 @@
+// lib/dispute-packet.ts — one PDF section per carrier invoice listing what to dispute on it
+import { jsPDF } from "jspdf";
+import { BRAND } from "@/lib/brand";
+import type { CarrierAdapter } from "@/lib/carriers";
+import { findingFor, reasonFor, writePlaybook } from "@/lib/playbook";
+import type { ChargeIssue, Discrepancy } from "@/lib/audit";
+
+const PAGE = { left: 48, right: 564, top: 64, bottom: 740 };
+
+// Table columns: x offset from the left margin and wrap width
+const COLS = [
+  { label: "Tracking #", x: 0, w: 118 },
+  { label: "Billed", x: 122, w: 50, right: true },
+  { label: "POS", x: 176, w: 50, right: true },
+  { label: "Difference", x: 230, w: 56, right: true },
+  { label: "Charges", x: 294, w: 96 },
+  { label: "Suggested reason", x: 396, w: 120 },
+] as const;
+
+export type PacketLine = {
+  d: Discrepancy;
+  charges: string[];
+  reason: string;
+};
+
+// Overbilled rows grouped by invoice, largest dollars first within each invoice
+export function packetByInvoice(discrepancies: Discrepancy[], issues: ChargeIssue[], carrier: CarrierAdapter) {
+  const byTracking = new Map<string, ChargeIssue[]>();
+  issues.forEach((i) => byTracking.set(i.tracking, [...(byTracking.get(i.tracking) ?? []), i]));
+
+  const groups = new Map<string, PacketLine[]>();
+  discrepancies
+    .filter((d) => d.note === "Overbilled")
+    .forEach((d) => {
+      const mine = byTracking.get(d.tracking) ?? [];
+      const line = { d, charges: [...new Set(mine.map((i) => i.description))], reason: reasonFor(carrier, findingFor(d, mine)) };
+      groups.set(d.invoice, [...(groups.get(d.invoice) ?? []), line]);
+    });
+
+  return [...groups.entries()]
+    .map(([invoice, lines]) => ({
+      invoice,
+      invoiceDate: lines.find((l) => l.d.invoiceDate)?.d.invoiceDate ?? "",
+      lines: lines.sort((a, b) => b.d.difference - a.d.difference),
+      total: lines.reduce((a, l) => a + Math.max(l.d.difference, l.d.adjustments ?? 0), 0),
+    }))
+    .sort((a, b) => a.invoice.localeCompare(b.invoice));
+}
+
+export function buildDisputePacket(discrepancies: Discrepancy[], issues: ChargeIssue[], carrier: CarrierAdapter) {
+  const doc = new jsPDF({ unit: "pt", format: "letter" });
+  const groups = packetByInvoice(discrepancies, issues, carrier);
+  const generated = new Date().toLocaleDateString();
+  let y = PAGE.top;
+
+  function brandBar() {
+    doc.setFillColor(BRAND.accent);
+    doc.rect(0, 0, 612, 8, "F");
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(10);
+    doc.setTextColor(BRAND.textMuted);
+    doc.text(`${BRAND.name} — ${carrier.name} dispute packet`, PAGE.left, 32);
+    doc.setTextColor(0);
+    y = PAGE.top;
+  }
+
+  function tableHeader() {
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(9);
+    COLS.forEach((c) => doc.text(c.label, PAGE.left + c.x + ("right" in c ? c.w : 0), y, { align: "right" in c ? "right" : "left" }));
+    y += 6;
+    doc.setDrawColor(BRAND.textMuted);
+    doc.line(PAGE.left, y, PAGE.right, y);
+    y += 12;
+    doc.setFont("helvetica", "normal");
+  }
+
+  function newPage(withHeader: boolean) {
+    doc.addPage();
+    brandBar();
+    if (withHeader) tableHeader();
+  }
+
+  brandBar();
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(18);
+  doc.text(`${carrier.name} Dispute Packet`, PAGE.left, y);
+  y += 20;
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(11);
+  const grand = groups.reduce((a, g) => a + g.total, 0);
+  const count = groups.reduce((a, g) => a + g.lines.length, 0);
+  doc.text(`Generated ${generated} · ${groups.length} invoice(s) · ${count} shipment(s) · $${grand.toFixed(2)} overbilled`, PAGE.left, y);
+  y += 24;
+
+  groups.forEach((g, gi) => {
+    if (gi > 0) newPage(false);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(14);
+    doc.text(`Invoice #${g.invoice || "(none on file)"}`, PAGE.left, y);
+    y += 16;
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(10);
+    doc.text(`${g.invoiceDate ? `Invoice date ${g.invoiceDate} · ` : ""}${g.lines.length} shipment(s) · $${g.total.toFixed(2)} to dispute`, PAGE.left, y);
+    y += 20;
+    tableHeader();
+
+    g.lines.forEach(({ d, charges, reason }) => {
+      const cells = [
+        d.tracking,
+        `$${d.carrierAmount.toFixed(2)}`,
+        `$${d.posAmount.toFixed(2)}`,
+        `$${d.difference.toFixed(2)}${d.adjustments ? ` (adj. $${d.adjustments.toFixed(2)})` : ""}`,
+        charges.join(", ") || "—",
+        reason,
+      ].map((text, i) => doc.splitTextToSize(text, COLS[i].w) as string[]);
+      const height = Math.max(...cells.map((c) => c.length)) * 11;
+      if (y + height > PAGE.bottom) newPage(true);
+      cells.forEach((lines, i) => {
+        const c = COLS[i];
+        doc.text(lines, PAGE.left + c.x + ("right" in c ? c.w : 0), y, { align: "right" in c ? "right" : "left" });
+      });
+      y += height + 4;
+    });
+
+    if (y + 20 > PAGE.bottom) newPage(false);
+    doc.line(PAGE.left, y, PAGE.right, y);
+    y += 14;
+    doc.setFont("helvetica", "bold");
+    doc.text(`Invoice total to dispute: $${g.total.toFixed(2)}`, PAGE.right, y, { align: "right" });
+  });
+
+  // Appendix: the carrier's playbook
+  if (carrier.playbook.steps.length) {
+    newPage(false);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(10);
+    doc.text("Appendix", PAGE.left, y);
+    writePlaybook(doc, carrier, y + 24, () => { brandBar(); return PAGE.top; });
+  }
+
+  const pages = doc.getNumberOfPages();
+  for (let p = 1; p <= pages; p++) {
+    doc.setPage(p);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(9);
+    doc.setTextColor(BRAND.textMuted);
+    doc.text(`Page ${p} of ${pages}`, PAGE.right, 770, { align: "right" });
+  }
+
+  return doc;
+}
+
+export function downloadDisputePacket(discrepancies: Discrepancy[], issues: ChargeIssue[], carrier: CarrierAdapter) {
+  buildDisputePacket(discrepancies, issues, carrier).save(`${carrier.name}_Dispute_Packet_${new Date().toISOString().slice(0, 10)}.pdf`);
+}
@@ -0,0 +1,45 @@
+// lib/disputes.test.ts — dispute targets, status history and filing deadlines
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Discrepancy } from "@/lib/audit";
+import { applyStatus, chargeIssueTarget, daysLeft, discrepancyTarget, disputeDeadline } from "@/lib/disputes";
+
+const over: Discrepancy = { tracking: "1ZA", invoice: "INV1", invoiceDate: "01/08/2024", carrierAmount: 12, posAmount: 10, difference: 2, note: "Overbilled" };
+
+test("targets keep a stable key across runs", () => {
+  const t = discrepancyTarget(over, "FedEx");
+  assert.equal(t.key, "FedEx:1ZA");
+  assert.equal(t.amount, 2);
+  assert.equal(discrepancyTarget({ ...over, carrier: "UPS" }, "FedEx").key, "UPS:1ZA"); // the row's own carrier wins
+  const adj = discrepancyTarget({ ...over, difference: 0.5, adjustments: 3 }, "USPS");
+  assert.deepEqual([adj.description, adj.amount], ["Postage adjustment", 3]);
+
+  const c = chargeIssueTarget({ tracking: "1ZA", carrier: "UPS", description: "Residential Surcharge", amount: 5.15, note: "Residential Surcharge" });
+  assert.equal(c.key, "UPS:1ZA:Residential Surcharge:5.15");
+  assert.equal(c.invoice, "");
+});
+
+test("each status change is appended and the first mover owns the dispute", () => {
+  const t = discrepancyTarget(over, "UPS");
+  const filed = applyStatus(t, undefined, { status: "disputed", by: "Sam", disputeId: "D-1", disputedOn: "2024-01-10" });
+  assert.equal(filed.owner, "Sam");
+  const credited = applyStatus(t, filed, { status: "credited", by: "Alex", refund: 2 });
+  assert.equal(credited.owner, "Sam");
+  assert.equal(credited.disputeId, "D-1");
+  assert.equal(credited.refund, 2);
+  assert.deepEqual(credited.history.map((h) => [h.status, h.by]), [["disputed", "Sam"], ["credited", "Alex"]]);
+  assert.equal(applyStatus(t, undefined, { status: "open", by: "Sam" }).owner, "");
+});
+
+test("the deadline is the carrier's dispute window after the invoice date", () => {
+  const ups = disputeDeadline("UPS", "01/08/2024");
+  assert.equal(ups?.toDateString(), new Date(2024, 6, 6).toDateString()); // 180 days
+  assert.equal(daysLeft(ups!, new Date(2024, 6, 1)), 5);
+  assert.equal(daysLeft(ups!, new Date(2024, 6, 10)), -4);
+});
+
+test("a missing or unreadable invoice date has no deadline", () => {
+  assert.equal(disputeDeadline("UPS"), null);
+  assert.equal(disputeDeadline("UPS", "not a date"), null);
+  assert.equal(disputeDeadline("FedEx", "2024-13-45"), null);
+});
@@ -0,0 +1,212 @@
+// lib/disputes.ts — dispute lifecycle per overbilled discrepancy / charge issue, kept in IndexedDB
+import { addDays, differenceInCalendarDays, format } from "date-fns";
+import { getCarrier, type CarrierId } from "@/lib/carriers";
+import { DISPUTES, hasIndexedDb, withStore } from "@/lib/idb";
+import { tryParseDate } from "@/lib/parse";
+import type { ChargeIssue, Discrepancy } from "@/lib/audit";
+import type { UpsDisputeOutcome } from "@/lib/carriers/ups-dispute-history";
+
+export type DisputeStatus = "open" | "disputed" | "approved" | "denied" | "credited";
+
+export const DISPUTE_STATUSES: { value: DisputeStatus; label: string }[] = [
+  { value: "open", label: "Open" },
+  { value: "disputed", label: "Disputed" },
+  { value: "approved", label: "Approved" },
+  { value: "denied", label: "Denied" },
+  { value: "credited", label: "Credited" },
+];
+
+// Still needs someone's attention: not filed yet, waiting on the carrier, or approved but not credited
+export const OPEN_STATUSES: readonly DisputeStatus[] = ["open", "disputed", "approved"];
+
+// What a dispute is about; the key is stable across runs so status carries over week to week
+export type DisputeTarget = {
+  key: string;
+  kind: "discrepancy" | "charge";
+  carrier: CarrierId;
+  tracking: string;
+  invoice: string;
+  invoiceDate?: string;
+  description: string;
+  amount: number;
+};
+
+export type DisputeEvent = {
+  status: DisputeStatus;
+  at: string; // ISO timestamp
+  by: string;
+  note?: string;
+  disputeId?: string;
+  disputedOn?: string; // yyyy-MM-dd
+  refund?: number;
+};
+
+export type Dispute = DisputeTarget & {
+  status: DisputeStatus;
+  disputeId?: string;
+  disputedOn?: string;
+  refund?: number; // credited back by the carrier
+  owner: string; // whoever first moved it off "open"
+  history: DisputeEvent[];
+  updatedAt: string;
+};
+
+export function discrepancyTarget(d: Discrepancy, carrier: CarrierId): DisputeTarget {
+  const c = d.carrier ?? carrier;
+  return {
+    key: `${c}:${d.tracking}`,
+    kind: "discrepancy",
+    carrier: c,
+    tracking: d.tracking,
+    invoice: d.invoice,
+    invoiceDate: d.invoiceDate,
+    description: d.adjustments ? "Postage adjustment" : "Overbilled vs POS",
+    amount: Math.max(d.difference, d.adjustments ?? 0),
+  };
+}
+
+export function chargeIssueTarget(i: ChargeIssue): DisputeTarget {
+  return {
+    key: `${i.carrier}:${i.tracking}:${i.description}:${i.amount.toFixed(2)}`,
+    kind: "charge",
+    carrier: i.carrier as CarrierId,
+    tracking: i.tracking,
+    invoice: i.invoice ?? "",
+    invoiceDate: i.invoiceDate,
+    description: `${i.description} — ${i.note}`,
+    amount: i.amount,
+  };
+}
+
+// New state after a status change; every change is appended to the history
+export function applyStatus(target: DisputeTarget, prev: Dispute | undefined, change: Omit<DisputeEvent, "at">): Dispute {
+  const at = new Date().toISOString();
+  const disputeId = change.disputeId || prev?.disputeId;
+  const disputedOn = change.disputedOn || prev?.disputedOn;
+  const refund = change.refund ?? prev?.refund;
+  return {
+    ...prev,
+    ...target,
+    status: change.status,
+    disputeId,
+    disputedOn,
+    refund,
+    owner: prev?.owner || (change.status !== "open" ? change.by : ""),
+    history: [...(prev?.history ?? []), { ...change, at, disputeId, disputedOn, refund }],
+    updatedAt: at,
+  };
+}
+
+// Last day the carrier accepts a billing dispute for this invoice
+export function disputeDeadline(carrier: CarrierId, invoiceDate?: string) {
+  if (!invoiceDate) return null;
+  const adapter = getCarrier(carrier);
+  const d = adapter.parseDate(invoiceDate);
+  return d && !isNaN(d.getTime()) ? addDays(d, adapter.playbook.windowDays) : null;
+}
+
+export function daysLeft(deadline: Date, now = new Date()) {
+  return differenceInCalendarDays(deadline, now);
+}
+
+// Most decisive outcome wins when UPS lists several lines for one shipment
+const OUTCOME_RANK: Record<DisputeStatus, number> = { open: 0, disputed: 1, denied: 2, approved: 3, credited: 4 };
+
+function isoDate(s: string) {
+  const d = s ? tryParseDate(s) : null;
+  return d && !isNaN(d.getTime()) ? format(d, "yyyy-MM-dd") : undefined;
+}
+
+// Match UPS dispute-history lines to audited targets by tracking (+ invoice when both sides have one)
+// and return the disputes whose status or refund changed
+export function applyDisputeHistory(
+  outcomes: UpsDisputeOutcome[],
+  targets: DisputeTarget[],
+  existing: Record<string, Dispute>,
+  by: string
+) {
+  const byTracking = new Map<string, DisputeTarget[]>();
+  targets.filter((t) => t.carrier === "UPS").forEach((t) => {
+    const k = t.tracking.toUpperCase();
+    byTracking.set(k, [...(byTracking.get(k) ?? []), t]);
+  });
+
+  const matched = new Map<string, { target: DisputeTarget; lines: UpsDisputeOutcome[] }>();
+  const unmatched: UpsDisputeOutcome[] = [];
+  for (const o of outcomes) {
+    const cands = (byTracking.get(o.tracking) ?? []).filter((t) => !o.invoice || !t.invoice || t.invoice === o.invoice);
+    const pick =
+      cands.find((t) => o.disputeId && existing[t.key]?.disputeId === o.disputeId) ??
+      cands.find((t) => t.kind === "discrepancy") ??
+      cands[0];
+    if (!pick) { unmatched.push(o); continue; }
+    const m = matched.get(pick.key) ?? { target: pick, lines: [] };
+    m.lines.push(o);
+    matched.set(pick.key, m);
+  }
+
+  const updated: Dispute[] = [];
+  for (const { target, lines } of matched.values()) {
+    const best = lines.reduce((a, b) => (OUTCOME_RANK[b.status] > OUTCOME_RANK[a.status] ? b : a));
+    const refund = Number(lines.reduce((a, l) => a + l.refund, 0).toFixed(2));
+    const prev = existing[target.key];
+    if (prev && prev.status === best.status && (prev.refund ?? 0) === refund) continue;
+    updated.push(applyStatus(target, prev, {
+      status: best.status,
+      by,
+      note: `UPS Dispute & Refund History${best.reason ? `: ${best.reason}` : ""}`,
+      disputeId: best.disputeId || undefined,
+      disputedOn: isoDate(best.submitted),
+      refund: refund || undefined,
+    }));
+  }
+  return { updated, unmatched };
+}
+
+export type RecoveryReport = {
+  flaggedCount: number;
+  flagged: number;
+  disputedCount: number;
+  approvedCount: number;
+  deniedCount: number;
+  recovered: number;
+};
+
+// Dollars credited back against everything the audits flagged (targets and tracked disputes, once each)
+export function recoveryReport(targets: DisputeTarget[], disputes: Record<string, Dispute>): RecoveryReport {
+  const all = new Map<string, DisputeTarget>(targets.map((t) => [t.key, t]));
+  Object.values(disputes).forEach((d) => all.set(d.key, d));
+  const r: RecoveryReport = { flaggedCount: 0, flagged: 0, disputedCount: 0, approvedCount: 0, deniedCount: 0, recovered: 0 };
+  for (const t of all.values()) {
+    const d = disputes[t.key];
+    r.flaggedCount++;
+    r.flagged += t.amount;
+    if (d && d.status !== "open") r.disputedCount++;
+    if (d?.status === "approved" || d?.status === "credited") r.approvedCount++;
+    if (d?.status === "denied") r.deniedCount++;
+    r.recovered += d?.refund ?? 0;
+  }
+  return r;
+}
+
+export async function listDisputes(): Promise<Dispute[]> {
+  if (!hasIndexedDb()) return [];
+  return withStore<Dispute[]>(DISPUTES, "readonly", (s) => s.getAll());
+}
+
+export async function saveDispute(d: Dispute) {
+  await withStore(DISPUTES, "readwrite", (s) => s.put(d));
+  return d;
+}
+
+// Name recorded on status changes; one person per browser is enough for a counter store
+const USER_KEY = "parcel-audit:user";
+
+export function getCurrentUser() {
+  if (typeof window === "undefined") return "";
+  return window.localStorage.getItem(USER_KEY) || "";
+}
+
+export function setCurrentUser(name: string) {
+  window.localStorage.setItem(USER_KEY, name.trim());
+}
@@ -0,0 +1,71 @@
+// lib/gsr.test.ts — refund claims from late deliveries, and which exceptions keep a shipment out
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getCarrier } from "@/lib/carriers";
+import { isGuaranteeCredit, type LateRow } from "@/lib/audit";
+import { buildGsrClaims, gsrClaimCsv, isExcludedException } from "@/lib/gsr";
+
+test("receiver-caused and carrier-suspended exceptions are excluded", () => {
+  [
+    "The receiver was not available for delivery",
+    "Customer not available or business closed",
+    "Customer not in",
+    "Consignee closed",
+    "The receiver's location was closed",
+    "Receiver requested delivery on another date",
+    "Customer requested future delivery",
+    "Delivery refused by recipient",
+    "Incorrect recipient address",
+    "The address was incorrect",
+    "Held at UPS Access Point at customer request",
+    "Severe weather conditions have delayed delivery",
+    "Local emergency",
+    "Customs clearance delay",
+  ].forEach((e) => assert.equal(isExcludedException(e), true, e));
+});
+
+test("exceptions that only mention the receiver are still claimed", () => {
+  [
+    "Delivered to receiver",
+    "Recipient notified",
+    "Customer requested status",
+    "Consignee signature obtained",
+    "Package transferred to receiving facility",
+    "Late delivery — missed commitment",
+    "Delay in transit",
+  ].forEach((e) => assert.equal(isExcludedException(e), false, e));
+});
+
+const late = (tracking: string, extra: Partial<LateRow> = {}): LateRow => ({
+  tracking, carrier: "UPS", service: "UPS Next Day Air", shipDate: "01/04/2024", delivered: "2024-01-05 13:40",
+  invoice: "INV1", promised: "2024-01-05 10:30", transportation: 25.5, ...extra,
+});
+
+test("one claim per late shipment; credited, excepted and chargeless rows are excluded with a reason", () => {
+  const { claims, excluded } = buildGsrClaims([
+    late("1ZA"), late("1ZA"), late("1ZB"), late("1ZC", { exception: "Customer not available" }), late("1ZD", { transportation: 0 }),
+  ], ["1ZB"]);
+  assert.deepEqual(claims.map((c) => [c.tracking, c.refund, c.commitment]), [["1ZA", 25.5, "2024-01-05 10:30"]]);
+  assert.deepEqual(excluded.map((e) => [e.row.tracking, e.reason]), [
+    ["1ZB", "Already credited"],
+    ["1ZC", "Excluded exception: Customer not available"],
+    ["1ZD", "No transportation charge to refund"],
+  ]);
+});
+
+test("claim CSVs follow each carrier's template and keep only its shipments", () => {
+  const { claims } = buildGsrClaims([late("1ZA"), late("794600000001", { carrier: "FedEx" })]);
+  const [header, row, extra] = gsrClaimCsv("FedEx", claims).split("\r\n");
+  assert.equal(header, "Tracking ID,Invoice Number,Ship Date,Service Type,Commit Date/Time,POD Date/Time,Transportation Charge");
+  assert.equal(row, "794600000001,INV1,01/04/2024,UPS Next Day Air,2024-01-05 10:30,2024-01-05 13:40,25.50");
+  assert.equal(extra, undefined);
+  assert.equal(gsrClaimCsv("DHL", claims).trim().split("\r\n").length, 1); // header only
+});
+
+test("guarantee credits already on the invoice are recognised", () => {
+  const ups = getCarrier("UPS");
+  assert.equal(isGuaranteeCredit({ "Charge Description": "Service Guarantee Refund", "Billed Charge": "-25.50" }, ups), true);
+  assert.equal(isGuaranteeCredit({ "Charge Description": "Service Guarantee Refund", "Billed Charge": "25.50" }, ups), false);
+  assert.equal(isGuaranteeCredit({ "Charge Description": "Residential Surcharge", "Billed Charge": "-4.00" }, ups), false);
+  assert.equal(isGuaranteeCredit({}, ups), false);
+});
@@ -0,0 +1,135 @@
+// lib/gsr.ts — Guaranteed Service Refund claims from late-delivery results
+import * as Papa from "papaparse";
+import type { CarrierId } from "@/lib/carriers";
+import type { LateRow } from "@/lib/audit";
+
+export type GsrClaim = {
+  carrier: CarrierId;
+  tracking: string;
+  invoice: string;
+  service: string;
+  shipDate: string;
+  commitment: string;
+  delivered: string;
+  refund: number;
+  // Same moments with a zone label, at the destination and in the auditor's zone (display only)
+  commitmentDest?: string;
+  deliveredDest?: string;
+  commitmentLocal?: string;
+  deliveredLocal?: string;
+};
+
+export type GsrExclusion = { row: LateRow; reason: string };
+
+// Exceptions the guarantee does not cover: the receiver caused the delay, or the carrier suspended it.
+// Carrier exception phrases only; a bare party name ("Delivered to receiver", "Recipient notified") is not one.
+const CUSTOMER_DELAY_RX = /(customer|consignee|receiver|recipient)('?s)?\s*(was\s*)?(not\s*(available|in|home)|unavailable|moved|(location\s*(was\s*)?)?closed|(has\s*)?requested\s*(a\s*)?(future|later|another|different|new|delivery|hold|redirect|change))|requested\s*by\s*(the\s*)?(customer|consignee|receiver|recipient)|refused|business\s*closed|closed\s*(on\s*)?(arrival|delivery)|incorrect\s*(recipient\s*)?address|address\s*(was\s*)?(incorrect|incomplete|correct(ed|ion))|held\s*at|will\s*call|weather|emergency|act\s*of\s*god|customs|clearance\s*delay|security\s*delay/i;
+
+export function isExcludedException(exception: string) {
+  return CUSTOMER_DELAY_RX.test(exception);
+}
+
+// Column layout of each carrier's bulk refund request; header text follows the carrier's own template
+type ClaimColumn = { header: string; value: (c: GsrClaim) => string };
+
+const money = (n: number) => n.toFixed(2);
+
+export const GSR_FORMATS: Record<CarrierId, { title: string; columns: ClaimColumn[] }> = {
+  UPS: {
+    title: "UPS Service Guarantee refund request",
+    columns: [
+      { header: "Tracking Number", value: (c) => c.tracking },
+      { header: "Invoice Number", value: (c) => c.invoice },
+      { header: "Ship Date", value: (c) => c.shipDate },
+      { header: "Service Level", value: (c) => c.service },
+      { header: "Scheduled Delivery", value: (c) => c.commitment },
+      { header: "Actual Delivery", value: (c) => c.delivered },
+      { header: "Refund Amount", value: (c) => money(c.refund) },
+    ],
+  },
+  FedEx: {
+    title: "FedEx Money-Back Guarantee request",
+    columns: [
+      { header: "Tracking ID", value: (c) => c.tracking },
+      { header: "Invoice Number", value: (c) => c.invoice },
+      { header: "Ship Date", value: (c) => c.shipDate },
+      { header: "Service Type", value: (c) => c.service },
+      { header: "Commit Date/Time", value: (c) => c.commitment },
+      { header: "POD Date/Time", value: (c) => c.delivered },
+      { header: "Transportation Charge", value: (c) => money(c.refund) },
+    ],
+  },
+  DHL: {
+    title: "DHL Express delivery guarantee claim",
+    columns: [
+      { header: "Waybill Number", value: (c) => c.tracking },
+      { header: "Invoice Number", value: (c) => c.invoice },
+      { header: "Shipment Date", value: (c) => c.shipDate },
+      { header: "Product", value: (c) => c.service },
+      { header: "Committed Delivery", value: (c) => c.commitment },
+      { header: "Actual Delivery", value: (c) => c.delivered },
+      { header: "Claim Amount", value: (c) => money(c.refund) },
+    ],
+  },
+  USPS: {
+    title: "Priority Mail Express postage refund",
+    columns: [
+      { header: "Tracking Number", value: (c) => c.tracking },
+      { header: "Transaction ID", value: (c) => c.invoice },
+      { header: "Mailing Date", value: (c) => c.shipDate },
+      { header: "Guaranteed By", value: (c) => c.commitment },
+      { header: "Delivered", value: (c) => c.delivered },
+      { header: "Postage Amount", value: (c) => money(c.refund) },
+    ],
+  },
+};
+
+// One claim per shipment; anything the carrier would reject goes to `excluded` with the reason
+export function buildGsrClaims(late: LateRow[], credited: Iterable<string> = []) {
+  const done = new Set(credited);
+  const seen = new Set<string>();
+  const claims: GsrClaim[] = [];
+  const excluded: GsrExclusion[] = [];
+
+  for (const row of late) {
+    const key = `${row.carrier}|${row.tracking}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    if (done.has(row.tracking)) { excluded.push({ row, reason: "Already credited" }); continue; }
+    if (row.exception && isExcludedException(row.exception)) { excluded.push({ row, reason: `Excluded exception: ${row.exception}` }); continue; }
+    if (!row.transportation || row.transportation <= 0) { excluded.push({ row, reason: "No transportation charge to refund" }); continue; }
+    claims.push({
+      carrier: row.carrier,
+      tracking: row.tracking,
+      invoice: row.invoice ?? "",
+      service: row.service,
+      shipDate: row.shipDate,
+      commitment: row.promised ?? "",
+      delivered: row.delivered,
+      refund: row.transportation,
+      commitmentDest: row.promisedDest,
+      deliveredDest: row.deliveredDest,
+      commitmentLocal: row.promisedLocal,
+      deliveredLocal: row.deliveredLocal,
+    });
+  }
+  return { claims, excluded };
+}
+
+export function gsrClaimCsv(carrier: CarrierId, claims: GsrClaim[]) {
+  const { columns } = GSR_FORMATS[carrier];
+  return Papa.unparse({
+    fields: columns.map((c) => c.header),
+    data: claims.filter((c) => c.carrier === carrier).map((c) => columns.map((col) => col.value(c))),
+  });
+}
+
+export function downloadGsrClaims(carrier: CarrierId, claims: GsrClaim[]) {
+  const blob = new Blob([gsrClaimCsv(carrier, claims)], { type: "text/csv;charset=utf-8;" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${carrier}_GSR_claims_${new Date().toISOString().slice(0, 10)}.csv`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
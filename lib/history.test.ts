@@ -0,0 +1,25 @@
+// lib/history.test.ts — saved runs outside a browser with IndexedDB
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { summarize } from "@/lib/audit";
+import { deleteRun, getRun, listRuns, newRunId, saveRun, type AuditRun } from "@/lib/history";
+
+test("run ids are unique", () => {
+  const ids = new Set(Array.from({ length: 50 }, newRunId));
+  assert.equal(ids.size, 50);
+  assert.match(newRunId(), /^[0-9a-z]+-[0-9a-z]{1,6}$/);
+});
+
+test("without IndexedDB there are no runs to list or open", async () => {
+  assert.deepEqual(await listRuns(), []);
+  assert.equal(await getRun("missing"), null);
+});
+
+test("saving or deleting without IndexedDB rejects instead of pretending to succeed", async () => {
+  const run: AuditRun = {
+    id: newRunId(), createdAt: new Date().toISOString(), carrier: "UPS", files: [], carrierRows: 0, posRows: 0,
+    summary: summarize([]), discrepancies: [], late: [], issues: [],
+  };
+  await assert.rejects(saveRun(run), ReferenceError);
+  await assert.rejects(deleteRun(run.id), ReferenceError);
+});
@@ -0,0 +1,48 @@
+// lib/history.ts — completed audit runs, kept in the browser's IndexedDB
+import type { CarrierId } from "@/lib/carriers";
+import type { FileKind } from "@/lib/detect";
+import type { AuditSummary, ChargeIssue, Discrepancy, LateRow } from "@/lib/audit";
+import { RUNS, hasIndexedDb, withStore } from "@/lib/idb";
+import type { ReweighRow } from "@/lib/reweigh";
+import type { ResidentialRow } from "@/lib/residential";
+
+export type AuditRun = {
+  id: string;
+  createdAt: string; // ISO timestamp
+  carrier: CarrierId;
+  files: { name: string; kind: FileKind }[];
+  carrierRows: number;
+  posRows: number;
+  summary: AuditSummary;
+  discrepancies: Discrepancy[];
+  late: LateRow[];
+  credited?: string[];
+  issues: ChargeIssue[];
+  reweighs?: ReweighRow[];
+  residential?: ResidentialRow[];
+};
+
+export function newRunId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export async function saveRun(run: AuditRun) {
+  await withStore(RUNS, "readwrite", (s) => s.put(run));
+  return run;
+}
+
+export async function getRun(id: string): Promise<AuditRun | null> {
+  if (!hasIndexedDb()) return null;
+  return (await withStore<AuditRun | undefined>(RUNS, "readonly", (s) => s.get(id))) ?? null;
+}
+
+// Newest first
+export async function listRuns(): Promise<AuditRun[]> {
+  if (!hasIndexedDb()) return [];
+  const runs = await withStore<AuditRun[]>(RUNS, "readonly", (s) => s.getAll());
+  return runs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function deleteRun(id: string) {
+  await withStore(RUNS, "readwrite", (s) => s.delete(id));
+}
@@ -0,0 +1,56 @@
+// lib/holidays.test.ts — carrier holiday calendars in the commitment math
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { format } from "date-fns";
+import { getCarrier } from "@/lib/carriers";
+import { lateCheck } from "@/lib/audit";
+import { addDeliveryDays, calendarFor, defaultHolidays, holidayChecker } from "@/lib/holidays";
+
+const ymd = (d: Date) => format(d, "yyyy-MM-dd");
+
+test("default calendars move weekend holidays to the observed weekday", () => {
+  const days = defaultHolidays("UPS", 2026).map((h) => h.date);
+  assert.ok(days.includes("2026-11-26"), "Thanksgiving");
+  assert.ok(days.includes("2026-07-03"), "July 4th on a Saturday is observed Friday");
+  assert.ok(!days.includes("2026-01-19"), "UPS delivers on MLK Day");
+  assert.ok(defaultHolidays("USPS", 2026).some((h) => h.date === "2026-01-19"));
+});
+
+test("saved calendars replace the defaults for their year only", () => {
+  const overrides = { "UPS:2024": { carrier: "UPS" as const, year: 2024, holidays: [{ date: "2024-11-29", name: "Closed" }], version: 1, updatedAt: "" } };
+  const isHoliday = holidayChecker("UPS", overrides);
+  assert.equal(isHoliday(new Date(2024, 10, 29)), true);
+  assert.equal(isHoliday(new Date(2024, 10, 28)), false);
+  assert.equal(isHoliday(new Date(2025, 10, 27)), true);
+  assert.equal(calendarFor("UPS", 2025, overrides).version, 0);
+});
+
+test("delivery days skip weekends and holidays, and count Saturdays for Saturday services", () => {
+  const isHoliday = holidayChecker("UPS");
+  const shipped = new Date(2024, 10, 27); // Wednesday before Thanksgiving
+  assert.equal(ymd(addDeliveryDays(shipped, 2, { isHoliday })), "2024-12-02");
+  assert.equal(ymd(addDeliveryDays(shipped, 2, { isHoliday, saturday: true })), "2024-11-30");
+});
+
+test("an invalid date is never a holiday", () => {
+  assert.equal(holidayChecker("UPS")(new Date(NaN)), false);
+});
+
+const row = (shipDate: string, podDate: string, podTime = "10:00") => ({
+  "Tracking Number": "1Z999AA10123456784", Service: "UPS 2nd Day Air", "Ship Date": shipDate,
+  "Delivery Date": podDate, "Delivery Time": podTime, "Receiver Postal": "10001", "Net Charges": "12.50",
+});
+
+test("a delivery pushed back by Thanksgiving is on time", () => {
+  assert.equal(lateCheck(row("11/27/2024", "12/02/2024"), getCarrier("UPS")), null);
+  assert.ok(lateCheck(row("11/27/2024", "12/03/2024"), getCarrier("UPS")));
+});
+
+test("rows with unparseable dates are skipped instead of failing the audit", () => {
+  const ups = getCarrier("UPS");
+  assert.equal(lateCheck(row("not a date", "12/02/2024"), ups), null);
+  assert.equal(lateCheck(row("11/27/2024", "13/45/2024"), ups), null);
+  const invalid = { ...ups, parseDate: () => new Date(NaN) };
+  assert.doesNotThrow(() => lateCheck(row("11/27/2024", "12/02/2024"), invalid));
+  assert.equal(lateCheck(row("11/27/2024", "12/02/2024"), invalid), null);
+});
@@ -0,0 +1,131 @@
+// lib/holidays.ts — carrier holiday calendars for business-day commitment math
+import { format } from "date-fns";
+import type { CarrierId } from "@/lib/carriers";
+
+type HolidayRule = { name: string; date: (year: number) => Date };
+
+// nth weekday (0 = Sunday) of a month; n = -1 for the last one
+function nthWeekday(year: number, month: number, weekday: number, n: number) {
+  if (n > 0) {
+    const first = new Date(year, month, 1);
+    return new Date(year, month, 1 + ((weekday - first.getDay() + 7) % 7) + (n - 1) * 7);
+  }
+  const last = new Date(year, month + 1, 0);
+  return new Date(year, month, last.getDate() - ((last.getDay() - weekday + 7) % 7));
+}
+
+// Fixed-date holidays move to Friday when they fall on Saturday and Monday when on Sunday
+function observed(year: number, month: number, day: number) {
+  const d = new Date(year, month, day);
+  if (d.getDay() === 6) d.setDate(d.getDate() - 1);
+  else if (d.getDay() === 0) d.setDate(d.getDate() + 1);
+  return d;
+}
+
+const NEW_YEAR: HolidayRule = { name: "New Year's Day", date: (y) => observed(y, 0, 1) };
+const MLK: HolidayRule = { name: "Martin Luther King Jr. Day", date: (y) => nthWeekday(y, 0, 1, 3) };
+const PRESIDENTS: HolidayRule = { name: "Presidents' Day", date: (y) => nthWeekday(y, 1, 1, 3) };
+const MEMORIAL: HolidayRule = { name: "Memorial Day", date: (y) => nthWeekday(y, 4, 1, -1) };
+const JUNETEENTH: HolidayRule = { name: "Juneteenth", date: (y) => observed(y, 5, 19) };
+const JULY_4: HolidayRule = { name: "Independence Day", date: (y) => observed(y, 6, 4) };
+const LABOR: HolidayRule = { name: "Labor Day", date: (y) => nthWeekday(y, 8, 1, 1) };
+const COLUMBUS: HolidayRule = { name: "Columbus Day", date: (y) => nthWeekday(y, 9, 1, 2) };
+const VETERANS: HolidayRule = { name: "Veterans Day", date: (y) => observed(y, 10, 11) };
+const THANKSGIVING: HolidayRule = { name: "Thanksgiving", date: (y) => nthWeekday(y, 10, 4, 4) };
+const CHRISTMAS: HolidayRule = { name: "Christmas Day", date: (y) => observed(y, 11, 25) };
+
+// Days with no pickup or delivery; modified-service days (Black Friday, Christmas Eve) still count
+const CARRIER_HOLIDAYS: Record<CarrierId, readonly HolidayRule[]> = {
+  UPS: [NEW_YEAR, MEMORIAL, JULY_4, LABOR, THANKSGIVING, CHRISTMAS],
+  FedEx: [NEW_YEAR, MEMORIAL, JULY_4, LABOR, THANKSGIVING, CHRISTMAS],
+  DHL: [NEW_YEAR, MEMORIAL, JULY_4, LABOR, THANKSGIVING, CHRISTMAS],
+  USPS: [NEW_YEAR, MLK, PRESIDENTS, MEMORIAL, JUNETEENTH, JULY_4, LABOR, COLUMBUS, VETERANS, THANKSGIVING, CHRISTMAS],
+};
+
+export type Holiday = { date: string; name: string }; // date as yyyy-MM-dd
+
+export type HolidayVersion = { version: number; updatedAt: string; holidays: Holiday[] };
+
+// One carrier's calendar for one year; version goes up on every edit and the replaced versions are kept, newest first
+export type HolidayCalendar = HolidayVersion & {
+  carrier: CarrierId;
+  year: number;
+  previous?: HolidayVersion[];
+};
+
+// User-edited calendars keyed `${carrier}:${year}`; years without an entry use the defaults
+export type HolidayOverrides = Record<string, HolidayCalendar>;
+
+const ymd = (d: Date) => format(d, "yyyy-MM-dd");
+const calendarKey = (carrier: CarrierId, year: number) => `${carrier}:${year}`;
+
+export function defaultHolidays(carrier: CarrierId, year: number): Holiday[] {
+  return CARRIER_HOLIDAYS[carrier].map((h) => ({ date: ymd(h.date(year)), name: h.name }));
+}
+
+export function calendarFor(carrier: CarrierId, year: number, overrides: HolidayOverrides = {}): HolidayCalendar {
+  return overrides[calendarKey(carrier, year)] ?? { carrier, year, holidays: defaultHolidays(carrier, year), version: 0, updatedAt: "" };
+}
+
+// Fast holiday test for the commitment math; calendars are built per year on first use
+export function holidayChecker(carrier: CarrierId, overrides: HolidayOverrides = {}) {
+  const years = new Map<number, Set<string>>();
+  return (d: Date) => {
+    if (isNaN(d.getTime())) return false;
+    const y = d.getFullYear();
+    if (!years.has(y)) years.set(y, new Set(calendarFor(carrier, y, overrides).holidays.map((h) => h.date)));
+    return years.get(y)!.has(ymd(d));
+  };
+}
+
+export type DeliveryCalendar = { isHoliday: (d: Date) => boolean; saturday?: boolean };
+
+export function isDeliveryDay(d: Date, cal: DeliveryCalendar) {
+  const w = d.getDay();
+  if (w === 0 || (w === 6 && !cal.saturday)) return false;
+  return !cal.isHoliday(d);
+}
+
+// addBusinessDays that also skips carrier holidays and, for Saturday services, counts Saturdays
+export function addDeliveryDays(start: Date, days: number, cal: DeliveryCalendar) {
+  const d = new Date(start);
+  let left = days;
+  while (left > 0) {
+    d.setDate(d.getDate() + 1);
+    if (isDeliveryDay(d, cal)) left--;
+  }
+  return d;
+}
+
+const STORAGE_KEY = "parcel-audit:holiday-calendars";
+
+export function loadHolidayOverrides(): HolidayOverrides {
+  if (typeof window === "undefined") return {};
+  try {
+    return JSON.parse(window.localStorage.getItem(STORAGE_KEY) || "{}") as HolidayOverrides;
+  } catch {
+    return {};
+  }
+}
+
+export function saveHolidayCalendar(carrier: CarrierId, year: number, holidays: Holiday[]) {
+  const all = loadHolidayOverrides();
+  const prev = calendarFor(carrier, year, all);
+  const next: HolidayCalendar = {
+    carrier,
+    year,
+    holidays: [...holidays].sort((a, b) => a.date.localeCompare(b.date)),
+    version: prev.version + 1,
+    updatedAt: new Date().toISOString(),
+    previous: prev.version
+      ? [{ version: prev.version, updatedAt: prev.updatedAt, holidays: prev.holidays }, ...(prev.previous ?? [])]
+      : [],
+  };
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...all, [calendarKey(carrier, year)]: next }));
+  return next;
+}
+
+// Saved as a new version, so the edited calendar stays in the history
+export function resetHolidayCalendar(carrier: CarrierId, year: number) {
+  return saveHolidayCalendar(carrier, year, defaultHolidays(carrier, year));
+}
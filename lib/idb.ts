@@ -0,0 +1,44 @@
+// lib/idb.ts — the app's IndexedDB database (saved runs, dispute tracking, contract rate cards, zone charts, DAS ZIP lists)
+const DB_NAME = "parcel-audit";
+const DB_VERSION = 5;
+
+export const RUNS = "runs";
+export const DISPUTES = "disputes";
+export const RATE_CARDS = "rateCards";
+export const ZONE_CHARTS = "zoneCharts";
+export const DAS_LISTS = "dasLists";
+
+const KEY_PATHS: Record<string, string> = { [RUNS]: "id", [DISPUTES]: "key", [RATE_CARDS]: "carrier", [ZONE_CHARTS]: "id", [DAS_LISTS]: "id" };
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    // Each version only adds stores, so creating whatever is missing covers every upgrade path
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      for (const [name, keyPath] of Object.entries(KEY_PATHS)) {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath });
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export const hasIndexedDb = () => typeof indexedDB !== "undefined";
+
+// One request in its own transaction; resolves once the transaction commits
+export async function withStore<T>(store: string, mode: IDBTransactionMode, fn: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(store, mode);
+      const req = fn(tx.objectStore(store));
+      tx.oncomplete = () => resolve(req.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,43 @@
+// lib/mapping.test.ts — column mappings and the adapters they produce
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getCarrier } from "@/lib/carriers";
+import { getPosSource } from "@/lib/pos";
+import { addCarrierRow, type CarrierMap } from "@/lib/audit";
+import { defaultMapping, headerSignature, loadProfiles, resolveColumn, withCarrierMapping, withPosMapping } from "@/lib/mapping";
+
+test("header signatures ignore order, case and punctuation", () => {
+  assert.equal(headerSignature(["Tracking #", "Amount", ""]), headerSignature(["amount", "TRACKING"]));
+  assert.notEqual(headerSignature(["Tracking", "Amount"]), headerSignature(["Tracking", "Total"]));
+});
+
+test("the default mapping is what the adapter's aliases would pick", () => {
+  assert.equal(resolveColumn(["tracking number"], ["Tracking Number"]), "tracking number");
+  assert.equal(resolveColumn(["Waybill"], ["Tracking Number"]), "");
+  assert.deepEqual(defaultMapping(["Tracking Number", "Billed Charge", "Invoice Number", "Misc"], getCarrier("UPS")), {
+    tracking: "Tracking Number", amount: "Billed Charge", invoice: "Invoice Number",
+  });
+  assert.deepEqual(defaultMapping(["Tracking #", "PostalMate", "Weight"], getPosSource("PostalMate")), {
+    tracking: "Tracking #", amount: "PostalMate", weight: "Weight",
+  });
+  assert.deepEqual(defaultMapping(["Ref", "Total"], getCarrier("UPS")), {}); // nothing required resolves
+});
+
+test("mapped headers are tried before the adapter's own aliases", () => {
+  const ups = withCarrierMapping(getCarrier("UPS"), [{ tracking: "Pkg Ref", amount: "Cost" }, undefined]);
+  assert.equal(ups.columns.tracking[0], "Pkg Ref");
+  assert.deepEqual(ups.columns.netCharge.slice(0, 1), ["Cost"]);
+  assert.ok(getCarrier("UPS").columns.tracking[0] !== "Pkg Ref"); // the registry adapter is untouched
+
+  const map: CarrierMap = {};
+  addCarrierRow(map, { "Pkg Ref": "1ZA", Cost: "4.25" }, ups);
+  assert.equal(map["1ZA"].amt, 4.25);
+
+  const pos = withPosMapping(getPosSource("ShipRite"), [{ amount: "Sell" }]);
+  assert.equal(pos.columns.amount[0], "Sell");
+  assert.equal(withPosMapping(getPosSource("ShipRite"), []).columns.amount[0], getPosSource("ShipRite").columns.amount[0]);
+});
+
+test("profiles are empty outside the browser", () => {
+  assert.deepEqual(loadProfiles(), []);
+});
@@ -0,0 +1,125 @@
+// lib/mapping.ts — user-assigned column mappings, saved as profiles keyed by header signature
+import type { CarrierAdapter, CarrierColumns } from "@/lib/carriers";
+import type { PosAdapter, PosColumns } from "@/lib/pos";
+import type { FileKind } from "@/lib/detect";
+
+export type MappingField = "tracking" | "amount" | "invoice" | "service" | "date" | "weight";
+export type ColumnMapping = Partial<Record<MappingField, string>>;
+
+export type MappingProfile = {
+  name: string;
+  signature: string;
+  kind: FileKind;
+  mapping: ColumnMapping;
+  updatedAt: string;
+};
+
+export const MAPPING_FIELDS: { field: MappingField; label: string; required?: boolean }[] = [
+  { field: "tracking", label: "Tracking #", required: true },
+  { field: "amount", label: "Amount", required: true },
+  { field: "invoice", label: "Invoice #" },
+  { field: "service", label: "Service" },
+  { field: "date", label: "Ship date" },
+  { field: "weight", label: "Weight" },
+];
+
+// Which adapter alias lists a mapped field feeds
+const CARRIER_TARGETS: Record<MappingField, (keyof CarrierColumns)[]> = {
+  tracking: ["tracking"],
+  amount: ["billedCharge", "netCharge"],
+  invoice: ["invoice"],
+  service: ["service"],
+  date: ["shipDate"],
+  weight: ["billedWeight"],
+};
+const POS_TARGETS: Partial<Record<MappingField, (keyof PosColumns)[]>> = {
+  tracking: ["tracking"],
+  amount: ["amount"],
+  weight: ["weight"],
+};
+
+const STORAGE_KEY = "parcel-audit:mapping-profiles";
+
+const norm = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Order-insensitive fingerprint of a header row
+export function headerSignature(headers: string[]) {
+  return headers.map(norm).filter(Boolean).sort().join("|");
+}
+
+// Header the adapter would pick for a field today (exact alias, then normalized)
+export function resolveColumn(headers: string[], aliases: readonly string[]) {
+  for (const a of aliases) if (headers.includes(a)) return a;
+  for (const a of aliases) {
+    const hit = headers.find((h) => norm(h) === norm(a));
+    if (hit) return hit;
+  }
+  return "";
+}
+
+export function defaultMapping(headers: string[], adapter: CarrierAdapter | PosAdapter): ColumnMapping {
+  const out: ColumnMapping = {};
+  if ("rules" in adapter) {
+    (Object.keys(CARRIER_TARGETS) as MappingField[]).forEach((f) => {
+      const col = resolveColumn(headers, adapter.columns[CARRIER_TARGETS[f][0]]);
+      if (col) out[f] = col;
+    });
+  } else {
+    (Object.keys(POS_TARGETS) as MappingField[]).forEach((f) => {
+      const col = resolveColumn(headers, adapter.columns[POS_TARGETS[f]![0]]);
+      if (col) out[f] = col;
+    });
+  }
+  return out;
+}
+
+function prepend(list: readonly string[], cols: string[]) {
+  return Array.from(new Set([...cols, ...list]));
+}
+
+// Copy of a carrier adapter whose aliases start with the mapped headers
+export function withCarrierMapping(adapter: CarrierAdapter, mappings: (ColumnMapping | undefined)[]): CarrierAdapter {
+  const columns = { ...adapter.columns };
+  (Object.keys(CARRIER_TARGETS) as MappingField[]).forEach((f) => {
+    const cols = mappings.map((m) => m?.[f]).filter((c): c is string => !!c);
+    if (!cols.length) return;
+    CARRIER_TARGETS[f].forEach((k) => { columns[k] = prepend(columns[k], cols); });
+  });
+  return { ...adapter, columns };
+}
+
+export function withPosMapping(adapter: PosAdapter, mappings: (ColumnMapping | undefined)[]): PosAdapter {
+  const columns = { ...adapter.columns };
+  (Object.keys(POS_TARGETS) as MappingField[]).forEach((f) => {
+    const cols = mappings.map((m) => m?.[f]).filter((c): c is string => !!c);
+    if (!cols.length) return;
+    POS_TARGETS[f]!.forEach((k) => { columns[k] = prepend(columns[k], cols); });
+  });
+  return { ...adapter, columns };
+}
+
+export function loadProfiles(): MappingProfile[] {
+  if (typeof window === "undefined") return [];
+  try {
+    return JSON.parse(window.localStorage.getItem(STORAGE_KEY) || "[]") as MappingProfile[];
+  } catch {
+    return [];
+  }
+}
+
+export function saveProfile(profile: Omit<MappingProfile, "updatedAt">) {
+  const rest = loadProfiles().filter((p) => p.signature !== profile.signature && p.name !== profile.name);
+  const next = [...rest, { ...profile, updatedAt: new Date().toISOString() }];
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  return next;
+}
+
+export function deleteProfile(name: string) {
+  const next = loadProfiles().filter((p) => p.name !== name);
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  return next;
+}
+
+export function findProfile(signature: string) {
+  return loadProfiles().find((p) => p.signature === signature);
+}
@@ -0,0 +1,191 @@
+// lib/parse.ts — shared CSV / value helpers
+import * as Papa from "papaparse";
+import { parse } from "date-fns";
+import type { Row } from "@/lib/carriers/types";
+
+const norm = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// First non-empty value for any alias; exact header first, then normalized
+export function getVal(r: Row, keys: readonly string[]) {
+  for (const k of keys) if (r[k] != null && r[k] !== "") return String(r[k]).trim();
+  const rowIndex: Record<string, string> = {};
+  for (const key of Object.keys(r)) rowIndex[norm(key)] = key;
+  for (const k of keys) {
+    const hit = rowIndex[norm(k)];
+    if (hit && r[hit] != null && r[hit] !== "") return String(r[hit]).trim();
+  }
+  return "";
+}
+
+// Column index of the first alias present in a header row (exact, then normalized)
+export function resolveHeaderIndex(header: string[], aliases: readonly string[]) {
+  for (const a of aliases) { const i = header.indexOf(a); if (i >= 0) return i; }
+  for (const a of aliases) { const i = header.findIndex((h) => norm(h) === norm(a)); if (i >= 0) return i; }
+  return -1;
+}
+
+export function getByHeader(r: Row, header: string) {
+  if (r[header] != null) return r[header];
+  const map: Record<string, string> = {};
+  Object.keys(r || {}).forEach((k) => (map[norm(k)] = k));
+  const key = map[norm(header)];
+  return key ? r[key] : undefined;
+}
+
+export function cleanMoney(x: any): number {
+  if (x == null) return 0;
+  let s = String(x).trim();
+  const parenNeg = /^\(.*\)$/.test(s);
+  s = s.replace(/[()]/g, "").replace(/[^0-9.\-]/g, "");
+  if (!s || s === "-" || s === ".") return 0;
+  const n = Number(s);
+  if (isNaN(n)) return 0;
+  return parenNeg ? -Math.abs(n) : n;
+}
+
+// Message to show for a caught rejection, whatever was thrown
+export function errorMessage(err: unknown) {
+  return err instanceof Error ? err.message : String(err);
+}
+
+export function isValidDate(d: Date | null | undefined): d is Date {
+  return !!d && !isNaN(d.getTime());
+}
+
+// First format that reads the whole string; null when none does (date-fns returns an Invalid Date rather than throwing)
+export function tryParseDate(s: string) {
+  const pats = ["M/d/yyyy", "MM/dd/yyyy", "yyyy-MM-dd", "yyyy/MM/dd"];
+  for (const p of pats) { const d = parse(s, p, new Date()); if (isValidDate(d)) return d; }
+  const d = new Date(s); return isValidDate(d) ? d : null;
+}
+
+// US zone abbreviations carriers append to POD times, as minutes east of UTC
+const ZONE_ABBR_OFFSETS: Record<string, number> = {
+  UTC: 0, GMT: 0, Z: 0, AST: -240, ADT: -180, EST: -300, EDT: -240, CST: -360, CDT: -300,
+  MST: -420, MDT: -360, PST: -480, PDT: -420, AKST: -540, AKDT: -480, HST: -600,
+};
+
+export type Clock = { hours: number; minutes: number; offset?: number };
+
+// "10:42", "1042", "10:42:00", "10:42 PM", "10:42 EST", "10:42-05:00" → clock time (+ offset when stated)
+export function parseClock(timeStr?: string): Clock | null {
+  const t = (timeStr || "").trim().toUpperCase();
+  const m = t.match(/^(\d{1,2}):?(\d{2})?(?::\d{2}(?:\.\d+)?)?\s*(AM|PM|A|P)?\s*(?:([+-])(\d{2}):?(\d{2})|([A-Z]{1,4}))?$/);
+  if (!m) return null;
+  let hours = Number(m[1]);
+  const minutes = Number(m[2] ?? 0);
+  if (m[3]) hours = (hours % 12) + (m[3].startsWith("P") ? 12 : 0);
+  if (hours > 23 || minutes > 59) return null;
+  let offset: number | undefined;
+  if (m[4]) offset = (m[4] === "-" ? -1 : 1) * (Number(m[5]) * 60 + Number(m[6]));
+  else if (m[7]) offset = ZONE_ABBR_OFFSETS[m[7]];
+  return { hours, minutes, offset };
+}
+
+// Date + clock as a wall time in the local fields of a Date; end of day when there is no time
+export function combineDateTime(dateStr: string, timeStr?: string, parseDate = tryParseDate) {
+  const base = parseDate((dateStr || "").trim()); if (!isValidDate(base)) return null;
+  const c = parseClock(timeStr);
+  if (c) base.setHours(c.hours, c.minutes, 0, 0);
+  else base.setHours(23, 59, 59, 999);
+  return base;
+}
+
+export function parseCSVFile(file: File): Promise<Row[]> {
+  return new Promise((resolve) => {
+    Papa.parse<Row>(file, {
+      header: true,
+      skipEmptyLines: true,
+      complete: (res) => resolve((res.data as Row[]).filter(Boolean)),
+    });
+  });
+}
+
+export async function parseManyCSVFiles(files: FileList | File[] | null): Promise<Row[]> {
+  const list = Array.from(files || []);
+  const parts = await Promise.all(list.map(parseCSVFile));
+  return parts.flat();
+}
+
+// Exports often carry title rows above the header; the header is the first row
+// where at least `minHits` of the patterns match a cell
+export function findHeaderRow(grid: string[][], hdrs: readonly RegExp[], minHits = 2) {
+  for (let i = 0; i < grid.length; i++) {
+    const row = (grid[i] || []).map((c) => String(c || ""));
+    const hits = hdrs.reduce((a, rx) => a + (row.some((c) => rx.test(c)) ? 1 : 0), 0);
+    if (hits >= minHits) return i;
+  }
+  return -1;
+}
+
+// Same test on raw text lines (title rows included), for parsers that only see the head of a stream
+export function findHeaderLine(lines: string[], hdrs: readonly RegExp[], minHits = 2) {
+  for (let i = 0; i < Math.min(lines.length, 40); i++) {
+    if (!lines[i].trim()) continue;
+    const cells = (Papa.parse<string[]>(lines[i], { header: false }).data[0] || []).map((c) => String(c || ""));
+    if (findHeaderRow([cells], hdrs, minHits) === 0) return i;
+  }
+  return -1;
+}
+
+export function parseWithHeaderRow(file: File, hdrs: readonly RegExp[], minHits = 2): Promise<Row[]> {
+  return new Promise((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const raw = String(reader.result || "");
+      const preview = Papa.parse<string[]>(raw, { header: false, skipEmptyLines: true }).data as string[][];
+      const idx = findHeaderRow(preview, hdrs, minHits);
+      let body = raw;
+      if (idx >= 0) { const lines = raw.split(/\r?\n/).filter((l) => l.trim() !== ""); body = lines.slice(idx).join("\n"); }
+      const parsed = Papa.parse<Row>(body, { header: true, skipEmptyLines: true, transformHeader: (h) => h.trim() });
+      resolve((parsed.data as Row[]).filter((r) => r && Object.values(r).some((v) => String(v ?? "").trim() !== "")));
+    };
+    reader.readAsText(file);
+  });
+}
+
+const POS_HEADER_HINTS = [/tracking\s*#|tracking\s*number|tracking\b/i, /service\b|service\s*type/i, /ship\s*date|shipment\s*date/i, /delivered|delivery\s*date|delivery\s*time/i, /charges?|amount|net\s*charge/i, /recipient|customer|consignee/i];
+
+export function autoParsePOSFile(file: File): Promise<Row[]> {
+  return parseWithHeaderRow(file, POS_HEADER_HINTS);
+}
+
+export async function parseManyPOSFiles(files: FileList | File[] | null): Promise<Row[]> {
+  const list = Array.from(files || []);
+  const parts = await Promise.all(list.map(autoParsePOSFile));
+  return parts.flat();
+}
+
+const POSTALMATE_HEADER = [/^tracking\s*#$/i, /^postalmate$/i];
+const POSTALMATE_TITLE_ROWS = 9;
+
+// PostalMate: the header is the line holding "Tracking #" and "PostalMate" — row 10 in the
+// stock CSV export, row 1 once a workbook sheet has had its title rows stripped
+export function postalMateHeaderLine(lines: string[]) {
+  for (let i = 0; i < Math.min(lines.length, 40); i++) {
+    const cells = (Papa.parse<string[]>(lines[i], { header: false }).data[0] || []).map((c) => String(c || "").trim());
+    if (POSTALMATE_HEADER.every((rx) => cells.some((c) => rx.test(c)))) return i;
+  }
+  return POSTALMATE_TITLE_ROWS;
+}
+
+export function parsePostalMate(file: File): Promise<Row[]> {
+  return new Promise((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const raw = String(reader.result || "");
+      const lines = raw.split(/\r?\n/);
+      const cleaned = lines.slice(postalMateHeaderLine(lines)).join("\n");
+      const parsed = Papa.parse<Row>(cleaned, {
+        header: true,
+        skipEmptyLines: true,
+        transformHeader: (h) => h.trim(),
+      });
+      const data = (parsed.data as Row[]).filter(
+        (r) => r && Object.values(r).some((v) => String(v ?? "").trim() !== "")
+      );
+      resolve(data);
+    };
+    reader.readAsText(file);
+  });
+}
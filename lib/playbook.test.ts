@@ -0,0 +1,38 @@
+// lib/playbook.test.ts — per-carrier dispute reasons and playbook text
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { CARRIERS, getCarrier } from "@/lib/carriers";
+import type { ChargeIssue, Discrepancy } from "@/lib/audit";
+import { findingFor, findingForIssue, playbookText, reasonFor } from "@/lib/playbook";
+
+const over: Discrepancy = { tracking: "1ZA", invoice: "INV1", carrierAmount: 12, posAmount: 10, difference: 2, note: "Overbilled" };
+const issue = (note: string, description = "Charge"): ChargeIssue => ({ tracking: "1ZA", carrier: "UPS", description, amount: 1, note });
+
+test("the most specific finding the audit can back up is chosen", () => {
+  assert.equal(findingFor(over, []), "overbilled");
+  assert.equal(findingFor({ ...over, adjustments: 3 }, [issue("Possible duplicate charge")]), "adjustment");
+  assert.equal(findingFor(over, [issue("Possible duplicate charge")]), "duplicate");
+  assert.equal(findingFor(over, [issue("Address Correction Fee", "Address Correction")]), "addressCorrection");
+});
+
+test("charge issues map to findings; unrecognised notes have none", () => {
+  assert.equal(findingForIssue(issue("Above contract rate (expected $12.00, billed $14.00)")), "overbilled");
+  assert.equal(findingForIssue(issue("Fuel surcharge anomaly (50.0% of transportation)")), "fuel");
+  assert.equal(findingForIssue(issue("USPS Postage Adjustment (APV)")), "adjustment");
+  assert.equal(findingForIssue(issue("Residential Surcharge")), null);
+});
+
+test("reasons use the carrier's wording and code, or a generic fallback", () => {
+  const usps = getCarrier("USPS");
+  assert.equal(reasonFor(usps, "adjustment"), "Incorrect weight/dimensions (APV) (USPS-APV)");
+  assert.equal(reasonFor(usps, "duplicate"), "Duplicate charge on the same shipment");
+});
+
+test("every carrier's playbook text names its portal, window and steps", () => {
+  CARRIERS.forEach((c) => {
+    const text = playbookText(c);
+    assert.ok(text.startsWith(`How to Create a ${c.name} Dispute`));
+    assert.ok(text.includes(`within ${c.playbook.windowDays} days`));
+    c.playbook.steps.forEach((s, i) => assert.ok(text.includes(`${i + 1}. ${s}`)));
+  });
+});
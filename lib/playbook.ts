@@ -0,0 +1,122 @@
+// lib/playbook.ts — render a carrier's dispute playbook (screens, clipboard, PDF) and pick its reasons
+import { jsPDF } from "jspdf";
+import type { CarrierAdapter, DisputeFinding } from "@/lib/carriers";
+import type { ChargeIssue, Discrepancy } from "@/lib/audit";
+
+// Generic wording when a carrier has no reason for a finding
+const FALLBACK_REASON: Record<DisputeFinding, string> = {
+  overbilled: "Billed amount exceeds the rate charged at shipment",
+  adjustment: "Post-shipment adjustment; package shipped as labelled",
+  residential: "Residential surcharge billed on a commercial address",
+  duplicate: "Duplicate charge on the same shipment",
+  addressCorrection: "Address correction fee; address on the label was valid",
+  fuel: "Fuel surcharge above the published percentage",
+  late: "Delivered after the guaranteed commitment",
+  dimensions: "Billed weight or size surcharge not supported by the package dimensions",
+  zone: "Billed zone does not match the zone chart for the origin and destination",
+  deliveryArea: "Delivery area surcharge not applicable to the destination ZIP",
+};
+
+// Most specific finding the audit can back up for an overbilled row
+export function findingFor(d: Discrepancy, issues: ChargeIssue[]): DisputeFinding {
+  const notes = issues.map((i) => `${i.description} ${i.note}`).join(" | ");
+  if (d.adjustments) return "adjustment";
+  if (/POS indicates BUSINESS/i.test(notes)) return "residential";
+  if (/duplicate/i.test(notes)) return "duplicate";
+  if (/address\s*correction/i.test(notes)) return "addressCorrection";
+  if (/fuel surcharge anomaly/i.test(notes)) return "fuel";
+  return "overbilled";
+}
+
+export function findingForIssue(i: ChargeIssue): DisputeFinding | null {
+  if (/duplicate/i.test(i.note)) return "duplicate";
+  if (/above contract rate/i.test(i.note)) return "overbilled";
+  if (/not supported by dimensions|^carrier dimensions|^billed .* lb actual support/i.test(i.note)) return "dimensions";
+  if (/^zone mismatch/i.test(i.note)) return "zone";
+  if (/^delivery area surcharge (on zip|billed as)/i.test(i.note)) return "deliveryArea";
+  if (/POS indicates BUSINESS|residential surcharge on likely commercial/i.test(i.note)) return "residential";
+  if (/fuel surcharge anomaly/i.test(i.note)) return "fuel";
+  if (/address\s*correction/i.test(i.description)) return "addressCorrection";
+  if (/adjustment|apv/i.test(i.note)) return "adjustment";
+  return null;
+}
+
+export function reasonFor(carrier: CarrierAdapter, finding: DisputeFinding) {
+  const r = carrier.playbook.reasons[finding];
+  return r ? `${r.label} (${r.code})` : FALLBACK_REASON[finding];
+}
+
+export function playbookText(carrier: CarrierAdapter) {
+  const p = carrier.playbook;
+  const lines = [
+    `How to Create a ${carrier.name} Dispute`,
+    `File in: ${p.portal} — within ${p.windowDays} days of the invoice date`,
+    ...p.steps.map((s, i) => `${i + 1}. ${s}`),
+    "",
+    `Have ready: ${p.requiredFields.join(", ")}`,
+    "",
+    "Where to Find Dispute & Refund History",
+    ...p.historySteps.map((s, i) => `${i + 1}. ${s}`),
+  ];
+  return lines.join("\n");
+}
+
+export async function copyPlaybook(carrier: CarrierAdapter) {
+  const text = playbookText(carrier);
+  try {
+    await navigator.clipboard.writeText(text);
+  } catch {
+    const ta = document.createElement("textarea");
+    ta.value = text;
+    document.body.appendChild(ta);
+    ta.select();
+    document.execCommand("copy");
+    document.body.removeChild(ta);
+  }
+}
+
+// Write the playbook from `y` down, adding pages as needed; `onPage` decorates each new page
+export function writePlaybook(doc: jsPDF, carrier: CarrierAdapter, y = 64, onPage: () => number = () => 64) {
+  const left = 54;
+  const p = carrier.playbook;
+
+  const heading = (text: string) => {
+    if (y > 720) { doc.addPage(); y = onPage(); }
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(16);
+    doc.text(text, left, y);
+    y += 20;
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(12);
+  };
+  const para = (text: string) => {
+    (doc.splitTextToSize(text, 500) as string[]).forEach((ln) => {
+      if (y > 740) { doc.addPage(); y = onPage(); }
+      doc.text(ln, left, y);
+      y += 16;
+    });
+  };
+
+  heading(`How to Create a ${carrier.name} Dispute`);
+  para(`File in ${p.portal}, within ${p.windowDays} days of the invoice date.`);
+  y += 4;
+  p.steps.forEach((s, i) => para(`${i + 1}. ${s}`));
+  y += 8;
+  para(`Have ready: ${p.requiredFields.join(", ")}.`);
+  const reasons = Object.values(p.reasons);
+  if (reasons.length) {
+    y += 8;
+    heading("Dispute reasons");
+    reasons.forEach((r) => para(`${r!.code} — ${r!.label}`));
+  }
+  y += 16;
+  heading("Where to Find Dispute & Refund History");
+  p.historySteps.forEach((s, i) => para(`${i + 1}. ${s}`));
+  return y;
+}
+
+export function downloadPlaybookPDF(carrier: CarrierAdapter) {
+  const doc = new jsPDF({ unit: "pt", format: "letter" });
+  writePlaybook(doc, carrier);
+  doc.save(`${carrier.name}_Dispute_and_History_${new Date().toISOString().slice(0, 10)}.pdf`);
+}
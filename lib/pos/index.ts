@@ -0,0 +1,14 @@
+// lib/pos/index.ts — POS export registry
+import { postalmate } from "./postalmate";
+import { shiprite } from "./shiprite";
+import type { PosAdapter, PosId } from "./types";
+
+export type { PosAdapter, PosColumns, PosId } from "./types";
+
+export const POS_SOURCES: readonly PosAdapter[] = [postalmate, shiprite];
+
+export function getPosSource(id: PosId): PosAdapter {
+  const hit = POS_SOURCES.find((p) => p.id === id);
+  if (!hit) throw new Error(`Unknown POS source: ${id}`);
+  return hit;
+}
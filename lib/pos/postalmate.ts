@@ -0,0 +1,21 @@
+// lib/pos/postalmate.ts
+import { parsePostalMate, postalMateHeaderLine } from "@/lib/parse";
+import type { PosAdapter } from "./types";
+
+export const postalmate: PosAdapter = {
+  id: "PostalMate",
+  name: "PostalMate",
+  columns: {
+    tracking: ["Tracking #"],   // col D
+    amount: ["PostalMate"],     // col E
+    weight: ["Weight", "Wt", "Weight (lbs)", "Actual Weight"],
+    company: ["Ship To Company", "Company", "Recipient Company"],
+    address: ["Ship To Address", "Address", "Address 1", "Recipient Address"],
+    postal: ["Ship To Zip", "Zip", "Zip Code", "Recipient Zip"],
+  },
+  signature: {
+    headers: [/^tracking\s*#$/i, /^postalmate$/i, /^carrier$/i, /^customer/i, /^date$/i],
+  },
+  parseFile: parsePostalMate,
+  headerLine: postalMateHeaderLine,
+};
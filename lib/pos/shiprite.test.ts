@@ -0,0 +1,32 @@
+// lib/pos/shiprite.test.ts — ShipRite shipping log exports
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getPosSource } from "@/lib/pos";
+import { addPosRow, buildPosIndex } from "@/lib/audit";
+import { sniffText } from "@/lib/detect";
+
+const shiprite = getPosSource("ShipRite");
+const LOG = [
+  "Main Street Pack & Ship",
+  "Shipping Log 01/01/2024 - 01/07/2024",
+  "",
+  "Ship Date,Carrier,Service,Tracking #,Consignee Name,Consignee Company,Weight,Retail Price",
+  "01/05/2024,UPS,Ground,1Z999AA10123456784,Jane Doe,,4,$12.00",
+  "01/05/2024,FedEx,Ground,794600000001,John Roe,Acme,2,9.50",
+];
+
+test("the header line is found below the store and report-range titles", () => {
+  assert.equal(shiprite.headerLine(LOG), 3);
+  assert.equal(shiprite.headerLine(["Totals", "1,2,3"]), 0); // no header: start at the top
+});
+
+test("a ShipRite log is detected and its retail price read per tracking", () => {
+  const d = sniffText(LOG.join("\n"));
+  assert.equal(d.kind, "ShipRite");
+  const rows = d.sample.map((r) => Object.fromEntries(d.header.map((h, i) => [h, r[i] ?? ""])));
+  const out: Record<string, number> = {};
+  rows.forEach((r) => addPosRow(out, r, shiprite));
+  assert.deepEqual(out, { "1Z999AA10123456784": 12, "794600000001": 9.5 });
+  assert.equal(addPosRow(out, { "Tracking #": "", "Retail Price": "1.00" }, shiprite), "");
+  assert.deepEqual(Object.keys(buildPosIndex(rows)), ["1Z999AA10123456784", "794600000001"]);
+});
@@ -0,0 +1,24 @@
+// lib/pos/shiprite.ts — ShipRite "Shipping Log" / manifest export
+import { findHeaderLine, parseWithHeaderRow } from "@/lib/parse";
+import type { PosAdapter } from "./types";
+
+// ShipRite prints the store name and report range above the column header
+const HEADER_HINTS = [/^tracking\s*(#|no\.?|number)?$/i, /^carrier$/i, /^service$/i, /^ship\s*date$/i, /retail|total\s*charge/i, /consignee|ship\s*to\s*name/i];
+
+export const shiprite: PosAdapter = {
+  id: "ShipRite",
+  name: "ShipRite",
+  columns: {
+    tracking: ["Tracking #", "Tracking#", "Tracking No", "Tracking Number", "Tracking"],
+    amount: ["Retail Price", "Retail", "Total Retail", "Customer Charge", "Total Charge"],
+    weight: ["Weight", "Actual Weight", "Weight (lbs)", "Billable Weight"],
+    company: ["Consignee Company", "Ship To Company", "Company"],
+    address: ["Consignee Address", "Consignee Address 1", "Ship To Address", "Address 1", "Address"],
+    postal: ["Consignee Zip", "Ship To Zip", "Zip", "Zip Code"],
+  },
+  signature: {
+    headers: [/^consignee|ship\s*to\s*name/i, /^retail(\s*price)?$|^total\s*retail$/i, /^tracking\s*(#|no\.?)$/i, /^carrier$/i, /^(shipment|package)\s*id$/i],
+  },
+  parseFile: (file) => parseWithHeaderRow(file, HEADER_HINTS, 3),
+  headerLine: (lines) => Math.max(0, findHeaderLine(lines, HEADER_HINTS, 3)),
+};
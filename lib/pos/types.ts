@@ -0,0 +1,23 @@
+// lib/pos/types.ts — point-of-sale export contract
+import type { FileSignature, Row } from "@/lib/carriers";
+
+export type PosId = "PostalMate" | "ShipRite";
+
+export type PosColumns = {
+  tracking: readonly string[];
+  amount: readonly string[];
+  weight: readonly string[]; // package weight as recorded at the counter
+  // Ship-to, for the residential audit's address history
+  company: readonly string[];
+  address: readonly string[];
+  postal: readonly string[];
+};
+
+export type PosAdapter = {
+  id: PosId;
+  name: string;
+  columns: PosColumns;
+  signature: FileSignature;
+  parseFile: (file: File) => Promise<Row[]>;
+  headerLine: (lines: string[]) => number; // index of the column header among the first lines of the export
+};
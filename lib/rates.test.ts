@@ -0,0 +1,64 @@
+// lib/rates.test.ts — rate card pricing and the contract-rate check
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getCarrier } from "@/lib/carriers";
+import { addCarrierRow, type CarrierMap } from "@/lib/audit";
+import { contractIssues, expectedCharge, expectedCharges, normalizeZone, toUnit, type RateCard } from "@/lib/rates";
+
+const card: RateCard = {
+  carrier: "UPS", name: "ups.csv", unit: "lb", uploadedAt: "",
+  services: [
+    { service: "GROUND", discountPct: 20, minimum: 9, cells: [{ zone: "2", weight: 1, rate: 10 }, { zone: "2", weight: 5, rate: 15 }, { zone: "8", weight: 5, rate: 30 }] },
+    { service: "GROUND RESIDENTIAL", discountPct: 0, minimum: 0, cells: [{ zone: "2", weight: 5, rate: 18 }] },
+  ],
+};
+
+test("zones and weight units normalise", () => {
+  assert.equal(normalizeZone("Zone 002"), "2");
+  assert.equal(normalizeZone("044"), "44");
+  assert.equal(normalizeZone("h"), "H");
+  assert.equal(Math.round(toUnit(10, "kg", "lb") * 100) / 100, 22.05);
+  assert.equal(toUnit(3, "lb", "lb"), 3);
+});
+
+test("expectedCharge rounds weight up into the next bracket, applies the discount and the minimum", () => {
+  assert.equal(expectedCharge(card, "UPS Ground", "002", 1), 9);      // 10 less 20% is under the $9 minimum
+  assert.equal(expectedCharge(card, "UPS Ground", "Zone 2", 1.2), 12); // 2 lb falls in the 5 lb bracket
+  assert.equal(expectedCharge(card, "UPS Ground", "8", 2, "kg"), 24);  // 4.41 lb → 5 lb
+  assert.equal(expectedCharge(card, "UPS Ground Residential", "2", 5), 18); // longest service key wins
+});
+
+test("expectedCharge has no answer for unknown services, zones, brackets or weights", () => {
+  assert.equal(expectedCharge(card, "UPS Next Day Air", "2", 1), null);
+  assert.equal(expectedCharge(card, "UPS Ground", "5", 1), null);
+  assert.equal(expectedCharge(card, "UPS Ground", "2", 6), null);
+  assert.equal(expectedCharge(card, "UPS Ground", "2", 0), null);
+  assert.equal(expectedCharge(card, "UPS Ground", "2", NaN), null);
+});
+
+const ups = getCarrier("UPS");
+const upsRow = (tracking: string, extra: Record<string, string>) => ({
+  "Tracking Number": tracking, "Invoice Number": "INV1", Service: "UPS Ground", Zone: "002", "Billed Weight": "4", ...extra,
+});
+
+test("transportation billed above the contract net is flagged", () => {
+  const map: CarrierMap = {};
+  addCarrierRow(map, upsRow("1ZOVER", { "Net Charges": "14.00", "Transportation Charges": "14.00" }), ups);
+  addCarrierRow(map, upsRow("1ZEXACT", { "Net Charges": "12.00", "Transportation Charges": "12.01" }), ups);
+  const expected = expectedCharges(map, [card]);
+  assert.deepEqual(expected, { "1ZOVER": 12, "1ZEXACT": 12 });
+  const issues = contractIssues(map, expected);
+  assert.equal(issues.length, 1);
+  assert.equal(issues[0].tracking, "1ZOVER");
+  assert.equal(issues[0].amount, 2);
+  assert.equal(issues[0].note, "Above contract rate (expected $12.00, billed $14.00)");
+});
+
+test("invoices without a transportation charge are not judged on their net total", () => {
+  const map: CarrierMap = {};
+  addCarrierRow(map, upsRow("1ZNETONLY", { "Net Charges": "25.00" }), ups);
+  const expected = expectedCharges(map, [card]);
+  assert.equal(map["1ZNETONLY"].transport, undefined);
+  assert.deepEqual(contractIssues(map, expected), []);
+  assert.deepEqual(expectedCharges(map, []), {}); // no card for the carrier
+});
@@ -0,0 +1,166 @@
+// lib/rates.ts — negotiated rate cards: expected transportation charge per shipment, independent of the POS
+import * as Papa from "papaparse";
+import { cleanMoney } from "@/lib/parse";
+import { RATE_CARDS, hasIndexedDb, withStore } from "@/lib/idb";
+import type { CarrierId } from "@/lib/carriers";
+import type { CarrierMap, ChargeIssue } from "@/lib/audit";
+
+export type WeightUnit = "lb" | "kg";
+
+// List rate for one zone up to `weight` (the bracket's upper bound, in the card's unit)
+export type RateCell = { zone: string; weight: number; rate: number };
+
+export type ServiceRates = {
+  service: string;     // matched like a rule key: contained in the upper-cased invoice service
+  discountPct: number; // off the list rate
+  minimum: number;     // net charge floor per package
+  cells: RateCell[];
+};
+
+// One card per carrier; uploading a new one replaces it
+export type RateCard = {
+  carrier: CarrierId;
+  name: string;
+  unit: WeightUnit;
+  uploadedAt: string;
+  services: ServiceRates[];
+};
+
+const KG_PER_LB = 0.45359237;
+
+// "Zone 004", "004", "4" → "4"; letters (e.g. Alaska/Hawaii zones) are kept
+export function normalizeZone(z: string) {
+  return z.trim().toUpperCase().replace(/^ZONE\s*/, "").replace(/^0+(?=\w)/, "");
+}
+
+export function toUnit(weight: number, from: WeightUnit, to: WeightUnit) {
+  if (from === to) return weight;
+  return from === "kg" ? weight / KG_PER_LB : weight * KG_PER_LB;
+}
+
+export function weightUnit(s: string): WeightUnit {
+  return /^k/i.test(s.trim()) ? "kg" : "lb";
+}
+
+// Contract net for one package, or null when the card has no cell for it. Billed weight rounds up to the next whole unit.
+export function expectedCharge(card: RateCard, service: string, zone: string, weight: number, unit: WeightUnit = "lb") {
+  const svc = service.toUpperCase();
+  const rates = card.services
+    .filter((s) => svc.includes(s.service))
+    .sort((a, b) => b.service.length - a.service.length)[0];
+  if (!rates || !(weight > 0)) return null;
+  const z = normalizeZone(zone);
+  const w = Math.ceil(toUnit(weight, unit, card.unit) - 1e-9);
+  const cell = rates.cells.filter((c) => c.zone === z && c.weight >= w).sort((a, b) => a.weight - b.weight)[0];
+  if (!cell) return null;
+  const net = cell.rate * (1 - rates.discountPct / 100);
+  return Number(Math.max(net, rates.minimum).toFixed(2));
+}
+
+// Expected transportation charge per tracking, for carriers that have a card
+export function expectedCharges(carrierMap: CarrierMap, cards: RateCard[]) {
+  const byCarrier = new Map(cards.map((c) => [c.carrier, c]));
+  const out: Record<string, number> = {};
+  for (const [tracking, s] of Object.entries(carrierMap)) {
+    const card = byCarrier.get(s.carrier);
+    if (!card || !s.service || !s.zone || !s.weight) continue;
+    const e = expectedCharge(card, s.service, s.zone, s.weight, s.weightUnit);
+    if (e !== null) out[tracking] = e;
+  }
+  return out;
+}
+
+// Transportation billed above the contract net is disputable whatever the POS says; shipments
+// whose invoice has no transportation column are skipped rather than judged on the net total
+export function contractIssues(carrierMap: CarrierMap, expected: Record<string, number>): ChargeIssue[] {
+  const issues: ChargeIssue[] = [];
+  for (const [tracking, e] of Object.entries(expected)) {
+    const billed = carrierMap[tracking]?.transport;
+    if (billed === undefined || billed - e <= 0.01) continue;
+    const s = carrierMap[tracking];
+    issues.push({
+      tracking,
+      carrier: s.carrier,
+      invoice: s.invoice,
+      invoiceDate: s.invoiceDate,
+      description: "Transportation Charge",
+      amount: Number((billed - e).toFixed(2)),
+      note: `Above contract rate (expected $${e.toFixed(2)}, billed $${billed.toFixed(2)})`,
+    });
+  }
+  return issues;
+}
+
+const SERVICE_HDR = /^service(\s*(level|type|name))?$/i;
+const WEIGHT_HDR = /^(billed\s*)?weight(\s*\((lbs?|kgs?)\))?$|^(lbs?|kgs?)$/i;
+const ZONE_HDR = /^zone$/i;
+const RATE_HDR = /^(list\s*)?(rate|price|charge)$/i;
+const ZONE_COL = /^(zone\s*)?([0-9]{1,3}|[a-z][0-9]{0,2})$/i;
+const DISCOUNT_HDR = /^(discount|incentive)(\s*%|\s*pct|\s*percent)?$/i;
+const MINIMUM_HDR = /^min(imum)?(\s*(charge|net))?$/i;
+
+export type RateCardImport = { card: RateCard | null; errors: string[] };
+
+// Long layout (Service, Zone, Weight, Rate) or wide (Service, Weight, Zone 2 … Zone 8);
+// "Discount %" and "Minimum" may sit on any row of a service
+export function parseRateCard(file: File, carrier: CarrierId): Promise<RateCardImport> {
+  return new Promise((resolve, reject) => {
+    Papa.parse<Record<string, string>>(file, {
+      header: true,
+      skipEmptyLines: true,
+      transformHeader: (h) => h.trim(),
+      complete: (res) => {
+        const headers = res.meta.fields ?? [];
+        const find = (rx: RegExp) => headers.find((h) => rx.test(h)) ?? "";
+        const serviceCol = find(SERVICE_HDR), weightCol = find(WEIGHT_HDR), zoneCol = find(ZONE_HDR), rateCol = find(RATE_HDR);
+        const discountCol = find(DISCOUNT_HDR), minimumCol = find(MINIMUM_HDR);
+        const zoneCols = zoneCol ? [] : headers.filter((h) => h !== serviceCol && h !== weightCol && ZONE_COL.test(h));
+        const errors: string[] = [];
+        if (!serviceCol || !weightCol) errors.push("Need a Service and a Weight column");
+        if (!zoneCol && !zoneCols.length) errors.push("Need a Zone column or one column per zone");
+        if (zoneCol && !rateCol) errors.push("Need a Rate column next to Zone");
+        if (errors.length) { resolve({ card: null, errors }); return; }
+
+        const unit: WeightUnit = /kg/i.test(weightCol) ? "kg" : "lb";
+        const services = new Map<string, ServiceRates>();
+        res.data.forEach((r, i) => {
+          const v = (k: string) => String(r[k] ?? "").trim();
+          const name = v(serviceCol).toUpperCase();
+          const weight = Number(v(weightCol).replace(/[^0-9.]/g, ""));
+          if (!name) return;
+          if (!(weight > 0)) { errors.push(`Row ${i + 2}: weight "${v(weightCol)}" is not a number`); return; }
+          const s = services.get(name) ?? { service: name, discountPct: 0, minimum: 0, cells: [] };
+          services.set(name, s);
+          if (discountCol && v(discountCol) && !s.discountPct) s.discountPct = Math.abs(cleanMoney(v(discountCol).replace("%", "")));
+          if (minimumCol && v(minimumCol) && !s.minimum) s.minimum = cleanMoney(v(minimumCol));
+          const cols = zoneCol ? [{ zone: v(zoneCol), rate: v(rateCol) }] : zoneCols.map((c) => ({ zone: c, rate: v(c) }));
+          cols.forEach(({ zone, rate }) => {
+            if (!zone || !rate || rate === "-") return;
+            s.cells.push({ zone: normalizeZone(zone), weight, rate: cleanMoney(rate) });
+          });
+        });
+        const list = [...services.values()].filter((s) => s.cells.length);
+        if (!list.length) errors.push("No rates found");
+        resolve({
+          card: list.length ? { carrier, name: file.name, unit, uploadedAt: new Date().toISOString(), services: list } : null,
+          errors,
+        });
+      },
+      error: (err) => reject(err),
+    });
+  });
+}
+
+export async function listRateCards(): Promise<RateCard[]> {
+  if (!hasIndexedDb()) return [];
+  return withStore<RateCard[]>(RATE_CARDS, "readonly", (s) => s.getAll());
+}
+
+export async function saveRateCard(card: RateCard) {
+  await withStore(RATE_CARDS, "readwrite", (s) => s.put(card));
+  return card;
+}
+
+export async function deleteRateCard(carrier: CarrierId) {
+  await withStore(RATE_CARDS, "readwrite", (s) => s.delete(carrier));
+}
@@ -0,0 +1,65 @@
+// lib/residential.test.ts — residential likelihood scoring and the surcharges it disputes
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getCarrier, type Row } from "@/lib/carriers";
+import { addCarrierRow, findChargePairs, type CarrierMap, type PosIndex } from "@/lib/audit";
+import { addressKey, createResidentialAccumulator, residentialIssues, verdictFor } from "@/lib/residential";
+
+test("address keys normalise the street and keep the 5-digit ZIP", () => {
+  assert.equal(addressKey("123 Main St., Suite 4", "10001-1234"), "123 MAIN ST SUITE 4|10001");
+  assert.equal(addressKey("123 Main St", "1000"), "");
+  assert.equal(addressKey("  ", "10001"), "");
+});
+
+const row = (tracking: string, name: string, company: string, address: string, desc = "", amount = ""): Row => ({
+  "Tracking Number": tracking, "Invoice Number": "INV1", "Invoice Date": "03/08/2024", "Receiver Name": name,
+  "Receiver Company Name": company, "Receiver Address Line 1": address, "Receiver Postal": "10001",
+  "Charge Description": desc, "Charge Amount": amount,
+});
+
+function run(rows: Row[], posIndex: PosIndex) {
+  const ups = getCarrier("UPS");
+  const acc = createResidentialAccumulator();
+  const map: CarrierMap = {};
+  const pairs = findChargePairs(Object.keys(rows[0]));
+  rows.forEach((r) => { acc.add(r, ups, pairs); addCarrierRow(map, r, ups); });
+  return { rows: acc.finish(map, posIndex), map };
+}
+
+test("business signals make a residential charge disputable; residential signals clear it", () => {
+  const home = addressKey("7 Oak Ave Apt 2", "10001");
+  const posIndex: PosIndex = {
+    "1ZHOME": { isResidential: true },
+    "1ZPREV1": { isResidential: true, address: home },
+    "1ZPREV2": { isResidential: true, address: home },
+  };
+  const { rows, map } = run([
+    row("1ZBIZ", "Jane Doe", "Acme Inc", "100 Main St Suite 200", "Residential Surcharge", "4.50"),
+    row("1ZHOME", "John Smith", "", "5 Elm St Apt 3", "Residential Surcharge", "4.50"),
+    row("1ZCOMM", "Mary Roe", "", "7 Oak Ave Apt 2", "Delivery Area Surcharge Residential", "3.00"),
+    row("1ZPLAIN", "Sam Poe", "", "9 Pine Rd"),
+  ], posIndex);
+
+  assert.deepEqual(rows.map((r) => [r.tracking, r.billed, r.expected, r.likelihood, r.confidence, r.amount, verdictFor(r)]), [
+    ["1ZBIZ", "residential", "commercial", 0, 100, 4.5, "Dispute"],
+    ["1ZCOMM", "commercial", "residential", 80, 80, 4.5, "Residential not covered by retail"],
+    ["1ZHOME", "residential", "residential", 100, 0, 4.5, "Likely correct"],
+  ]);
+  assert.deepEqual(rows[0].signals, ["Company on recipient: Acme Inc", "Business name pattern", "Suite/floor in address: Suite 200"]);
+  assert.equal(rows[0].recipient, "Jane Doe / Acme Inc");
+  assert.equal(rows[0].address, "100 Main St Suite 200, 10001");
+
+  const issues = residentialIssues(rows, map);
+  assert.deepEqual(issues.map((i) => [i.tracking, i.amount, i.invoiceDate]), [["1ZBIZ", 4.5, "03/08/2024"]]);
+  assert.match(issues[0].note, /^Residential surcharge on likely commercial address \(100% confidence: /);
+});
+
+test("rows the POS marks as business are left to the billing pass", () => {
+  const { rows, map } = run([row("1ZPOSBIZ", "Jane Doe", "", "1 Elm St", "Residential Surcharge", "4.50")], { "1ZPOSBIZ": { isResidential: false } });
+  assert.equal(rows[0].confidence, 95);
+  assert.deepEqual(residentialIssues(rows, map), []);
+});
+
+test("shipments without a tracking number are skipped", () => {
+  assert.deepEqual(run([row("", "Jane Doe", "Acme Inc", "1 Elm St", "Residential Surcharge", "4.50")], {}).rows, []);
+});
@@ -0,0 +1,203 @@
+// lib/residential.ts — residential vs commercial classification per shipment, scored from the invoice and POS history
+import * as Papa from "papaparse";
+import { getVal } from "@/lib/parse";
+import type { CarrierAdapter, CarrierId, Row } from "@/lib/carriers";
+import type { CarrierMap, ChargeIssue, ChargePairs, PosIndex } from "@/lib/audit";
+
+export type Classification = "residential" | "commercial";
+
+export type ResidentialRow = {
+  tracking: string;
+  carrier: CarrierId;
+  invoice: string;
+  recipient: string;
+  address: string;
+  billed: Classification;
+  expected: Classification;
+  likelihood: number; // 0–100 that the address is residential
+  confidence: number; // 0–100 that the billed classification is wrong
+  signals: string[];
+  amount: number;     // residential surcharge billed, or (commercial billed) the surcharge the retail price did not cover
+};
+
+type Signal = { weight: number; label: string };
+
+const RESIDENTIAL_RX = /residential|\bresi\b/i;
+const NOT_RESIDENTIAL_RX = /delivery\s*area|\bdas\b/i; // "DAS Extended Residential" is a delivery area charge
+const ADDRESS2_KEYS = ["Receiver Address Line 2", "Recipient Address Line 2", "Ship To Address Line 2", "Consignee Address Line 2", "Address 2"] as const;
+
+const BUSINESS_NAME_RX = /\b(inc|llc|l\.l\.c|ltd|corp|corporation|co|company|group|pllc|llp|lp|pc|dds|md|associates|services|solutions|clinic|hospital|school|university|college|church|bank|hotel|store|office)\b\.?/i;
+const SUITE_RX = /\b(suite|ste|floor|fl|dept|bldg|building|dock|warehouse)\b\.?\s*#?\s*\w*/i;
+const APARTMENT_RX = /\b(apt|apartment|lot|trlr|trailer)\b\.?\s*#?\s*\w*/i;
+
+const DISPUTE_CONFIDENCE = 75; // residential charges at or above this become disputable billing issues
+const EXPECT_RESIDENTIAL = 70; // commercial-billed shipments at or above this likelihood are listed
+
+// "123 Main St., Suite 4" + "10001-1234" → "123 MAIN ST SUITE 4|10001"
+export function addressKey(line: string, postal: string) {
+  const a = line.toUpperCase().replace(/[^A-Z0-9 ]/g, " ").replace(/\s+/g, " ").trim();
+  const z = postal.replace(/\D/g, "").slice(0, 5);
+  return a && z.length === 5 ? `${a}|${z}` : "";
+}
+
+// Shipments per POS ship-to address, and how many of them looked like a business
+type AddressHistory = Map<string, { shipments: number; business: number; residential: number }>;
+
+function addressHistory(posIndex: PosIndex): AddressHistory {
+  const history: AddressHistory = new Map();
+  Object.values(posIndex).forEach((p) => {
+    if (!p.address) return;
+    const h = history.get(p.address) ?? { shipments: 0, business: 0, residential: 0 };
+    h.shipments++;
+    if (p.isResidential === false || p.company) h.business++;
+    else if (p.isResidential === true) h.residential++;
+    history.set(p.address, h);
+  });
+  return history;
+}
+
+type Shipment = {
+  carrier: CarrierId;
+  tracking: string;
+  invoice: string;
+  invoiceDate: string;
+  name: string;
+  company: string;
+  address: string;
+  address2: string;
+  postal: string;
+  surcharge: number;
+};
+
+// What points to a residential (positive weight) or commercial (negative) delivery
+function signalsFor(s: Shipment, pos: PosIndex[string] | undefined, history: AddressHistory): Signal[] {
+  const out: Signal[] = [];
+  if (pos?.isResidential === true) out.push({ weight: 35, label: "POS: residential" });
+  if (pos?.isResidential === false) out.push({ weight: -45, label: "POS: business" });
+
+  const company = s.company || pos?.company || "";
+  if (company && company.toUpperCase() !== s.name.toUpperCase()) out.push({ weight: -25, label: `Company on recipient: ${company}` });
+  if (BUSINESS_NAME_RX.test(`${s.name} ${company}`)) out.push({ weight: -20, label: "Business name pattern" });
+
+  const street = `${s.address} ${s.address2}`;
+  const suite = street.match(SUITE_RX)?.[0];
+  const apartment = street.match(APARTMENT_RX)?.[0];
+  if (suite) out.push({ weight: -20, label: `Suite/floor in address: ${suite.trim()}` });
+  if (apartment) out.push({ weight: 15, label: `Apartment/lot in address: ${apartment.trim()}` });
+
+  const h = history.get(addressKey(s.address, s.postal) || pos?.address || "");
+  if (h && h.shipments >= 2 && h.business * 2 >= h.shipments) out.push({ weight: -25, label: `Repeat business address (${h.shipments} POS shipments)` });
+  else if (h && h.shipments >= 2 && h.residential * 2 >= h.shipments) out.push({ weight: 15, label: `Repeat residential address (${h.shipments} POS shipments)` });
+  return out;
+}
+
+const likelihoodOf = (signals: Signal[]) => Math.max(0, Math.min(100, 50 + signals.reduce((a, s) => a + s.weight, 0)));
+
+// Recipient and residential surcharge per tracking while the invoice streams; scored in finish against the POS history
+export function createResidentialAccumulator() {
+  const perTrack = new Map<string, Shipment>();
+
+  function add(r: Row, carrier: CarrierAdapter, pairs: ChargePairs) {
+    const C = carrier.columns;
+    const tracking = carrier.normalizeTracking(getVal(r, C.tracking)); if (!tracking) return;
+    let s = perTrack.get(tracking);
+    if (!s) {
+      s = { carrier: carrier.id, tracking, invoice: "", invoiceDate: "", name: "", company: "", address: "", address2: "", postal: "", surcharge: 0 };
+      perTrack.set(tracking, s);
+    }
+    s.invoice ||= getVal(r, C.invoice);
+    s.invoiceDate ||= getVal(r, C.invoiceDate);
+    s.name ||= getVal(r, C.recipientName);
+    s.company ||= getVal(r, C.recipientCompany);
+    s.address ||= getVal(r, C.recipientAddress);
+    s.address2 ||= getVal(r, ADDRESS2_KEYS);
+    s.postal ||= getVal(r, C.destPostal);
+    pairs.forEach(({ desc, amt }) => {
+      const d = String(r[desc] ?? "").trim();
+      const a = carrier.parseMoney(r[amt]);
+      if (!d || a <= 0 || !RESIDENTIAL_RX.test(d) || NOT_RESIDENTIAL_RX.test(d)) return;
+      s!.surcharge += a;
+    });
+  }
+
+  // Every residential charge with its score, plus commercial-billed shipments that look residential
+  // and were not rung up as residential at the counter. Most likely errors first.
+  function finish(carrierMap: CarrierMap, posIndex: PosIndex): ResidentialRow[] {
+    const history = addressHistory(posIndex);
+    const shipments = [...perTrack.values()].filter((s) => carrierMap[s.tracking]);
+
+    // Typical residential surcharge per carrier, to price the commercial-billed rows
+    const typical = new Map<CarrierId, number>();
+    const charged = new Map<CarrierId, number[]>();
+    shipments.forEach((s) => {
+      if (!(s.surcharge > 0)) return;
+      if (!charged.has(s.carrier)) charged.set(s.carrier, []);
+      charged.get(s.carrier)!.push(s.surcharge);
+    });
+    charged.forEach((xs, c) => typical.set(c, xs.sort((a, b) => a - b)[Math.floor(xs.length / 2)]));
+
+    const rows: ResidentialRow[] = [];
+    for (const s of shipments) {
+      const pos = posIndex[s.tracking];
+      const signals = signalsFor(s, pos, history);
+      const likelihood = likelihoodOf(signals);
+      const billed: Classification = s.surcharge > 0 ? "residential" : "commercial";
+      if (billed === "commercial" && (likelihood < EXPECT_RESIDENTIAL || pos?.isResidential === true)) continue;
+      rows.push({
+        tracking: s.tracking,
+        carrier: s.carrier,
+        invoice: s.invoice,
+        recipient: [s.name, s.company].filter(Boolean).join(" / "),
+        address: [s.address, s.address2, s.postal].filter(Boolean).join(", "),
+        billed,
+        expected: likelihood >= 50 ? "residential" : "commercial",
+        likelihood,
+        confidence: billed === "residential" ? 100 - likelihood : likelihood,
+        signals: signals.map((x) => x.label),
+        amount: Number((billed === "residential" ? s.surcharge : typical.get(s.carrier) ?? 0).toFixed(2)),
+      });
+    }
+    return rows.sort((a, b) => b.confidence - a.confidence || b.amount - a.amount);
+  }
+
+  return { add, finish };
+}
+
+// High-confidence residential charges, as disputable billing issues. "POS: business" rows are skipped:
+// the billing pass already flags those.
+export function residentialIssues(rows: ResidentialRow[], carrierMap: CarrierMap): ChargeIssue[] {
+  return rows
+    .filter((r) => r.billed === "residential" && r.confidence >= DISPUTE_CONFIDENCE && !r.signals.includes("POS: business"))
+    .map((r) => ({
+      tracking: r.tracking,
+      carrier: r.carrier,
+      invoice: r.invoice,
+      invoiceDate: carrierMap[r.tracking]?.invoiceDate,
+      description: "Residential Surcharge",
+      amount: r.amount,
+      note: `Residential surcharge on likely commercial address (${r.confidence}% confidence: ${r.signals.join("; ")})`,
+    }));
+}
+
+export function verdictFor(r: ResidentialRow) {
+  if (r.billed === "commercial") return "Residential not covered by retail";
+  if (r.confidence >= DISPUTE_CONFIDENCE) return "Dispute";
+  return r.confidence >= 50 ? "Review" : "Likely correct";
+}
+
+export function downloadResidentialCSV(rows: ResidentialRow[]) {
+  const csv = Papa.unparse({
+    fields: ["Tracking #", "Carrier", "Invoice #", "Recipient", "Address", "Billed As", "Expected", "Residential Likelihood %", "Confidence %", "Verdict", "Amount", "Signals"],
+    data: rows.map((r) => [
+      r.tracking, r.carrier, r.invoice, r.recipient, r.address, r.billed, r.expected, r.likelihood, r.confidence, verdictFor(r),
+      r.amount.toFixed(2), r.signals.join("; "),
+    ]),
+  });
+  const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `residential_${new Date().toISOString().slice(0, 10)}.csv`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
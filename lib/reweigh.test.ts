@@ -0,0 +1,64 @@
+// lib/reweigh.test.ts — carrier billed weight vs the counter's weight
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getCarrier, type Row } from "@/lib/carriers";
+import { addCarrierRow, findChargePairs, type CarrierMap, type PosIndex } from "@/lib/audit";
+import type { RateCard } from "@/lib/rates";
+import { createReweighAccumulator, parseWeight } from "@/lib/reweigh";
+
+test("POS weights read in pounds, ounces or kilograms", () => {
+  assert.equal(parseWeight("4.5"), 4.5);
+  assert.equal(parseWeight("4 lb 8 oz"), 4.5);
+  assert.equal(parseWeight("12 oz"), 0.75);
+  assert.equal(Number(parseWeight("2 kg").toFixed(2)), 4.41);
+});
+
+test("missing or unreadable weights read as zero", () => {
+  assert.equal(parseWeight(""), 0);
+  assert.equal(parseWeight("n/a"), 0);
+  assert.equal(parseWeight("-"), 0);
+});
+
+const ups = getCarrier("UPS");
+const card: RateCard = {
+  carrier: "UPS", name: "card", unit: "lb", uploadedAt: "",
+  services: [{ service: "GROUND", discountPct: 0, minimum: 0, cells: [{ zone: "2", weight: 5, rate: 10 }, { zone: "2", weight: 10, rate: 16 }] }],
+};
+
+function run(rows: Row[], posIndex: PosIndex, posMap: Record<string, number>, cards: RateCard[] = []) {
+  const acc = createReweighAccumulator();
+  const map: CarrierMap = {};
+  const pairs = findChargePairs(Object.keys(rows[0]));
+  rows.forEach((r) => { acc.add(r, ups, pairs); addCarrierRow(map, r, ups); });
+  return acc.finish(map, posIndex, posMap, cards);
+}
+
+const row = (tracking: string, billedWeight: string, extra: Row = {}): Row => ({
+  "Tracking Number": tracking, "Invoice Number": "INV1", Service: "UPS Ground", Zone: "2", "Billed Weight": billedWeight,
+  "Billed Charge": "16.00", "Charge Description": "", "Charge Amount": "", ...extra,
+});
+
+test("the cost comes from the correction charge, then the rate card, then the POS amount", () => {
+  const posIndex: PosIndex = {
+    "1ZADJ": { isResidential: null, dims: null, weight: 4.2 },
+    "1ZCARD": { isResidential: null, dims: null, weight: 4.2 },
+    "1ZPOS": { isResidential: null, dims: null, weight: 4.2 },
+  };
+  const rows = [
+    row("1ZADJ", "9", { "Charge Description": "Shipping Charge Correction", "Charge Amount": "6.25" }),
+    row("1ZCARD", "8"),
+    row("1ZPOS", "7"),
+  ];
+  const withCard = run(rows, posIndex, { "1ZPOS": 12 }, [card]);
+  assert.deepEqual(withCard.map((r) => [r.tracking, r.delta, r.cost, r.costBasis]), [
+    ["1ZADJ", 4, 6.25, "adjustment"], ["1ZCARD", 3, 6, "contract"], ["1ZPOS", 2, 6, "contract"],
+  ]);
+  const noCards = run(rows, posIndex, { "1ZPOS": 12 });
+  assert.deepEqual(noCards.find((r) => r.tracking === "1ZPOS")?.costBasis, "pos");
+  assert.equal(noCards.find((r) => r.tracking === "1ZPOS")?.cost, 4);
+});
+
+test("weights within the next whole pound, or without a POS weight, are not reweighs", () => {
+  const rows = [row("1ZA", "5"), row("1ZB", "9")];
+  assert.deepEqual(run(rows, { "1ZA": { isResidential: null, dims: null, weight: 4.2 } }, {}), []);
+});
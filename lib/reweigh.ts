@@ -0,0 +1,102 @@
+// lib/reweigh.ts — carrier billed weight vs the weight the counter recorded, per tracking
+import * as Papa from "papaparse";
+import { getVal } from "@/lib/parse";
+import { expectedCharge, toUnit, type RateCard } from "@/lib/rates";
+import type { CarrierAdapter, CarrierId, Row } from "@/lib/carriers";
+import type { CarrierMap, ChargePairs, PosIndex } from "@/lib/audit";
+
+// Charge lines carriers use when they re-bill a package after weighing it themselves
+export const REWEIGH_RX = /shipping\s*charge\s*correction|weight\s*(correction|adjustment)|re-?weigh|scale\s*weight|audit(ed)?\s*(weight|adjustment)|\bapv\b/i;
+
+export type ReweighRow = {
+  tracking: string;
+  carrier: CarrierId;
+  invoice: string;
+  service: string;
+  posWeight: number;    // lb, as recorded at the counter
+  billedWeight: number; // lb, as billed
+  delta: number;        // billed minus the POS weight rounded up
+  adjustment: number;   // reweigh / correction charges on the invoice
+  cost: number;
+  costBasis: "adjustment" | "contract" | "pos";
+};
+
+export const COST_BASIS_LABEL: Record<ReweighRow["costBasis"], string> = {
+  adjustment: "Correction charge on invoice",
+  contract: "Contract rate difference",
+  pos: "Carrier billed minus POS",
+};
+
+// "4.5", "4 lb 3 oz", "12 oz", "2 kg" → lb
+export function parseWeight(s: string) {
+  const t = s.trim().toLowerCase();
+  if (!t) return 0;
+  const lb = Number(t.match(/(\d+(?:\.\d+)?)\s*(lbs?|#)/)?.[1] ?? 0);
+  const oz = Number(t.match(/(\d+(?:\.\d+)?)\s*oz/)?.[1] ?? 0);
+  if (lb || oz) return lb + oz / 16;
+  const n = Number(t.replace(/[^0-9.]/g, ""));
+  if (!(n > 0)) return 0;
+  return /kg/.test(t) ? toUnit(n, "kg", "lb") : n;
+}
+
+// Reweigh correction charges per tracking, collected while the invoice streams
+export function createReweighAccumulator() {
+  const adjustments: Record<string, number> = {};
+
+  function add(r: Row, carrier: CarrierAdapter, pairs: ChargePairs) {
+    const tracking = carrier.normalizeTracking(getVal(r, carrier.columns.tracking)); if (!tracking) return;
+    pairs.forEach(({ desc, amt }) => {
+      const d = String(r[desc] ?? "").trim();
+      const a = carrier.parseMoney(r[amt]);
+      if (d && a > 0 && REWEIGH_RX.test(d)) adjustments[tracking] = (adjustments[tracking] || 0) + a;
+    });
+  }
+
+  // Shipments billed heavier than the POS weight (rounded up to the next pound), largest delta first.
+  // Cost impact: the correction charge when the carrier itemised one, else the rate-card difference,
+  // else what the carrier billed above the POS amount
+  function finish(carrierMap: CarrierMap, posIndex: PosIndex, posMap: Record<string, number>, rateCards: RateCard[] = []): ReweighRow[] {
+    const rows: ReweighRow[] = [];
+    for (const [tracking, s] of Object.entries(carrierMap)) {
+      const posWeight = posIndex[tracking]?.weight;
+      if (!posWeight || !s.weight) continue;
+      const billedWeight = Number(toUnit(s.weight, s.weightUnit ?? "lb", "lb").toFixed(2));
+      const delta = Number((billedWeight - Math.ceil(posWeight - 1e-9)).toFixed(2));
+      if (delta < 1) continue;
+
+      const adjustment = Number((adjustments[tracking] ?? 0).toFixed(2));
+      let cost = adjustment;
+      let costBasis: ReweighRow["costBasis"] = "adjustment";
+      const card = rateCards.find((c) => c.carrier === s.carrier);
+      const billed = card && s.service && s.zone ? expectedCharge(card, s.service, s.zone, billedWeight) : null;
+      const recorded = card && s.service && s.zone ? expectedCharge(card, s.service, s.zone, posWeight) : null;
+      if (!cost && billed !== null && recorded !== null) { cost = Number((billed - recorded).toFixed(2)); costBasis = "contract"; }
+      if (!cost) { cost = Number(Math.max(0, s.amt - (posMap[tracking] ?? 0)).toFixed(2)); costBasis = "pos"; }
+
+      rows.push({
+        tracking, carrier: s.carrier, invoice: s.invoice, service: s.service ?? "",
+        posWeight, billedWeight, delta, adjustment, cost, costBasis,
+      });
+    }
+    return rows.sort((a, b) => b.delta - a.delta || b.cost - a.cost);
+  }
+
+  return { add, finish };
+}
+
+export function downloadReweighCSV(rows: ReweighRow[]) {
+  const csv = Papa.unparse({
+    fields: ["Tracking #", "Carrier", "Invoice #", "Service", "POS Weight (lb)", "Billed Weight (lb)", "Weight Delta (lb)", "Correction Charge", "Cost Impact", "Cost Basis"],
+    data: rows.map((r) => [
+      r.tracking, r.carrier, r.invoice, r.service, r.posWeight, r.billedWeight, r.delta,
+      r.adjustment ? r.adjustment.toFixed(2) : "", r.cost.toFixed(2), COST_BASIS_LABEL[r.costBasis],
+    ]),
+  });
+  const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `reweighs_${new Date().toISOString().slice(0, 10)}.csv`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,51 @@
+// lib/timezones.test.ts — destination time zones and wall-clock conversion
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getCarrier } from "@/lib/carriers";
+import { lateCheck } from "@/lib/audit";
+import { formatInZone, offsetInstant, resolveTimeZone, zonedInstant } from "@/lib/timezones";
+
+test("ZIP3 prefixes resolve to their zone, including split states", () => {
+  assert.deepEqual(resolveTimeZone({ postal: "10001" }), { zone: "America/New_York", source: "zip" });
+  assert.equal(resolveTimeZone({ postal: "57701" })?.zone, "America/Denver"); // Rapid City
+  assert.equal(resolveTimeZone({ postal: "57901" })?.zone, "America/Chicago");
+  assert.equal(resolveTimeZone({ postal: "88510" })?.zone, "America/Denver"); // El Paso
+  assert.equal(resolveTimeZone({ postal: "85001" })?.zone, "America/Phoenix");
+});
+
+test("state and country are the fallbacks when the ZIP is missing or unusable", () => {
+  assert.deepEqual(resolveTimeZone({ postal: "12", state: "co" }), { zone: "America/Denver", source: "state" });
+  assert.deepEqual(resolveTimeZone({ country: "Germany" }), { zone: "Europe/Berlin", source: "country" });
+  assert.equal(resolveTimeZone({ postal: "abc", state: "ZZ", country: "Atlantis" }), null);
+});
+
+test("wall times convert to the instant in the destination zone, on both sides of DST", () => {
+  assert.equal(zonedInstant(new Date(2024, 0, 5, 10, 30), "America/New_York").toISOString(), "2024-01-05T15:30:00.000Z");
+  assert.equal(zonedInstant(new Date(2024, 6, 5, 10, 30), "America/Los_Angeles").toISOString(), "2024-07-05T17:30:00.000Z");
+  assert.equal(offsetInstant(new Date(2024, 0, 5, 10, 42), -300).toISOString(), "2024-01-05T15:42:00.000Z");
+  assert.equal(formatInZone(new Date("2024-01-05T15:30:00Z"), "America/Chicago"), "2024-01-05 09:30 CST");
+});
+
+test("invalid dates pass through without throwing", () => {
+  assert.ok(isNaN(zonedInstant(new Date(NaN), "America/New_York").getTime()));
+  assert.equal(formatInZone(new Date(NaN), "America/New_York"), "");
+});
+
+const row = (podDate: string, podTime: string) => ({
+  "Tracking Number": "1Z999AA10123456784", Service: "UPS Next Day Air", "Ship Date": "01/04/2024",
+  "Delivery Date": podDate, "Delivery Time": podTime, "Receiver Postal": "90001",
+});
+
+test("the commitment is judged in the destination's local time", () => {
+  const ups = getCarrier("UPS");
+  assert.equal(lateCheck(row("01/05/2024", "10:15"), ups), null); // 10:15 Los Angeles, before 10:30
+  const late = lateCheck(row("01/05/2024", "13:40 EST"), ups);    // 10:40 Los Angeles
+  assert.equal(late?.zone, "America/Los_Angeles");
+  assert.equal(late?.deliveredDest, "2024-01-05 10:40 PST");
+});
+
+test("an unparseable POD date skips the row", () => {
+  const ups = getCarrier("UPS");
+  assert.equal(lateCheck(row("2024-13-45", "10:15"), ups), null);
+  assert.equal(lateCheck(row("Jan 45 2024", "10:15"), ups), null);
+});
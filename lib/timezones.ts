@@ -0,0 +1,160 @@
+// lib/timezones.ts — destination time zone for a shipment, and wall-clock ↔ instant conversion
+// Commitments ("by 10:30") and POD times are in the destination's local time, not the auditor's.
+
+type Range = [from: number, to: number, zone: string];
+
+const ET = "America/New_York";
+const CT = "America/Chicago";
+const MT = "America/Denver";
+const PT = "America/Los_Angeles";
+
+// US ZIP3 prefixes by zone; split states are broken out where the line falls between prefixes
+const ZIP3_ZONES: readonly Range[] = [
+  [6, 9, "America/Puerto_Rico"],
+  [10, 323, ET],
+  [324, 325, CT], // Florida panhandle west of the Apalachicola
+  [326, 349, ET],
+  [350, 372, CT],
+  [373, 374, ET], // Chattanooga
+  [375, 375, CT],
+  [376, 379, ET], // East Tennessee
+  [380, 397, CT],
+  [398, 399, ET],
+  [400, 418, ET],
+  [420, 427, CT], // Western Kentucky
+  [430, 462, ET],
+  [463, 464, CT], // Northwest Indiana
+  [465, 475, ET],
+  [476, 477, CT], // Evansville
+  [478, 499, ET],
+  [500, 576, CT],
+  [577, 577, MT], // Western South Dakota
+  [578, 579, CT],
+  [580, 585, CT],
+  [586, 586, MT], // Southwest North Dakota
+  [587, 588, CT],
+  [590, 599, MT],
+  [600, 692, CT],
+  [693, 693, MT], // Nebraska panhandle
+  [700, 797, CT],
+  [798, 799, MT], // El Paso
+  [800, 831, MT],
+  [832, 837, "America/Boise"],
+  [838, 838, PT], // Idaho panhandle
+  [840, 847, MT],
+  [850, 865, "America/Phoenix"],
+  [870, 884, MT],
+  [885, 885, MT], // El Paso
+  [889, 961, PT],
+  [967, 968, "Pacific/Honolulu"],
+  [969, 969, "Pacific/Guam"],
+  [970, 978, PT],
+  [979, 979, "America/Boise"], // Eastern Oregon
+  [980, 994, PT],
+  [995, 999, "America/Anchorage"],
+];
+
+// Zone covering most of each state/province, for rows with a state but no usable ZIP
+const STATE_ZONES: Record<string, string> = {
+  AL: CT, AK: "America/Anchorage", AZ: "America/Phoenix", AR: CT, CA: PT, CO: MT, CT: ET, DE: ET, DC: ET,
+  FL: ET, GA: ET, HI: "Pacific/Honolulu", ID: "America/Boise", IL: CT, IN: ET, IA: CT, KS: CT, KY: ET,
+  LA: CT, ME: ET, MD: ET, MA: ET, MI: ET, MN: CT, MS: CT, MO: CT, MT: MT, NE: CT, NV: PT, NH: ET,
+  NJ: ET, NM: MT, NY: ET, NC: ET, ND: CT, OH: ET, OK: CT, OR: PT, PA: ET, RI: ET, SC: ET, SD: CT,
+  TN: CT, TX: CT, UT: MT, VT: ET, VA: ET, WA: PT, WV: ET, WI: CT, WY: MT,
+  PR: "America/Puerto_Rico", VI: "America/St_Thomas", GU: "Pacific/Guam",
+  // Canadian provinces
+  AB: "America/Edmonton", BC: "America/Vancouver", MB: "America/Winnipeg", NB: "America/Moncton",
+  NL: "America/St_Johns", NS: "America/Halifax", ON: "America/Toronto", PE: "America/Halifax",
+  QC: "America/Toronto", SK: "America/Regina", YT: "America/Whitehorse",
+};
+
+// Single-zone (or dominant-zone) destinations outside the US, by ISO country code
+const COUNTRY_ZONES: Record<string, string> = {
+  CA: "America/Toronto", MX: "America/Mexico_City", PR: "America/Puerto_Rico",
+  GB: "Europe/London", IE: "Europe/Dublin", FR: "Europe/Paris", DE: "Europe/Berlin", NL: "Europe/Amsterdam",
+  BE: "Europe/Brussels", LU: "Europe/Luxembourg", CH: "Europe/Zurich", AT: "Europe/Vienna", IT: "Europe/Rome",
+  ES: "Europe/Madrid", PT: "Europe/Lisbon", DK: "Europe/Copenhagen", SE: "Europe/Stockholm", NO: "Europe/Oslo",
+  FI: "Europe/Helsinki", PL: "Europe/Warsaw", CZ: "Europe/Prague", GR: "Europe/Athens", IL: "Asia/Jerusalem",
+  AE: "Asia/Dubai", IN: "Asia/Kolkata", CN: "Asia/Shanghai", HK: "Asia/Hong_Kong", TW: "Asia/Taipei",
+  JP: "Asia/Tokyo", KR: "Asia/Seoul", SG: "Asia/Singapore", PH: "Asia/Manila", NZ: "Pacific/Auckland",
+  ZA: "Africa/Johannesburg",
+};
+
+const COUNTRY_NAMES: Record<string, string> = {
+  "UNITED STATES": "US", "UNITED STATES OF AMERICA": "US", USA: "US", CANADA: "CA", MEXICO: "MX",
+  "UNITED KINGDOM": "GB", UK: "GB", "GREAT BRITAIN": "GB", GERMANY: "DE", FRANCE: "FR", JAPAN: "JP",
+  CHINA: "CN", "PUERTO RICO": "PR", AUSTRALIA: "AU",
+};
+
+export type DestinationAddress = { postal?: string; state?: string; country?: string };
+
+// Where the zone came from, so results can say how sure they are
+export type ResolvedZone = { zone: string; source: "zip" | "state" | "country" };
+
+function countryCode(s?: string) {
+  const c = (s || "").trim().toUpperCase();
+  if (!c) return "";
+  return COUNTRY_NAMES[c] ?? c;
+}
+
+export function resolveTimeZone({ postal, state, country }: DestinationAddress): ResolvedZone | null {
+  const cc = countryCode(country);
+  const st = (state || "").trim().toUpperCase();
+  if (!cc || cc === "US") {
+    const zip = (postal || "").replace(/\D/g, "");
+    if (zip.length >= 5) {
+      const z3 = Number(zip.slice(0, 3));
+      const hit = ZIP3_ZONES.find(([from, to]) => z3 >= from && z3 <= to);
+      if (hit) return { zone: hit[2], source: "zip" };
+    }
+  }
+  if (st && STATE_ZONES[st] && (!cc || cc === "US" || cc === "CA" || cc === "PR")) return { zone: STATE_ZONES[st], source: "state" };
+  if (cc && COUNTRY_ZONES[cc]) return { zone: COUNTRY_ZONES[cc], source: "country" };
+  return null;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function partsIn(at: Date, zone?: string) {
+  const key = zone ?? "";
+  let f = formatters.get(key);
+  if (!f) {
+    f = new Intl.DateTimeFormat("en-US", {
+      timeZone: zone, hourCycle: "h23", timeZoneName: "short",
+      year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit", second: "2-digit",
+    });
+    formatters.set(key, f);
+  }
+  const p: Record<string, string> = {};
+  f.formatToParts(at).forEach(({ type, value }) => { p[type] = value; });
+  return p;
+}
+
+// Minutes east of UTC for `zone` at instant `at`
+function zoneOffset(at: Date, zone: string) {
+  const p = partsIn(at, zone);
+  const asUtc = Date.UTC(+p.year, +p.month - 1, +p.day, +p.hour % 24, +p.minute, +p.second);
+  return Math.round((asUtc - Math.floor(at.getTime() / 1000) * 1000) / 60000);
+}
+
+// Instant at which `zone`'s clock reads the wall time held in `wall`'s local fields; an invalid date stays invalid
+export function zonedInstant(wall: Date, zone: string) {
+  if (isNaN(wall.getTime())) return new Date(NaN);
+  const utc = Date.UTC(wall.getFullYear(), wall.getMonth(), wall.getDate(), wall.getHours(), wall.getMinutes(), wall.getSeconds(), wall.getMilliseconds());
+  const guess = utc - zoneOffset(new Date(utc), zone) * 60000;
+  // Re-check once so wall times near a DST switch land on the right side of it
+  return new Date(utc - zoneOffset(new Date(guess), zone) * 60000);
+}
+
+// Instant for a wall time carrying its own UTC offset (minutes east), e.g. "10:42 EST"
+export function offsetInstant(wall: Date, offset: number) {
+  const utc = Date.UTC(wall.getFullYear(), wall.getMonth(), wall.getDate(), wall.getHours(), wall.getMinutes(), wall.getSeconds(), wall.getMilliseconds());
+  return new Date(utc - offset * 60000);
+}
+
+// "yyyy-MM-dd HH:mm TZ" in `zone`; the browser's own zone when omitted, blank for an invalid date
+export function formatInZone(at: Date, zone?: string) {
+  if (isNaN(at.getTime())) return "";
+  const p = partsIn(at, zone);
+  return `${p.year}-${p.month}-${p.day} ${p.hour}:${p.minute} ${p.timeZoneName}`;
+}
@@ -0,0 +1,17 @@
+// lib/workbook-client.ts — preview an Excel upload in a Web Worker, so a large workbook never blocks the page
+import type { WorkbookPreview } from "@/lib/xlsx";
+
+export type WorkbookMessage = { type: "done"; preview: WorkbookPreview } | { type: "error"; message: string };
+
+export function inspectWorkbook(file: File): Promise<WorkbookPreview> {
+  const worker = new Worker(new URL("./workbook.worker.ts", import.meta.url));
+  return new Promise<WorkbookPreview>((resolve, reject) => {
+    worker.onmessage = (e: MessageEvent<WorkbookMessage>) => {
+      worker.terminate();
+      if (e.data.type === "done") resolve(e.data.preview);
+      else reject(new Error(e.data.message));
+    };
+    worker.onerror = (e) => { worker.terminate(); reject(new Error(e.message || "Workbook reader failed")); };
+    worker.postMessage(file);
+  });
+}
@@ -0,0 +1,16 @@
+// lib/workbook.worker.ts — reads an Excel upload off the main thread and returns the head of each sheet
+import { previewWorkbook } from "@/lib/xlsx";
+import type { WorkbookMessage } from "@/lib/workbook-client";
+import { errorMessage } from "@/lib/parse";
+
+const ctx = self as unknown as Worker;
+
+function post(m: WorkbookMessage) {
+  ctx.postMessage(m);
+}
+
+ctx.onmessage = (e: MessageEvent<File>) => {
+  previewWorkbook(e.data)
+    .then((preview) => post({ type: "done", preview }))
+    .catch((err) => post({ type: "error", message: errorMessage(err) }));
+};
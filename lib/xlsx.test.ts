@@ -0,0 +1,45 @@
+// lib/xlsx.test.ts — workbook uploads: accepted extensions, sheet previews and batched rows
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as XLSX from "xlsx";
+import { UPLOAD_ACCEPT, WORKBOOK_RX, forEachSheetBatch, isWorkbook, previewWorkbook } from "@/lib/xlsx";
+
+function workbookFile(sheets: Record<string, unknown[][]>, name = "invoice.xlsx") {
+  const wb = XLSX.utils.book_new();
+  Object.entries(sheets).forEach(([sheet, rows]) => XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(rows), sheet));
+  return new File([XLSX.write(wb, { type: "array", bookType: "xlsx" })], name);
+}
+
+test("the file picker accepts every workbook extension the reader handles", () => {
+  const workbookExts = UPLOAD_ACCEPT.split(",").filter((ext) => WORKBOOK_RX.test(`f${ext}`));
+  assert.deepEqual(workbookExts.sort(), [".xls", ".xlsb", ".xlsm", ".xlsx"]);
+  assert.ok(isWorkbook(new File([], "Invoice.XLSB")));
+  assert.ok(!isWorkbook(new File([], "invoice.csv")));
+});
+
+test("previewWorkbook lists every sheet with its display strings", async () => {
+  const file = workbookFile({
+    Summary: [["Invoice 123"]],
+    Detail: [["Report run 01/08/2024"], ["Tracking Number", "Billed Charge"], ["1Z999AA10123456784", 12.5], []],
+  });
+  const { sheets, grids } = await previewWorkbook(file);
+  assert.deepEqual(sheets, ["Summary", "Detail"]);
+  assert.deepEqual(grids.Detail, [["Report run 01/08/2024", ""], ["Tracking Number", "Billed Charge"], ["1Z999AA10123456784", "12.5"]]);
+});
+
+test("forEachSheetBatch reads named rows from the header row on", async () => {
+  const file = workbookFile({ Detail: [["title"], ["Tracking Number", "Billed Charge"], ["1ZA", 1], ["1ZB", 2]] });
+  const seen: Record<string, string>[] = [];
+  let last = 0;
+  await forEachSheetBatch(file, "Detail", 1, (rows, fields, done) => {
+    assert.deepEqual(fields, ["Tracking Number", "Billed Charge"]);
+    seen.push(...rows); last = done;
+  });
+  assert.deepEqual(seen, [{ "Tracking Number": "1ZA", "Billed Charge": "1" }, { "Tracking Number": "1ZB", "Billed Charge": "2" }]);
+  assert.equal(last, 1);
+});
+
+test("a missing sheet is an error, not an empty audit", async () => {
+  const file = workbookFile({ Detail: [["Tracking Number"]] });
+  await assert.rejects(forEachSheetBatch(file, "Nope", 0, () => {}), /Sheet "Nope" not found or empty/);
+});
@@ -0,0 +1,49 @@
+// lib/xlsx.ts — read Excel workbooks (inside a worker) and hand their sheets to the row pipeline
+import * as XLSX from "xlsx";
+
+export const WORKBOOK_RX = /\.(xlsx|xlsm|xlsb|xls)$/i;
+export const UPLOAD_ACCEPT = ".csv,.txt,.edi,.210,.xlsx,.xlsm,.xlsb,.xls"; // same extensions as WORKBOOK_RX
+export const PREVIEW_ROWS = 50; // rows per sheet read for detection: header scan plus sample
+const ROW_BATCH = 5000;
+
+// Head of every sheet, enough to detect each one without holding the workbook
+export type WorkbookPreview = { sheets: string[]; grids: Record<string, string[][]> };
+
+export function isWorkbook(file: File) {
+  return WORKBOOK_RX.test(file.name);
+}
+
+// `sheetRows` stops SheetJS after that many rows per sheet
+export async function readWorkbook(file: File, sheetRows?: number) {
+  const buf = await file.arrayBuffer();
+  return XLSX.read(buf, { type: "array", cellDates: false, sheetRows });
+}
+
+// Sheet as a grid of display strings (what the user sees in Excel), blank rows dropped
+export function sheetGrid(wb: XLSX.WorkBook, sheet: string): string[][] {
+  const ws = wb.Sheets[sheet];
+  if (!ws) return [];
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(ws, { header: 1, raw: false, defval: "", blankrows: false });
+  return rows.map((r) => r.map((c) => String(c ?? "").trim()));
+}
+
+export async function previewWorkbook(file: File): Promise<WorkbookPreview> {
+  const wb = await readWorkbook(file, PREVIEW_ROWS);
+  return { sheets: wb.SheetNames, grids: Object.fromEntries(wb.SheetNames.map((name) => [name, sheetGrid(wb, name)])) };
+}
+
+// One sheet as named rows from its header row on, in batches so the audit sees it like streamed CSV chunks
+export async function forEachSheetBatch(
+  file: File,
+  sheet: string,
+  headerRow: number,
+  onBatch: (rows: Record<string, string>[], fields: string[], done: number) => void
+) {
+  const grid = sheetGrid(await readWorkbook(file), sheet).slice(headerRow);
+  if (!grid.length) throw new Error(`Sheet "${sheet}" not found or empty`);
+  const fields = grid[0].map((h) => h.trim());
+  for (let i = 1; i < grid.length; i += ROW_BATCH) {
+    const rows = grid.slice(i, i + ROW_BATCH).map((r) => Object.fromEntries(fields.map((h, j) => [h, r[j] ?? ""])));
+    onBatch(rows, fields, Math.min(1, (i + ROW_BATCH) / grid.length));
+  }
+}
@@ -0,0 +1,63 @@
+// lib/zones.test.ts — zone charts and the billed-zone check
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getCarrier } from "@/lib/carriers";
+import { addCarrierRow, type CarrierMap } from "@/lib/audit";
+import type { RateCard } from "@/lib/rates";
+import { expectedZone, zipRange, zoneIssues, type ZoneChart } from "@/lib/zones";
+
+test("ZIP prefixes and ranges become 5-digit bounds", () => {
+  assert.deepEqual(zipRange("004"), { from: "00400", to: "00499" });
+  assert.deepEqual(zipRange("004-005"), { from: "00400", to: "00599" });
+  assert.deepEqual(zipRange("01000 – 01199"), { from: "01000", to: "01199" });
+});
+
+test("malformed ranges are rejected", () => {
+  assert.equal(zipRange(""), null);
+  assert.equal(zipRange("1234"), null);
+  assert.equal(zipRange("004-01199"), null);
+  assert.equal(zipRange("Zone"), null);
+});
+
+const chart: ZoneChart = {
+  id: "UPS:100", carrier: "UPS", origin: "100", name: "chart.csv", uploadedAt: "",
+  services: ["GROUND", "NEXT DAY AIR", "NEXT DAY AIR SAVER"],
+  rows: [
+    { from: "10000", to: "10499", zones: { GROUND: "2", "NEXT DAY AIR": "102", "NEXT DAY AIR SAVER": "132" } },
+    { from: "90000", to: "96199", zones: { GROUND: "8", "NEXT DAY AIR": "108" } },
+  ],
+};
+
+test("the service column with the longest matching name decides the zone", () => {
+  assert.equal(expectedZone(chart, "UPS Ground", "10001-1234"), "2");
+  assert.equal(expectedZone(chart, "UPS Next Day Air Saver", "10001"), "132");
+  assert.equal(expectedZone(chart, "UPS Next Day Air", "90210"), "108");
+  assert.equal(expectedZone(chart, "UPS Ground", "60601"), null); // not on the chart
+  assert.equal(expectedZone(chart, "UPS Ground", "1000"), null);  // not a ZIP
+  assert.equal(expectedZone(chart, "UPS 3 Day Select", "10001"), null);
+});
+
+const card: RateCard = {
+  carrier: "UPS", name: "card", unit: "lb", uploadedAt: "",
+  services: [{ service: "GROUND", discountPct: 0, minimum: 0, cells: [{ zone: "2", weight: 5, rate: 10 }, { zone: "8", weight: 5, rate: 19.5 }] }],
+};
+
+test("billed zones that differ from the chart are reported and priced when a card can", () => {
+  const map: CarrierMap = {};
+  const ups = getCarrier("UPS");
+  const row = (t: string, zone: string, dest: string) => ({
+    "Tracking Number": t, Service: "UPS Ground", Zone: zone, "Billed Weight": "4", "Sender Postal": "10001", "Receiver Postal": dest,
+  });
+  addCarrierRow(map, row("1ZHIGH", "008", "10001"), ups);
+  addCarrierRow(map, row("1ZOK", "002", "10002"), ups);
+  addCarrierRow(map, row("1ZLOW", "2", "90210"), ups);
+  addCarrierRow(map, { ...row("1ZOTHER", "8", "10001"), "Sender Postal": "60601" }, ups); // no chart for origin 606
+
+  const priced = zoneIssues(map, [chart], [card]);
+  assert.deepEqual(priced.map((i) => [i.tracking, i.amount, i.note]), [
+    ["1ZHIGH", 9.5, "Zone mismatch: billed zone 8, chart for origin 100 gives zone 2 (est. impact $9.50)"],
+    ["1ZLOW", 0, "Zone mismatch: billed zone 2, chart for origin 100 gives zone 8 (est. impact $-9.50)"],
+  ]);
+  assert.match(zoneIssues(map, [chart])[0].note, /no rate card to price it/);
+  assert.deepEqual(zoneIssues(map, []), []);
+});
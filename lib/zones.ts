@@ -0,0 +1,120 @@
+// lib/zones.ts — carrier zone charts per origin ZIP prefix; expected zone vs the billed one
+import { parseWithHeaderRow } from "@/lib/parse";
+import { ZONE_CHARTS, hasIndexedDb, withStore } from "@/lib/idb";
+import { expectedCharge, normalizeZone, toUnit, type RateCard } from "@/lib/rates";
+import type { CarrierId } from "@/lib/carriers";
+import type { CarrierMap, ChargeIssue } from "@/lib/audit";
+
+// Destination ZIP range (5-digit bounds) → zone per service column; "ZONE" when the chart has a single column
+export type ZoneChartRow = { from: string; to: string; zones: Record<string, string> };
+
+export type ZoneChart = {
+  id: string; // `${carrier}:${origin}`
+  carrier: CarrierId;
+  origin: string; // 3-digit origin ZIP prefix
+  name: string;
+  uploadedAt: string;
+  services: string[]; // upper-cased column headers, e.g. "GROUND", "NEXT DAY AIR"
+  rows: ZoneChartRow[];
+};
+
+const DEST_HDR = /^dest(ination)?\.?\s*zip(\s*code)?s?$|^zip(\s*code)?s?$/i;
+const SINGLE = "ZONE";
+
+export const zoneChartId = (carrier: CarrierId, origin: string) => `${carrier}:${origin}`;
+
+// "004", "004-005", "01000-01199" → 5-digit inclusive bounds
+export function zipRange(s: string): { from: string; to: string } | null {
+  const parts = s.split(/\s*[-–]\s*/).map((p) => p.replace(/\D/g, ""));
+  const [a, b = a] = parts;
+  if (!a || (a.length !== 3 && a.length !== 5) || b.length !== a.length) return null;
+  return a.length === 3 ? { from: `${a}00`, to: `${b}99` } : { from: a, to: b };
+}
+
+export type ZoneChartImport = { chart: ZoneChart | null; errors: string[] };
+
+// Carrier zone charts put a title block above the header row; it is skipped
+export async function parseZoneChart(file: File, carrier: CarrierId, origin: string): Promise<ZoneChartImport> {
+  if (!/^\d{3}$/.test(origin)) return { chart: null, errors: ["Origin must be the first 3 digits of your ZIP"] };
+  const data = await parseWithHeaderRow(file, [DEST_HDR], 1);
+  const headers = Object.keys(data[0] ?? {});
+  const destCol = headers.find((h) => DEST_HDR.test(h));
+  if (!destCol) return { chart: null, errors: ["No destination ZIP column found"] };
+  const zoneCols = headers.filter((h) => h !== destCol && h.trim());
+  const errors: string[] = [];
+  const rows: ZoneChartRow[] = [];
+  data.forEach((r, i) => {
+    const range = zipRange(String(r[destCol] ?? ""));
+    if (!range) { if (String(r[destCol] ?? "").trim()) errors.push(`Row ${i + 2}: "${r[destCol]}" is not a ZIP or ZIP range`); return; }
+    const zones: Record<string, string> = {};
+    zoneCols.forEach((c) => {
+      const z = String(r[c] ?? "").trim();
+      if (z && z !== "-" && !/^n\/?a$/i.test(z)) zones[/^zones?$/i.test(c) ? SINGLE : c.toUpperCase()] = normalizeZone(z);
+    });
+    if (Object.keys(zones).length) rows.push({ ...range, zones });
+  });
+  if (!rows.length) return { chart: null, errors: [...errors, "No zones found"] };
+  const services = Array.from(new Set(rows.flatMap((r) => Object.keys(r.zones))));
+  return {
+    chart: { id: zoneChartId(carrier, origin), carrier, origin, name: file.name, uploadedAt: new Date().toISOString(), services, rows },
+    errors,
+  };
+}
+
+// Zone the chart gives a shipment, matching the service column by longest name contained in the invoice service
+export function expectedZone(chart: ZoneChart, service: string, destPostal: string) {
+  const zip = destPostal.replace(/\D/g, "").slice(0, 5);
+  if (zip.length !== 5) return null;
+  const row = chart.rows.find((r) => zip >= r.from && zip <= r.to);
+  if (!row) return null;
+  const svc = service.toUpperCase();
+  const col = chart.services
+    .filter((s) => s !== SINGLE && svc.includes(s.replace(/^UPS\s+|^FEDEX\s+/, "")))
+    .sort((a, b) => b.length - a.length)[0];
+  return row.zones[col ?? SINGLE] ?? null;
+}
+
+// Every shipment whose billed zone differs from the chart; impact priced from the rate card when there is one
+export function zoneIssues(carrierMap: CarrierMap, charts: ZoneChart[], rateCards: RateCard[] = []): ChargeIssue[] {
+  const byId = new Map(charts.map((c) => [c.id, c]));
+  const issues: ChargeIssue[] = [];
+  for (const [tracking, s] of Object.entries(carrierMap)) {
+    if (!s.zone || !s.origin || !s.dest) continue;
+    const chart = byId.get(zoneChartId(s.carrier, s.origin.replace(/\D/g, "").slice(0, 3)));
+    if (!chart) continue;
+    const expected = expectedZone(chart, s.service ?? "", s.dest);
+    const billed = normalizeZone(s.zone);
+    if (!expected || expected === billed) continue;
+
+    const card = rateCards.find((c) => c.carrier === s.carrier);
+    const weight = s.weight ? toUnit(s.weight, s.weightUnit ?? "lb", "lb") : 0;
+    const atBilled = card && s.service && weight ? expectedCharge(card, s.service, billed, weight) : null;
+    const atExpected = card && s.service && weight ? expectedCharge(card, s.service, expected, weight) : null;
+    const impact = atBilled !== null && atExpected !== null ? Number((atBilled - atExpected).toFixed(2)) : 0;
+    issues.push({
+      tracking,
+      carrier: s.carrier,
+      invoice: s.invoice,
+      invoiceDate: s.invoiceDate,
+      description: "Billed Zone",
+      amount: Math.max(0, impact), // a zone billed lower than the chart is still listed, but is not money back
+      note: `Zone mismatch: billed zone ${billed}, chart for origin ${chart.origin} gives zone ${expected}` +
+        (atBilled !== null && atExpected !== null ? ` (est. impact $${impact.toFixed(2)})` : " (no rate card to price it)"),
+    });
+  }
+  return issues;
+}
+
+export async function listZoneCharts(): Promise<ZoneChart[]> {
+  if (!hasIndexedDb()) return [];
+  return withStore<ZoneChart[]>(ZONE_CHARTS, "readonly", (s) => s.getAll());
+}
+
+export async function saveZoneChart(chart: ZoneChart) {
+  await withStore(ZONE_CHARTS, "readwrite", (s) => s.put(chart));
+  return chart;
+}
+
+export async function deleteZoneChart(id: string) {
+  await withStore(ZONE_CHARTS, "readwrite", (s) => s.delete(id));
+}